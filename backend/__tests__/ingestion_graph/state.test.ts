@@ -1,5 +1,5 @@
 import { Document } from '@langchain/core/documents';
-import { reduceDocs } from '../../src/shared/state.js';
+import { isUploadedDocument, reduceDocs } from '../../src/shared/state.js';
 
 describe('IndexStateAnnotation', () => {
   describe('docs reducer', () => {
@@ -13,7 +13,13 @@ describe('IndexStateAnnotation', () => {
       const result = reduceDocs(initialDocs, [newDoc]);
       expect(result).toHaveLength(1);
       expect(result[0].pageContent).toBe('test content');
-      expect(result[0].metadata).toEqual({ source: 'test.pdf', page: 1 });
+      expect(result[0].metadata).toEqual({
+        source: 'test.pdf',
+        page: 1,
+        uuid: expect.any(String),
+        isUploadedPdf: true,
+        isUploadedFile: true,
+      });
     });
 
     it('should handle merging multiple documents', () => {
@@ -68,5 +74,26 @@ describe('IndexStateAnnotation', () => {
       const result = reduceDocs(initialDocs, 'delete');
       expect(result).toHaveLength(0);
     });
+
+    it('should flag chunks of every uploaded file type', () => {
+      const result = reduceDocs([], [
+        new Document({ pageContent: 'statements', metadata: { filename: 'acme.pdf' } }),
+        new Document({ pageContent: 'trial balance', metadata: { filename: 'TB 2024.XLSX' } }),
+        new Document({ pageContent: 'draft', metadata: { source: 'draft.docx' } }),
+        new Document({ pageContent: 'notes', metadata: { source: 'notes.txt' } }),
+      ]);
+
+      expect(
+        result.map(({ metadata }) => [metadata.isUploadedPdf === true, metadata.isUploadedFile === true]),
+      ).toEqual([
+        [true, true],
+        [false, true],
+        [false, true],
+        [false, false],
+      ]);
+      expect(result.map(({ metadata }) => isUploadedDocument(metadata))).toEqual([true, true, true, false]);
+      // Chunks ingested before other file types were supported
+      expect(isUploadedDocument({ isUploadedPdf: true })).toBe(true);
+    });
   });
 });
@@ -0,0 +1,47 @@
+import { HumanMessage } from '@langchain/core/messages';
+import { cosineSimilarity } from '../../src/shared/hybrid.js';
+import { HashEmbeddings, hashPrompt, registerFakeScript } from '../../src/shared/fake.js';
+import { loadChatModel, loadEmbeddings } from '../../src/shared/utils.js';
+
+describe('HashEmbeddings', () => {
+  it('should embed the same text the same way, normalized to unit length', async () => {
+    const embeddings = new HashEmbeddings();
+    const [first, second] = await embeddings.embedDocuments(['Revenue 8,400', 'Revenue 8,400']);
+
+    expect(first).toHaveLength(1536);
+    expect(first).toEqual(second);
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1);
+  });
+
+  it('should place texts that share words closer together', async () => {
+    const embeddings = new HashEmbeddings(256);
+    const query = await embeddings.embedQuery('trade and other receivables');
+    const [related, unrelated] = await embeddings.embedDocuments([
+      'Note 6 Trade and other receivables',
+      "Independent auditor's report",
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('fake providers', () => {
+  it('should load a scripted chat model that answers by prompt hash', async () => {
+    const prompt = [new HumanMessage('What is the revenue?')];
+    registerFakeScript('unit', {
+      responses: { [hashPrompt(prompt)]: '8400' },
+      default: 'unknown',
+    });
+    const model = await loadChatModel('fake/unit');
+
+    expect((await model.invoke(prompt)).content).toBe('8400');
+    expect((await model.invoke([new HumanMessage('Who is the auditor?')])).content).toBe('unknown');
+  });
+
+  it('should load hash embeddings for fake/ and reject unknown providers', () => {
+    expect(loadEmbeddings('fake/hash')).toBeInstanceOf(HashEmbeddings);
+    expect((loadEmbeddings('fake/hash-384') as HashEmbeddings).dimensions).toBe(384);
+    expect(() => loadEmbeddings('fake/unknown')).toThrow('Unsupported fake embeddings model: unknown');
+    expect(() => loadEmbeddings('acme/embed-1')).toThrow('Unsupported embeddings provider: acme');
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  bm25Scores,
+  cosineSimilarity,
+  rankHybrid,
+  reciprocalRankFusion,
+  tokenize,
+} from '../../src/shared/hybrid.js';
+
+const pages = [
+  "Independent auditor's report. Opinion. In our opinion the financial statements give a true and fair view.",
+  'Statement of financial position. Trade and other receivables 1,200. Total assets 5,000.',
+  'Note 6 Trade and other receivables. Trade receivables due from third parties 1,000. Due from related parties 200.',
+  "Directors' statement. The directors present their statement.",
+];
+
+describe('tokenize', () => {
+  it('should drop stop words, punctuation and possessive endings', () => {
+    expect(tokenize("The auditor's report on the Financial Statements")).toEqual([
+      'auditor',
+      'report',
+      'financial',
+      'statements',
+    ]);
+  });
+});
+
+describe('bm25Scores', () => {
+  it('should score the page that repeats the query terms highest', () => {
+    const scores = bm25Scores(tokenize('trade receivables'), pages.map(tokenize));
+
+    expect(scores[0]).toBe(0);
+    expect(scores[2]).toBeGreaterThan(scores[1]);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should ignore magnitude and return 0 for mismatched vectors', () => {
+    expect(cosineSimilarity([1, 0], [3, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('should favour documents ranked well in both rankings', () => {
+    const scores = reciprocalRankFusion([[0, 1, 2], [1, 2, 0]], 3);
+
+    expect(scores[1]).toBeGreaterThan(scores[0]);
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+  });
+});
+
+describe('rankHybrid', () => {
+  const corpus = {
+    tokens: pages.map(tokenize),
+    embeddings: [[1, 0, 0], [0, 1, 0.2], [0, 1, 0], undefined],
+  };
+
+  it('should combine keyword and vector matches and keep the top k', () => {
+    expect(rankHybrid('trade and other receivables note', [0, 1, 0], corpus, 2)).toEqual([2, 1]);
+  });
+
+  it('should rank by keywords alone without a query embedding', () => {
+    expect(rankHybrid("directors' statement", undefined, corpus, 5)).toEqual([3, 1]);
+  });
+});
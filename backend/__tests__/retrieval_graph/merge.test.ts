@@ -0,0 +1,100 @@
+import { mergeBatchExtractions } from '../../src/retrieval_graph/merge.js';
+
+describe('mergeBatchExtractions', () => {
+  it('should combine sections reported by different batches', () => {
+    const { merged, conflicts } = mergeBatchExtractions([
+      { filingInformation: { NameOfCompany: 'Acme Pte. Ltd.' } },
+      { incomeStatement: { Revenue: 1000 } },
+      { notes: { revenue: { Revenue: 1000, OtherRevenue: 50 } } },
+    ]);
+
+    expect(merged).toEqual({
+      filingInformation: { NameOfCompany: 'Acme Pte. Ltd.' },
+      incomeStatement: { Revenue: 1000 },
+      notes: { revenue: { Revenue: 1000, OtherRevenue: 50 } },
+    });
+    expect(conflicts).toHaveLength(0);
+  });
+
+  it('should prefer informative values over zeros and nulls', () => {
+    const { merged, conflicts } = mergeBatchExtractions([
+      { incomeStatement: { Revenue: 0, OtherIncome: 0 } },
+      { incomeStatement: { Revenue: 2500 } },
+      { filingInformation: { NameOfParentEntity: null } },
+    ]);
+
+    expect(merged.incomeStatement).toEqual({ Revenue: 2500, OtherIncome: 0 });
+    expect(merged.filingInformation).toEqual({ NameOfParentEntity: null });
+    expect(conflicts).toHaveLength(0);
+  });
+
+  it('should keep the majority value and record the conflict', () => {
+    const { merged, conflicts } = mergeBatchExtractions([
+      { statementOfFinancialPosition: { Assets: 900 } },
+      { statementOfFinancialPosition: { Assets: 1000 } },
+      { statementOfFinancialPosition: { Assets: 1000 } },
+    ]);
+
+    expect(merged.statementOfFinancialPosition).toEqual({ Assets: 1000 });
+    expect(conflicts).toEqual([
+      {
+        path: 'statementOfFinancialPosition.Assets',
+        chosen: 1000,
+        candidates: [
+          { value: 1000, batches: [1, 2] },
+          { value: 900, batches: [0] },
+        ],
+      },
+    ]);
+  });
+
+  it('should break ties in favour of the earliest batch', () => {
+    const { merged, conflicts } = mergeBatchExtractions([
+      { auditReport: { TypeOfAuditOpinionInIndependentAuditorsReport: 'Unqualified' } },
+      { auditReport: { TypeOfAuditOpinionInIndependentAuditorsReport: 'Qualified' } },
+    ]);
+
+    expect(merged.auditReport).toEqual({
+      TypeOfAuditOpinionInIndependentAuditorsReport: 'Unqualified',
+    });
+    expect(conflicts[0].path).toBe(
+      'auditReport.TypeOfAuditOpinionInIndependentAuditorsReport',
+    );
+  });
+
+  it('should union arrays without duplicates', () => {
+    const { merged } = mergeBatchExtractions([
+      { notes: { propertyPlantAndEquipment: { classes: ['Machinery'] } } },
+      {
+        notes: {
+          propertyPlantAndEquipment: { classes: ['Machinery', 'MotorVehicles'] },
+        },
+      },
+    ]);
+
+    expect(merged.notes).toEqual({
+      propertyPlantAndEquipment: { classes: ['Machinery', 'MotorVehicles'] },
+    });
+  });
+
+  it('should return an empty object when there are no extractions', () => {
+    expect(mergeBatchExtractions([])).toEqual({
+      merged: {},
+      conflicts: [],
+      sources: {},
+    });
+  });
+
+  it('should report which batches supplied each kept value', () => {
+    const { sources } = mergeBatchExtractions([
+      { incomeStatement: { Revenue: 1000, OtherIncome: 0 } },
+      { incomeStatement: { Revenue: 1000 } },
+      { incomeStatement: { Revenue: 900, OtherIncome: 20 } },
+    ]);
+
+    expect(sources).toEqual({
+      'incomeStatement.Revenue': [0, 1],
+      'incomeStatement.OtherIncome': [2],
+    });
+  });
+});
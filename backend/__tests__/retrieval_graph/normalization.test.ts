@@ -0,0 +1,100 @@
+import { normalizeAmounts } from '../../src/retrieval_graph/normalization.js';
+
+const extraction = (filingInformation: Record<string, unknown>) => ({
+  filingInformation: { NameOfCompany: 'Acme Pte. Ltd.', ...filingInformation },
+  directorsStatement: { DirectorsOpinionOnFinancialStatements: true },
+  statementOfFinancialPosition: {
+    currentAssets: { CashAndBankBalances: 1234.5, CurrentAssets: 2000 },
+    Assets: 2000,
+  },
+  incomeStatement: { Revenue: 350, ProfitLoss: -12 },
+  priorPeriod: { incomeStatement: { Revenue: 300, ProfitLoss: 5 } },
+});
+
+describe('normalizeAmounts', () => {
+  it('should scale amounts presented in thousands to units', () => {
+    const { data, normalization } = normalizeAmounts(
+      extraction({
+        DescriptionOfPresentationCurrency: 'SGD',
+        LevelOfRoundingUsedInFinancialStatements: 'Thousands',
+      }),
+    );
+
+    expect(data.statementOfFinancialPosition).toEqual({
+      currentAssets: { CashAndBankBalances: 1234500, CurrentAssets: 2000000 },
+      Assets: 2000000,
+    });
+    expect(data.incomeStatement).toEqual({ Revenue: 350000, ProfitLoss: -12000 });
+    expect(data.priorPeriod).toEqual({
+      incomeStatement: { Revenue: 300000, ProfitLoss: 5000 },
+    });
+    expect(normalization).toEqual({
+      presentationCurrency: 'SGD',
+      roundingLevel: 'Thousands',
+      scale: 1000,
+      decimals: -3,
+      currency: 'SGD',
+      warnings: [],
+    });
+  });
+
+  it('should convert to the reporting currency and record the rate used', () => {
+    const rate = { rate: 1.35, date: '2024-12-31', source: 'MAS' };
+
+    const { data, normalization } = normalizeAmounts(
+      extraction({
+        DescriptionOfPresentationCurrency: 'usd',
+        LevelOfRoundingUsedInFinancialStatements: 'Units',
+      }),
+      { exchangeRates: { USD: rate } },
+    );
+
+    expect(data.incomeStatement).toEqual({ Revenue: 472.5, ProfitLoss: -16.2 });
+    expect(data.filingInformation).toMatchObject({ DescriptionOfPresentationCurrency: 'usd' });
+    expect(normalization).toMatchObject({
+      presentationCurrency: 'USD',
+      currency: 'SGD',
+      decimals: 0,
+      exchangeRate: { ...rate, from: 'USD', to: 'SGD' },
+      warnings: [],
+    });
+  });
+
+  it('should leave amounts in the presentation currency when no rate is configured', () => {
+    const { data, normalization } = normalizeAmounts(
+      extraction({
+        DescriptionOfPresentationCurrency: 'EUR',
+        LevelOfRoundingUsedInFinancialStatements: 'Millions',
+      }),
+    );
+
+    expect(data.incomeStatement).toEqual({ Revenue: 350000000, ProfitLoss: -12000000 });
+    expect(normalization.currency).toBe('EUR');
+    expect(normalization.exchangeRate).toBeUndefined();
+    expect(normalization.warnings).toEqual([
+      'No exchange rate configured for EUR, amounts were left in EUR',
+    ]);
+  });
+
+  it('should not touch sections that do not hold monetary amounts', () => {
+    const original = extraction({
+      DescriptionOfPresentationCurrency: 'SGD',
+      LevelOfRoundingUsedInFinancialStatements: 'Thousands',
+      CurrentPeriodStartDate: '2024-01-01',
+    });
+
+    const { data } = normalizeAmounts(original);
+
+    expect(data.filingInformation).toEqual(original.filingInformation);
+    expect(data.directorsStatement).toEqual(original.directorsStatement);
+    expect(original.incomeStatement.Revenue).toBe(350);
+  });
+
+  it('should assume units in the reporting currency when the filing information is missing', () => {
+    const { data, normalization } = normalizeAmounts(extraction({}));
+
+    expect(data.incomeStatement).toEqual({ Revenue: 350, ProfitLoss: -12 });
+    expect(normalization).toMatchObject({ roundingLevel: 'Units', currency: 'SGD' });
+    expect(normalization.warnings).toHaveLength(2);
+  });
+});
@@ -0,0 +1,94 @@
+import { Document } from '@langchain/core/documents';
+import {
+  resolveBatchProvenance,
+  selectProvenance,
+} from '../../src/retrieval_graph/provenance.js';
+
+const batch = [
+  new Document({
+    pageContent: 'Statement of profit or loss\nRevenue   1,250,000',
+    metadata: { uuid: 'chunk-1', loc: { pageNumber: 7 } },
+  }),
+  new Document({
+    pageContent: 'Name of company: Acme Pte. Ltd.',
+    metadata: { uuid: 'chunk-2', loc: { pageNumber: 1 } },
+  }),
+];
+
+describe('resolveBatchProvenance', () => {
+  it('should take the page number from the cited chunk and verify the snippet', () => {
+    const provenance = resolveBatchProvenance(
+      {
+        'incomeStatement.Revenue': { chunkId: 'chunk-1', snippet: 'Revenue 1,250,000' },
+      },
+      batch,
+      3,
+    );
+
+    expect(provenance).toEqual({
+      'incomeStatement.Revenue': {
+        chunkId: 'chunk-1',
+        pageNumber: 7,
+        snippet: 'Revenue 1,250,000',
+        verified: true,
+        batch: 3,
+      },
+    });
+  });
+
+  it('should fall back to the chunk that contains the snippet when the citation is wrong', () => {
+    const provenance = resolveBatchProvenance(
+      {
+        'filingInformation.NameOfCompany': { chunkId: 'chunk-1', snippet: 'Acme Pte. Ltd.' },
+      },
+      batch,
+      0,
+    );
+
+    expect(provenance['filingInformation.NameOfCompany']).toMatchObject({
+      chunkId: 'chunk-2',
+      pageNumber: 1,
+      verified: true,
+    });
+  });
+
+  it('should keep unverifiable citations and drop unknown chunks', () => {
+    const provenance = resolveBatchProvenance(
+      {
+        'incomeStatement.Revenue': { chunkId: 'chunk-1', snippet: 'Turnover 1.25m' },
+        'incomeStatement.OtherIncome': { chunkId: 'missing', snippet: 'Other income 20' },
+      },
+      batch,
+      0,
+    );
+
+    expect(provenance['incomeStatement.Revenue']).toMatchObject({
+      chunkId: 'chunk-1',
+      verified: false,
+    });
+    expect(provenance).not.toHaveProperty('incomeStatement.OtherIncome');
+  });
+});
+
+describe('selectProvenance', () => {
+  it('should prefer verified entries from the batches that supplied the value', () => {
+    const unverified = {
+      chunkId: 'a',
+      snippet: 'x',
+      verified: false,
+      batch: 0,
+    };
+    const verified = { chunkId: 'b', snippet: 'y', verified: true, batch: 2 };
+
+    const provenance = selectProvenance(
+      { 'incomeStatement.Revenue': [0, 2], 'incomeStatement.OtherIncome': [1] },
+      [
+        { 'incomeStatement.Revenue': unverified },
+        {},
+        { 'incomeStatement.Revenue': verified },
+      ],
+    );
+
+    expect(provenance).toEqual({ 'incomeStatement.Revenue': verified });
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  applyCorrections,
+  checkAccountingIdentities,
+  formatViolationsForPrompt,
+} from '../../src/retrieval_graph/reconciliation.js';
+
+const balanced = () => ({
+  statementOfFinancialPosition: {
+    currentAssets: {
+      CashAndBankBalances: 400,
+      TradeAndOtherReceivablesCurrent: 600,
+      CurrentAssets: 1000,
+    },
+    nonCurrentAssets: { PropertyPlantAndEquipment: 500, NoncurrentAssets: 500 },
+    Assets: 1500,
+    currentLiabilities: { TradeAndOtherPayablesCurrent: 300, CurrentLiabilities: 300 },
+    nonCurrentLiabilities: { NoncurrentLiabilities: 200 },
+    Liabilities: 500,
+    equity: {
+      ShareCapital: 100,
+      TreasuryShares: -50,
+      AccumulatedProfitsLosses: 950,
+      Equity: 1000,
+    },
+  },
+  incomeStatement: {
+    ProfitLossBeforeTaxation: 120,
+    TaxExpenseBenefitContinuingOperations: 20,
+    ProfitLoss: 100,
+    ProfitLossAttributableToOwnersOfCompany: 90,
+    ProfitLossAttributableToNoncontrollingInterests: 10,
+  },
+});
+
+describe('checkAccountingIdentities', () => {
+  it('should accept statements that reconcile', () => {
+    expect(checkAccountingIdentities(balanced())).toEqual([]);
+  });
+
+  it('should report the balance sheet identity with the amounts involved', () => {
+    const data = balanced();
+    data.statementOfFinancialPosition.Liabilities = 600;
+
+    const violations = checkAccountingIdentities(data);
+
+    expect(violations.map(({ rule }) => rule)).toEqual([
+      'total-liabilities',
+      'assets-equal-liabilities-plus-equity',
+    ]);
+    expect(violations[1]).toMatchObject({
+      field: 'statementOfFinancialPosition.Assets',
+      reported: 1500,
+      computed: 1600,
+      difference: -100,
+      amounts: {
+        'statementOfFinancialPosition.Liabilities': 600,
+        'statementOfFinancialPosition.equity.Equity': 1000,
+        'statementOfFinancialPosition.Assets': 1500,
+      },
+    });
+  });
+
+  it('should check subtotals against their line items', () => {
+    const data = balanced();
+    data.statementOfFinancialPosition.currentAssets.CashAndBankBalances = 450;
+
+    expect(checkAccountingIdentities(data)).toEqual([
+      expect.objectContaining({
+        rule: 'current-assets-subtotal',
+        reported: 1000,
+        computed: 1050,
+      }),
+    ]);
+  });
+
+  it('should skip subtotals whose line items were not extracted', () => {
+    const data = balanced();
+    data.statementOfFinancialPosition.nonCurrentAssets = {
+      PropertyPlantAndEquipment: 0,
+      NoncurrentAssets: 500,
+    };
+
+    expect(checkAccountingIdentities(data)).toEqual([]);
+  });
+
+  it('should reconcile the profit lines within the rounding tolerance', () => {
+    const data = balanced();
+    data.incomeStatement.ProfitLoss = 101;
+    data.incomeStatement.ProfitLossAttributableToOwnersOfCompany = 91;
+
+    expect(checkAccountingIdentities(data)).toEqual([]);
+    expect(checkAccountingIdentities(data, 0).map(({ rule }) => rule)).toEqual([
+      'profit-after-tax',
+    ]);
+  });
+
+  it('should add a tax benefit reported as a negative expense', () => {
+    const data = balanced();
+    data.incomeStatement.TaxExpenseBenefitContinuingOperations = -20;
+    data.incomeStatement.ProfitLoss = 140;
+    data.incomeStatement.ProfitLossAttributableToOwnersOfCompany = 130;
+
+    expect(checkAccountingIdentities(data)).toEqual([]);
+  });
+
+  it('should deduct treasury shares presented as a positive amount', () => {
+    const data = balanced();
+    data.statementOfFinancialPosition.equity.TreasuryShares = 50;
+
+    expect(checkAccountingIdentities(data)).toEqual([]);
+  });
+
+  it('should check the prior-period comparatives separately', () => {
+    const { statementOfFinancialPosition, incomeStatement } = balanced();
+    const data = {
+      ...balanced(),
+      priorPeriod: {
+        statementOfFinancialPosition: { ...statementOfFinancialPosition, Assets: 1400 },
+        incomeStatement,
+      },
+    };
+
+    expect(checkAccountingIdentities(data)).toEqual([
+      expect.objectContaining({
+        rule: 'total-assets',
+        description: 'CurrentAssets plus NoncurrentAssets equals Assets (prior period)',
+        field: 'priorPeriod.statementOfFinancialPosition.Assets',
+        computed: 1500,
+      }),
+      expect.objectContaining({
+        rule: 'assets-equal-liabilities-plus-equity',
+        field: 'priorPeriod.statementOfFinancialPosition.Assets',
+      }),
+    ]);
+  });
+});
+
+describe('formatViolationsForPrompt', () => {
+  it('should list the reported and computed amounts', () => {
+    const data = balanced();
+    data.incomeStatement.TaxExpenseBenefitContinuingOperations = 30;
+
+    expect(formatViolationsForPrompt(checkAccountingIdentities(data))).toBe(
+      '- ProfitLossBeforeTaxation less tax expense plus discontinued operations equals ProfitLoss: ' +
+        'reported 100, computed 90 (difference 10). Amounts: incomeStatement.ProfitLossBeforeTaxation = 120, ' +
+        'incomeStatement.TaxExpenseBenefitContinuingOperations = 30, ' +
+        'incomeStatement.ProfitLossFromDiscontinuedOperations = 0, incomeStatement.ProfitLoss = 100',
+    );
+  });
+});
+
+describe('applyCorrections', () => {
+  it('should only update fields involved in a violation', () => {
+    const data = balanced();
+    data.statementOfFinancialPosition.Liabilities = 600;
+    const violations = checkAccountingIdentities(data);
+
+    const result = applyCorrections(
+      data,
+      {
+        'statementOfFinancialPosition.Liabilities': 500,
+        'incomeStatement.ProfitLoss': 5,
+      },
+      violations,
+    );
+
+    expect(result.corrected).toEqual(['statementOfFinancialPosition.Liabilities']);
+    expect(checkAccountingIdentities(result.data)).toEqual([]);
+    expect(data.statementOfFinancialPosition.Liabilities).toBe(600);
+  });
+});
@@ -0,0 +1,329 @@
+import { Document } from '@langchain/core/documents';
+import { FakeEmbeddings } from '@langchain/core/utils/testing';
+import { SupabaseVectorStore } from '@langchain/community/vectorstores/supabase';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { HashEmbeddings } from '../../src/shared/fake.js';
+import {
+  AllChunksRetriever,
+  assertCompatibleEmbeddings,
+  hashContent,
+  isInScope,
+} from '../../src/shared/retrieval.js';
+import { LocalVectorStore } from '../../src/shared/vectorstore.js';
+
+const chunk = (id: string, documentId: string, userId: string) => ({
+  id,
+  content: `page of ${documentId}`,
+  embedding: [1, 0],
+  metadata: { documentId, userId, isUploadedPdf: true },
+});
+
+/**
+ * Chunks of the session's upload, another user's upload, the same user's other upload,
+ * a chunk claiming the session's document under another user, and a chunk ingested
+ * before documents were tagged.
+ */
+const ROWS = [
+  chunk('1', 'doc-a', 'alice'),
+  chunk('2', 'doc-a', 'alice'),
+  chunk('3', 'doc-b', 'bob'),
+  chunk('4', 'doc-a', 'bob'),
+  chunk('5', 'doc-c', 'alice'),
+  { id: '6', content: 'legacy chunk', embedding: [1, 0], metadata: { isUploadedPdf: true } },
+];
+
+/**
+ * Build a retriever over a fake Supabase client. With `honourFilter` false the RPC
+ * ignores the filter and returns every row in the table.
+ */
+function makeRetriever(
+  documentIds: string[],
+  userId: string | undefined,
+  honourFilter = true,
+  rows: { id: string; content: string; embedding?: number[]; metadata: Record<string, unknown> }[] = ROWS,
+) {
+  const rpc = jest.fn(async (_name: string, { filter }: { filter: Record<string, unknown> }) => ({
+    data: honourFilter
+      ? rows.filter(({ metadata }) =>
+          Object.entries(filter).every(
+            ([key, value]) => (metadata as Record<string, unknown>)[key] === value,
+          ),
+        )
+      : rows,
+    error: null,
+  }));
+  const vectorStore = new SupabaseVectorStore(new FakeEmbeddings(), {
+    client: { rpc } as unknown as SupabaseClient,
+    tableName: 'document_chunks',
+    queryName: 'match_documents',
+  });
+  return {
+    rpc,
+    retriever: new AllChunksRetriever(vectorStore, { documentIds, userId }, { isUploadedPdf: true }),
+  };
+}
+
+describe('AllChunksRetriever scope', () => {
+  it('should filter the RPC on the session document and user', async () => {
+    const { rpc, retriever } = makeRetriever(['doc-a'], 'alice');
+
+    const docs = await retriever.invoke('extract');
+
+    expect(rpc).toHaveBeenCalledWith('match_documents', {
+      query_embedding: null,
+      match_count: null,
+      filter: { isUploadedPdf: true, documentId: 'doc-a', userId: 'alice' },
+    });
+    expect(docs.map(({ metadata }) => metadata.uuid)).toEqual(['1', '2']);
+  });
+
+  it('should never return chunks of another upload, even if the RPC ignores the filter', async () => {
+    const { retriever } = makeRetriever(['doc-a'], 'alice', false);
+
+    const docs = await retriever.invoke('extract');
+
+    expect(docs).toHaveLength(2);
+    expect(docs.every(({ metadata }) => metadata.documentId === 'doc-a')).toBe(true);
+    expect(docs.map(({ pageContent }) => pageContent)).not.toContain('page of doc-b');
+  });
+
+  it('should drop chunks of another user with a matching document ID', async () => {
+    const { retriever } = makeRetriever(['doc-a'], 'alice', false);
+
+    const docs = await retriever.invoke('extract');
+
+    expect(docs.map(({ metadata }) => metadata.uuid)).toEqual(['1', '2']);
+  });
+
+  it('should refuse to retrieve without a document in scope', async () => {
+    const { rpc, retriever } = makeRetriever([], undefined);
+
+    await expect(retriever.invoke('extract')).rejects.toThrow(
+      'Retrieval requires at least one document ID in scope',
+    );
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should leave out pages stored without an embedding', async () => {
+    const { retriever } = makeRetriever(['doc-a'], 'alice', true, [
+      chunk('1', 'doc-a', 'alice'),
+      { ...chunk('2', 'doc-a', 'alice'), embedding: undefined },
+    ]);
+
+    const docs = await retriever.invoke('extract');
+
+    expect(docs.map(({ metadata }) => metadata.uuid)).toEqual(['1']);
+  });
+});
+
+describe('AllChunksRetriever hybrid retrieval', () => {
+  const page = (id: string, content: string, documentId = 'doc-a') => ({
+    id,
+    content,
+    embedding: [0.1, 0.2, 0.3, 0.4],
+    metadata: { documentId, userId: 'alice', isUploadedPdf: true },
+  });
+  const rows = [
+    page('1', "Independent auditor's report. Opinion."),
+    page('2', 'Statement of financial position. Total assets 5,000.'),
+    page('3', 'Note 6 Trade and other receivables 1,200.'),
+    page('4', 'Trade and other receivables of another company.', 'doc-b'),
+  ];
+
+  it('should give each group the top pages of its queries, in page order', async () => {
+    const { retriever } = makeRetriever(['doc-a'], 'alice', true, rows);
+
+    const selected = await retriever.getHybridDocuments(
+      {
+        auditReport: ["independent auditor's report opinion"],
+        notes: ['trade and other receivables note', 'total assets'],
+      },
+      1,
+    );
+
+    expect(selected.auditReport.map(({ metadata }) => metadata.uuid)).toEqual(['1']);
+    expect(selected.notes.map(({ metadata }) => metadata.uuid)).toEqual(['2', '3']);
+  });
+
+  it('should only rank chunks in scope', async () => {
+    const { retriever } = makeRetriever(['doc-a'], 'alice', false, rows);
+
+    const selected = await retriever.getHybridDocuments(
+      { notes: ['trade and other receivables'] },
+      5,
+    );
+
+    expect(selected.notes.every(({ metadata }) => metadata.documentId === 'doc-a')).toBe(true);
+  });
+});
+
+describe('AllChunksRetriever embeddings', () => {
+  const upload = (documentId: string) =>
+    [1, 2].map(
+      (pageNumber) =>
+        new Document({
+          pageContent: `Page ${pageNumber} of ${documentId}: trade and other receivables`,
+          metadata: { documentId, userId: 'alice', isUploadedPdf: true },
+        }),
+    );
+  const retrieverFor = (
+    store: LocalVectorStore,
+    embeddingModel: string,
+    documentIds: string[],
+  ) =>
+    new AllChunksRetriever(
+      store,
+      { documentIds, userId: 'alice' },
+      { isUploadedPdf: true },
+      40,
+      embeddingModel,
+      new HashEmbeddings(Number(embeddingModel.split('-')[1])),
+    );
+
+  it('should record the embedding model and dimensions on each stored chunk', async () => {
+    const store = new LocalVectorStore(new HashEmbeddings(64));
+    await retrieverFor(store, 'fake/hash-64', ['doc-a']).addDocuments(upload('doc-a'));
+
+    const chunks = store.matchDocuments({ documentId: 'doc-a' });
+    expect(chunks.map(({ metadata }) => metadata)).toEqual([
+      expect.objectContaining({ embeddingModel: 'fake/hash-64', embeddingDimensions: 64 }),
+      expect.objectContaining({ embeddingModel: 'fake/hash-64', embeddingDimensions: 64 }),
+    ]);
+    expect(chunks.every(({ embedding }) => embedding.length === 64)).toBe(true);
+  });
+
+  it('should refuse to rank chunks of another embedding model against the query', async () => {
+    const store = new LocalVectorStore(new HashEmbeddings(64));
+    await retrieverFor(store, 'fake/hash-64', ['doc-a']).addDocuments(upload('doc-a'));
+    await retrieverFor(store, 'fake/hash-32', ['doc-b']).addDocuments(upload('doc-b'));
+
+    const sameModel = retrieverFor(store, 'fake/hash-64', ['doc-a']);
+    const mixed = retrieverFor(store, 'fake/hash-64', ['doc-a', 'doc-b']);
+
+    const selected = await sameModel.getHybridDocuments({ notes: ['trade receivables'] }, 1);
+    expect(selected.notes).toHaveLength(1);
+    await expect(
+      mixed.getHybridDocuments({ notes: ['trade receivables'] }, 1),
+    ).rejects.toThrow(/Embeddings of doc-b \(fake\/hash-32, 32 dimensions\) are incompatible/);
+  });
+
+  it('should embed with its own model when the shared store was opened with another', async () => {
+    const store = new LocalVectorStore(new HashEmbeddings(8));
+    await retrieverFor(store, 'fake/hash-32', ['doc-a']).addDocuments(upload('doc-a'));
+
+    const chunks = store.matchDocuments({ documentId: 'doc-a' });
+    expect(chunks.map(({ metadata }) => metadata.embeddingDimensions)).toEqual([32, 32]);
+    expect(chunks.every(({ embedding }) => embedding.length === 32)).toBe(true);
+    const selected = await retrieverFor(store, 'fake/hash-32', ['doc-a']).getHybridDocuments(
+      { notes: ['trade receivables'] },
+      1,
+    );
+    expect(selected.notes).toHaveLength(1);
+  });
+
+  it('should reject vectors whose length differs from the query embedding', () => {
+    const chunks = [
+      { metadata: { documentId: 'doc-a' }, embedding: [0.6, 0.8] },
+      { metadata: { documentId: 'doc-b' }, embedding: [1, 0, 0] },
+      { metadata: { documentId: 'doc-c' } },
+    ];
+
+    expect(() => assertCompatibleEmbeddings(chunks.slice(0, 1), 'openai/text-embedding-3-small', 2)).not.toThrow();
+    expect(() => assertCompatibleEmbeddings(chunks, 'openai/text-embedding-3-small', 2)).toThrow(
+      /doc-b \(unrecorded model, 3 dimensions\)/,
+    );
+  });
+});
+
+describe('AllChunksRetriever re-ingestion', () => {
+  const page = (documentId: string, pageNumber: number, pageContent: string) =>
+    new Document({
+      pageContent,
+      metadata: { documentId, userId: 'alice', isUploadedPdf: true, loc: { pageNumber } },
+    });
+  const report = [
+    page('doc-a', 1, 'Statement of financial position'),
+    page('doc-a', 2, 'Revenue 8,400'),
+  ];
+
+  function setup() {
+    const embeddings = new HashEmbeddings(16);
+    const embedDocuments = jest.spyOn(embeddings, 'embedDocuments');
+    const store = new LocalVectorStore(embeddings);
+    const retriever = new AllChunksRetriever(
+      store,
+      { documentIds: ['doc-a'] },
+      { isUploadedPdf: true },
+      40,
+      'fake/hash-16',
+    );
+    return { store, retriever, embedDocuments };
+  }
+
+  it('should store and embed each chunk once when the same document is added again', async () => {
+    const { store, retriever, embedDocuments } = setup();
+
+    const first = await retriever.addDocuments(report);
+    const second = await retriever.addDocuments(report);
+
+    expect(second).toEqual(first);
+    expect(store.matchDocuments({ documentId: 'doc-a' })).toHaveLength(2);
+    expect(embedDocuments).toHaveBeenCalledTimes(1);
+    expect(store.matchDocuments({ documentId: 'doc-a' })[1].metadata.contentHash).toBe(
+      hashContent('Revenue 8,400'),
+    );
+  });
+
+  it('should reuse the stored embedding of text repeated elsewhere in the document', async () => {
+    const { store, retriever, embedDocuments } = setup();
+    await retriever.addDocuments(report);
+    embedDocuments.mockClear();
+
+    await retriever.addDocuments([page('doc-a', 3, 'Revenue 8,400'), page('doc-a', 4, 'Notes')]);
+
+    const chunks = store.matchDocuments({ documentId: 'doc-a' });
+    expect(chunks).toHaveLength(4);
+    expect(chunks[2].embedding).toEqual(chunks[1].embedding);
+    expect(embedDocuments).toHaveBeenCalledWith(['Notes']);
+  });
+
+  it('should embed chunks again once their document is deleted', async () => {
+    const { store, retriever, embedDocuments } = setup();
+    await retriever.addDocuments([...report, page('doc-b', 1, 'Revenue 8,400')]);
+
+    expect(await retriever.deleteDocuments(['doc-a'])).toBe(2);
+    expect(store.matchDocuments({})).toHaveLength(1);
+
+    await retriever.addDocuments(report);
+    expect(store.matchDocuments({ documentId: 'doc-a' })).toHaveLength(2);
+    expect(embedDocuments).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the document saved by the ingest route when re-ingesting it', async () => {
+    const { store, retriever } = setup();
+    await retriever.addDocuments(report);
+    // The ingest route saves the document's pages itself, without embedding them
+    const [saved] = await store.addVectors([[]], [page('doc-a', 1, 'Statement of financial position')]);
+
+    expect(await retriever.deleteDocuments(['doc-a'])).toBe(2);
+    expect(store.matchDocuments({ documentId: 'doc-a' }).map(({ id }) => id)).toEqual([saved]);
+
+    await retriever.addDocuments(report);
+    const retrieved = await retriever.invoke('');
+    expect(retrieved.map(({ pageContent }) => pageContent)).toEqual([
+      'Statement of financial position',
+      'Revenue 8,400',
+    ]);
+  });
+});
+
+describe('isInScope', () => {
+  it('should reject chunks without a document ID', () => {
+    expect(isInScope({ isUploadedPdf: true }, { documentIds: ['doc-a'] })).toBe(false);
+    expect(isInScope(null, { documentIds: ['doc-a'] })).toBe(false);
+  });
+
+  it('should accept any owner when no user is in scope', () => {
+    expect(isInScope({ documentId: 'doc-b', userId: 'bob' }, { documentIds: ['doc-b'] })).toBe(true);
+  });
+});
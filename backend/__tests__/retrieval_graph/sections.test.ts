@@ -0,0 +1,122 @@
+import { Document } from '@langchain/core/documents';
+import {
+  isSectionInScope,
+  joinSectionExtractions,
+  SECTION_SPECS,
+  selectSectionDocuments,
+} from '../../src/retrieval_graph/sections.js';
+import { inferFileRole } from '../../src/shared/bundle.js';
+
+const sectionFor = (key: string) => {
+  const section = SECTION_SPECS.find((spec) => spec.key === key);
+  if (!section) {
+    throw new Error(`Missing section ${key}`);
+  }
+  return section;
+};
+
+describe('isSectionInScope', () => {
+  it('should only extract cash flows for Full filings', () => {
+    const cashFlows = sectionFor('statementOfCashFlows');
+
+    expect(isSectionInScope(cashFlows, 'Partial')).toBe(false);
+    expect(isSectionInScope(cashFlows, 'Full')).toBe(true);
+    expect(isSectionInScope(sectionFor('auditReport'), 'Partial')).toBe(true);
+  });
+});
+
+describe('selectSectionDocuments', () => {
+  const pages = [
+    new Document({ pageContent: "INDEPENDENT AUDITOR'S REPORT\nOpinion", metadata: {} }),
+    new Document({ pageContent: 'Statement of financial position\nTotal assets 500', metadata: {} }),
+  ];
+
+  it('should keep only the pages relevant to the section', () => {
+    expect(selectSectionDocuments(pages, sectionFor('auditReport'))).toEqual([
+      pages[0],
+    ]);
+  });
+
+  it('should fall back to every page when none match', () => {
+    expect(selectSectionDocuments(pages, sectionFor('directorsStatement'))).toEqual(
+      pages,
+    );
+  });
+
+  it('should use the pages chosen by hybrid retrieval when there are any', () => {
+    const retrieved = [
+      new Document({ pageContent: 'Note 6 Trade receivables', metadata: { uuid: 'a' } }),
+      new Document({ pageContent: "Independent auditor's report", metadata: { uuid: 'b' } }),
+    ];
+
+    expect(selectSectionDocuments(retrieved, sectionFor('auditReport'), ['a'])).toEqual([
+      retrieved[0],
+    ]);
+    expect(selectSectionDocuments(retrieved, sectionFor('auditReport'), ['missing'])).toEqual([
+      retrieved[1],
+    ]);
+  });
+
+  it('should read a section from the bundle files of its roles', () => {
+    const bundle = [
+      new Document({ pageContent: "Independent auditor's report", metadata: { fileRole: 'auditors-report' } }),
+      new Document({ pageContent: 'Audit fees 12', metadata: { fileRole: 'financial-statements' } }),
+      new Document({ pageContent: "Directors' statement", metadata: { fileRole: 'directors-statement' } }),
+      new Document({ pageContent: 'Total assets 500', metadata: { fileRole: 'financial-statements' } }),
+    ];
+
+    expect(selectSectionDocuments(bundle, sectionFor('auditReport'))).toEqual([bundle[0]]);
+    // No page of the statements matches the section's headings, so all of them are read
+    expect(selectSectionDocuments(bundle, sectionFor('incomeStatement'))).toEqual([
+      bundle[1],
+      bundle[3],
+    ]);
+    // Without files of its roles, a section reads every file
+    expect(selectSectionDocuments(bundle.slice(1), sectionFor('auditReport'))).toEqual(
+      bundle.slice(1),
+    );
+  });
+});
+
+describe('inferFileRole', () => {
+  it('should recognise the role of a bundle file from its name', () => {
+    expect(inferFileRole("Independent Auditor's Report.pdf")).toBe('auditors-report');
+    expect(inferFileRole('directors_statement_2024.pdf')).toBe('directors-statement');
+    expect(inferFileRole('TrialBalance-FY2024.xlsx')).toBe('trial-balance');
+    expect(inferFileRole('Audited financial statements 2024.pdf')).toBe('financial-statements');
+  });
+});
+
+describe('joinSectionExtractions', () => {
+  it('should combine the sections in schema order and skip empty ones', () => {
+    const conflict = {
+      path: 'incomeStatement.Revenue',
+      chosen: 1000,
+      candidates: [],
+    };
+    const provenance = {
+      chunkId: 'chunk-1',
+      snippet: 'Revenue 1,000',
+      verified: true,
+      batch: 0,
+    };
+
+    const joined = joinSectionExtractions({
+      incomeStatement: {
+        data: { Revenue: 1000 },
+        provenance: { 'incomeStatement.Revenue': provenance },
+        conflicts: [conflict],
+      },
+      statementOfCashFlows: { provenance: {}, conflicts: [] },
+      filingInformation: {
+        data: { NameOfCompany: 'Acme Pte. Ltd.' },
+        provenance: {},
+        conflicts: [],
+      },
+    });
+
+    expect(Object.keys(joined.data)).toEqual(['filingInformation', 'incomeStatement']);
+    expect(joined.provenance).toEqual({ 'incomeStatement.Revenue': provenance });
+    expect(joined.conflicts).toEqual([conflict]);
+  });
+});
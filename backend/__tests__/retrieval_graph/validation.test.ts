@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  formatIssuesForPrompt,
+  validateExtraction,
+  XBRL_SCHEMA_DESCRIPTIONS,
+  XBRL_SCHEMAS,
+} from '../../src/retrieval_graph/validation.js';
+
+const sample = JSON.parse(
+  fs.readFileSync(
+    path.join(__dirname, '../../src/retrieval_graph/schema-sample-valid.json'),
+    'utf-8',
+  ),
+);
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe('validateExtraction', () => {
+  it('should accept a valid partial filing and apply defaults', () => {
+    const data = clone(sample);
+    delete data.incomeStatement.OtherIncome;
+
+    const result = validateExtraction(data, 'Partial');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(
+        (result.data.incomeStatement as Record<string, unknown>).OtherIncome,
+      ).toBe(0);
+    }
+  });
+
+  it('should report the regex pattern for an invalid UEN', () => {
+    const data = clone(sample);
+    data.filingInformation.UniqueEntityNumber = '12345';
+
+    const result = validateExtraction(data, 'Partial');
+
+    expect(result.success).toBe(false);
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({
+        path: 'filingInformation.UniqueEntityNumber',
+        code: 'invalid_string',
+        expected: 'a string matching /^\\d{9}[A-Z]$/',
+        received: '12345',
+      }),
+    );
+  });
+
+  it('should list the allowed enum values', () => {
+    const data = clone(sample);
+    data.auditReport.TypeOfAuditOpinionInIndependentAuditorsReport = 'Clean';
+
+    const result = validateExtraction(data, 'Partial');
+
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({
+        path: 'auditReport.TypeOfAuditOpinionInIndependentAuditorsReport',
+        expected:
+          'one of "Unqualified", "Qualified", "Adverse", "Disclaimer"',
+        received: 'Clean',
+      }),
+    );
+  });
+
+  it('should flag keys the strict sections do not allow', () => {
+    const data = clone(sample);
+    data.incomeStatement.GrossProfit = 100;
+
+    const result = validateExtraction(data, 'Partial');
+
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({
+        path: 'incomeStatement',
+        code: 'unrecognized_keys',
+      }),
+    );
+  });
+
+  it('should accept partial prior-period comparatives', () => {
+    const data = clone(sample);
+    data.priorPeriod = { incomeStatement: { Revenue: 900, ProfitLoss: 80 } };
+
+    const result = validateExtraction(data, 'Partial');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.priorPeriod).toEqual({
+        incomeStatement: { Revenue: 900, ProfitLoss: 80 },
+      });
+    }
+  });
+
+  it('should require the full filing sections for Full filings', () => {
+    const result = validateExtraction(clone(sample), 'Full');
+
+    expect(result.success).toBe(false);
+    expect(result.issues.map((issue) => issue.path)).toContain(
+      'statementOfCashFlows',
+    );
+  });
+});
+
+describe('XBRL_SCHEMA_DESCRIPTIONS', () => {
+  it.each(['Partial', 'Full'] as const)(
+    'should describe every section of the %s schema',
+    (filingType) => {
+      expect(Object.keys(XBRL_SCHEMA_DESCRIPTIONS[filingType]).sort()).toEqual(
+        Object.keys(XBRL_SCHEMAS[filingType].shape).sort(),
+      );
+    },
+  );
+});
+
+describe('formatIssuesForPrompt', () => {
+  it('should render one line per issue', () => {
+    const text = formatIssuesForPrompt([
+      {
+        path: 'filingInformation.TaxonomyVersion',
+        code: 'invalid_literal',
+        message: 'Invalid literal value, expected "2022.2"',
+        expected: '"2022.2"',
+        received: '2021',
+      },
+    ]);
+
+    expect(text).toBe(
+      '- filingInformation.TaxonomyVersion: Invalid literal value, expected "2022.2"; expected "2022.2"; received "2021"',
+    );
+  });
+});
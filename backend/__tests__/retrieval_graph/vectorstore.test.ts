@@ -0,0 +1,76 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Document } from '@langchain/core/documents';
+import { FakeEmbeddings } from '@langchain/core/utils/testing';
+import { AllChunksRetriever } from '../../src/shared/retrieval.js';
+import { containsMetadata, LocalVectorStore } from '../../src/shared/vectorstore.js';
+
+const page = (pageNumber: number, documentId: string, userId = 'alice') =>
+  new Document({
+    pageContent: `Page ${pageNumber} of ${documentId}`,
+    metadata: { documentId, userId, isUploadedPdf: true, loc: { pageNumber } },
+  });
+
+describe('containsMetadata', () => {
+  it('should match nested objects and arrays by containment', () => {
+    const metadata = { documentId: 'doc-a', loc: { pageNumber: 2, lines: { from: 1 } }, tags: ['x', 'y'] };
+
+    expect(containsMetadata(metadata, {})).toBe(true);
+    expect(containsMetadata(metadata, { documentId: 'doc-a', loc: { pageNumber: 2 } })).toBe(true);
+    expect(containsMetadata(metadata, { tags: ['y'] })).toBe(true);
+    expect(containsMetadata(metadata, { documentId: 'doc-b' })).toBe(false);
+    expect(containsMetadata(metadata, { loc: { pageNumber: '2' } })).toBe(false);
+    expect(containsMetadata(metadata, { userId: 'alice' })).toBe(false);
+  });
+});
+
+describe('LocalVectorStore', () => {
+  it('should return the chunks matching a filter in insertion order', async () => {
+    const store = new LocalVectorStore(new FakeEmbeddings());
+    await store.addDocuments([page(1, 'doc-a'), page(1, 'doc-b'), page(2, 'doc-a')]);
+
+    expect(
+      store.matchDocuments({ documentId: 'doc-a' }).map(({ content }) => content),
+    ).toEqual(['Page 1 of doc-a', 'Page 2 of doc-a']);
+  });
+
+  it('should persist chunks to its file and share one store per file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-store-'));
+    const filePath = path.join(dir, 'chunks.json');
+    try {
+      const store = await LocalVectorStore.load(new FakeEmbeddings(), filePath);
+      await store.addDocuments([page(1, 'doc-a')]);
+
+      expect(await LocalVectorStore.load(new FakeEmbeddings(), filePath)).toBe(store);
+      const saved = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      expect(saved.chunks).toHaveLength(1);
+      expect(saved.chunks[0].metadata.documentId).toBe('doc-a');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should serve the all-chunks retriever with scope and filter applied', async () => {
+    const store = new LocalVectorStore(new FakeEmbeddings());
+    await store.addDocuments([
+      page(1, 'doc-a'),
+      page(2, 'doc-a'),
+      page(1, 'doc-b', 'bob'),
+      new Document({ pageContent: 'Sample doc', metadata: { documentId: 'doc-a', userId: 'alice' } }),
+    ]);
+    const retriever = new AllChunksRetriever(
+      store,
+      { documentIds: ['doc-a'], userId: 'alice' },
+      { isUploadedPdf: true },
+      1,
+    );
+
+    const docs = await retriever.invoke('extract');
+    const batches = await retriever.getDocumentsInBatches('extract', async (batch) => batch);
+
+    expect(docs.map(({ pageContent }) => pageContent)).toEqual(['Page 1 of doc-a', 'Page 2 of doc-a']);
+    expect(docs.every(({ metadata }) => typeof metadata.uuid === 'string')).toBe(true);
+    expect(batches).toHaveLength(2);
+  });
+});
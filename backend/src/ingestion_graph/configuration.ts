@@ -18,6 +18,12 @@ export const IndexConfigurationAnnotation = Annotation.Root({
   docsFile: Annotation<string>,
   useSampleDocs: Annotation<boolean>,
   queryModel: Annotation<string>,
+
+  /**
+   * Remove the stored chunks of the ingested documents and embed them afresh, instead of
+   * keeping the chunks that are already stored.
+   */
+  forceReingest: Annotation<boolean>,
 });
 
 /**
@@ -39,5 +45,6 @@ export function ensureIndexConfiguration(
     docsFile: configurable.docsFile || "No Document File Specified",
     useSampleDocs: configurable.useSampleDocs || false,
     queryModel: configurable.queryModel || 'openai/gpt-4o',
+    forceReingest: configurable.forceReingest || false,
   };
 }
\ No newline at end of file
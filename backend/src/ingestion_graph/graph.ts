@@ -38,6 +38,15 @@ async function ingestDocs(
   }
 
   const retriever = await makeRetriever(config);
+  if (configuration.forceReingest) {
+    const documentIds = [
+      ...new Set(
+        docs.map(({ metadata }) => metadata.documentId).filter((id) => typeof id === 'string'),
+      ),
+    ];
+    const removed = await retriever.deleteDocuments(documentIds);
+    console.log(`Removed ${removed} stored chunks of ${documentIds.length} documents to re-ingest them.`);
+  }
   await retriever.addDocuments(docs);
 
   return { docs: 'delete' };
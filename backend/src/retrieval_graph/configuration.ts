@@ -4,6 +4,8 @@ import {
   BaseConfigurationAnnotation,
   ensureBaseConfiguration,
 } from '../shared/configuration.js';
+import { XBRLFilingType } from './validation.js';
+import { ExchangeRateTable } from './normalization.js';
 
 /**
  * The configuration for the agent.
@@ -17,6 +19,35 @@ export const AgentConfigurationAnnotation = Annotation.Root({
    * Should be in the form: provider/model-name.
    */
   queryModel: Annotation<string>,
+
+  /**
+   * The maximum number of times the model is asked to repair an extraction
+   * that fails schema validation.
+   */
+  maxRepairRounds: Annotation<number>,
+
+  /**
+   * Whether the run targets a Full or Partial XBRL filing. Selects the schema, the
+   * extraction prompts and the validation used throughout the graph.
+   */
+  xbrlFilingType: Annotation<XBRLFilingType>,
+
+  /**
+   * The maximum number of times the model is asked to re-read the line items behind
+   * accounting identity violations. Set to 0 to only report the violations.
+   */
+  maxReconciliationRounds: Annotation<number>,
+
+  /**
+   * ISO 4217 code of the currency amounts are converted to.
+   */
+  reportingCurrency: Annotation<string>,
+
+  /**
+   * Exchange rates into the reporting currency, keyed by ISO 4217 code. Takes precedence
+   * over the table in the file named by the EXCHANGE_RATES_FILE environment variable.
+   */
+  exchangeRates: Annotation<ExchangeRateTable>,
 });
 
 /**
@@ -35,5 +66,10 @@ export function ensureAgentConfiguration(
   return {
     ...baseConfig,
     queryModel: configurable.queryModel || 'openai/gpt-4o',
+    maxRepairRounds: configurable.maxRepairRounds ?? 2,
+    xbrlFilingType: configurable.xbrlFilingType === 'Full' ? 'Full' : 'Partial',
+    maxReconciliationRounds: configurable.maxReconciliationRounds ?? 1,
+    reportingCurrency: configurable.reportingCurrency || 'SGD',
+    exchangeRates: configurable.exchangeRates || {},
   };
 }
\ No newline at end of file
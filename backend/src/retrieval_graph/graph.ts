@@ -1,8 +1,18 @@
 import { StateGraph, START, END } from '@langchain/langgraph';
 import { AgentStateAnnotation } from './state.js';
 import { makeRetriever } from '../shared/retrieval.js';
-import { formatDocs } from './utils.js';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import {
+  formatDocs,
+  parseJsonResponse,
+  processDocumentsInBatches,
+  splitDocumentsIntoBatches,
+} from './utils.js';
+import {
+  AIMessage,
+  HumanMessage,
+  SystemMessage,
+} from '@langchain/core/messages';
+import { Document } from '@langchain/core/documents';
 import { RunnableConfig } from '@langchain/core/runnables';
 import {
   AgentConfigurationAnnotation,
@@ -10,148 +20,417 @@ import {
 } from './configuration.js';
 import { loadChatModel } from '../shared/utils.js';
 import {
-  RESPONSE_SYSTEM_PROMPT,
-  STRUCTURED_EXTRACTION_PROMPT
+  REPAIR_EXTRACTION_PROMPT,
+  REREAD_LINE_ITEMS_PROMPT,
+  SECTION_EXTRACTION_PROMPT,
 } from './prompts.js';
-import { partialXBRLString } from './schema.js';
+import { ExtractionObject, mergeBatchExtractions } from './merge.js';
+import {
+  applyCorrections,
+  checkAccountingIdentities,
+  formatViolationsForPrompt,
+} from './reconciliation.js';
+import { loadExchangeRateTable, normalizeAmounts } from './normalization.js';
+import {
+  ProvenanceMap,
+  resolveBatchProvenance,
+  selectProvenance,
+} from './provenance.js';
+import {
+  isSectionInScope,
+  joinSectionExtractions,
+  SECTION_SPECS,
+  SectionSpec,
+  selectSectionDocuments,
+} from './sections.js';
+import {
+  formatIssuesForPrompt,
+  validateExtraction,
+  XBRL_SCHEMA_DESCRIPTIONS,
+} from './validation.js';
 
 async function retrieveDocuments(
   state: typeof AgentStateAnnotation.State,
   config: RunnableConfig,
 ): Promise<typeof AgentStateAnnotation.Update> {
-  const retriever = await makeRetriever(config);
-
-  // Modify the retriever to only consider documents with isUploadedPdf flag
-  const customRetriever = {
-    invoke: async (query: string) => {
-      const allDocs = await retriever.invoke(query);
-
-      const pdfDocs = allDocs.filter(doc =>
-        doc.metadata && (doc.metadata.isUploadedPdf === true ||
-          (doc.metadata.source &&
-            typeof doc.metadata.source === 'string' &&
-            doc.metadata.source.toLowerCase().endsWith('.pdf')))
-      );
-
-      // If no PDF documents found, return empty array
-      if (pdfDocs.length === 0) {
-        return [];
-      }
+  const configuration = ensureAgentConfiguration(config);
+  const retriever = await makeRetriever(config, state.pdfId);
 
-      return pdfDocs;
+  // Hybrid mode: each section only gets the top pages of its field-group queries
+  if (configuration.retrievalMode === 'hybrid') {
+    const groups = Object.fromEntries(
+      SECTION_SPECS.filter((section) =>
+        isSectionInScope(section, configuration.xbrlFilingType),
+      ).map(({ key, queries }) => [key, queries]),
+    );
+    const selected = await retriever.getHybridDocuments(groups, configuration.k);
+
+    const documents = new Map<string, Document>();
+    Object.values(selected)
+      .flat()
+      .forEach((doc) => documents.set(doc.metadata.uuid, doc));
+    return {
+      documents: [...documents.values()],
+      sectionDocuments: Object.fromEntries(
+        Object.entries(selected).map(([key, docs]) => [
+          key,
+          docs.map(({ metadata }) => metadata.uuid),
+        ]),
+      ),
+    };
+  }
+
+  // The retriever only returns chunks of uploaded files, whether PDF, Word, Excel or HTML
+  const documents = await retriever.invoke(state.query);
+
+  return { documents };
+}
+
+/**
+ * Build the specialist node for one schema section. The node maps its focused prompt
+ * over batches of the pages relevant to the section, then merges the batches and keeps
+ * the provenance of the values it kept. Sections outside the configured filing type
+ * produce no data.
+ */
+function makeSectionExtractor(section: SectionSpec) {
+  return async function extractSection(
+    state: typeof AgentStateAnnotation.State,
+    config: RunnableConfig,
+  ): Promise<typeof AgentStateAnnotation.Update> {
+    const configuration = ensureAgentConfiguration(config);
+    const { xbrlFilingType } = configuration;
+
+    if (
+      !isSectionInScope(section, xbrlFilingType) ||
+      !state.documents ||
+      state.documents.length === 0
+    ) {
+      return {
+        sectionExtractions: { [section.key]: { provenance: {}, conflicts: [] } },
+      };
     }
+
+    const model = await loadChatModel(configuration.queryModel);
+    const schema = JSON.stringify(
+      XBRL_SCHEMA_DESCRIPTIONS[xbrlFilingType][section.key],
+      null,
+      2,
+    );
+
+    const results = await processDocumentsInBatches<{
+      data: ExtractionObject;
+      provenance: ProvenanceMap;
+    }>(
+      selectSectionDocuments(
+        state.documents,
+        section,
+        state.sectionDocuments?.[section.key],
+      ),
+      async (batch, index, batchCount) => {
+        const prompt = await SECTION_EXTRACTION_PROMPT.invoke({
+          sectionKey: section.key,
+          sectionTitle: section.title,
+          sectionInstructions: section.instructions,
+          filingType: xbrlFilingType,
+          batchNumber: index + 1,
+          batchCount,
+          schema,
+          context: formatDocs(batch),
+        });
+        const response = await model.invoke(prompt);
+        const extraction = parseJsonResponse(response.content);
+
+        if (!extraction) {
+          console.warn(
+            `${section.key} batch ${index + 1}/${batchCount} did not return valid JSON, skipping`,
+          );
+          return { data: {}, provenance: {} };
+        }
+
+        // Tolerate models that skip the envelope and return the extraction directly
+        const hasEnvelope =
+          typeof extraction.data === 'object' && extraction.data !== null;
+        return {
+          data: hasEnvelope ? (extraction.data as ExtractionObject) : extraction,
+          provenance: hasEnvelope
+            ? resolveBatchProvenance(extraction.sources, batch, index)
+            : {},
+        };
+      },
+      configuration.batchSize,
+    );
+
+    const { merged, conflicts, sources } = mergeBatchExtractions(
+      results.map(({ data }) => data),
+    );
+    const provenance = selectProvenance(
+      sources,
+      results.map(({ provenance }) => provenance),
+    );
+
+    // Keep only what belongs to this section, in case the model strayed into others
+    const inSection = (path: string) => path.startsWith(`${section.key}.`);
+    return {
+      sectionExtractions: {
+        [section.key]: {
+          data: merged[section.key] as ExtractionObject | undefined,
+          provenance: Object.fromEntries(
+            Object.entries(provenance).filter(([path]) => inSection(path)),
+          ),
+          conflicts: conflicts.filter(({ path }) => inSection(path)),
+        },
+      },
+    };
   };
+}
 
-  const response = await customRetriever.invoke(state.query);
+const sectionNode = (key: string) => {
+  const section = SECTION_SPECS.find((spec) => spec.key === key);
+  if (!section) {
+    throw new Error(`Unknown schema section: ${key}`);
+  }
+  return makeSectionExtractor(section);
+};
+
+/**
+ * Join step: combine the section specialists' outputs into one extraction. The filing
+ * type is taken from the run configuration rather than from the report.
+ */
+async function reduceExtractions(
+  state: typeof AgentStateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof AgentStateAnnotation.Update> {
+  const { xbrlFilingType } = ensureAgentConfiguration(config);
+  const { data, provenance, conflicts } = joinSectionExtractions(
+    state.sectionExtractions || {},
+  );
+  data.filingInformation = {
+    ...(data.filingInformation as ExtractionObject | undefined),
+    TypeOfXBRLFiling: xbrlFilingType,
+  };
+
+  if (conflicts.length > 0) {
+    console.log(`Resolved ${conflicts.length} conflicting field(s) while merging batches`);
+  }
 
-  return { documents: response };
+  return {
+    extractedData: data,
+    mergeConflicts: conflicts,
+    provenance,
+    repairRounds: 0,
+    reconciliationRounds: 0,
+  };
 }
 
-async function generateResponse(
+/**
+ * Validate the merged extraction against the XBRL schema and record any remaining issues.
+ */
+async function validateExtractedData(
+  state: typeof AgentStateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof AgentStateAnnotation.Update> {
+  const { xbrlFilingType } = ensureAgentConfiguration(config);
+  const result = validateExtraction(state.extractedData, xbrlFilingType);
+
+  if (result.success) {
+    return { extractedData: result.data, validationIssues: [] };
+  }
+
+  console.warn(
+    `${xbrlFilingType} extraction failed schema validation with ${result.issues.length} issue(s) ` +
+    `after ${state.repairRounds ?? 0} repair round(s)`,
+  );
+  return { validationIssues: result.issues };
+}
+
+/**
+ * Feed the exact validation issues back to the model and ask for a corrected object.
+ */
+async function repairExtraction(
   state: typeof AgentStateAnnotation.State,
   config: RunnableConfig,
 ): Promise<typeof AgentStateAnnotation.Update> {
   const configuration = ensureAgentConfiguration(config);
   const model = await loadChatModel(configuration.queryModel);
-  const userHumanMessage = new HumanMessage(state.query);
+  const repairRounds = (state.repairRounds ?? 0) + 1;
 
-  // Check if we have any documents
-  if (!state.documents || state.documents.length === 0) {
-    // No documents were found, inform the user
-    const noDocsResponse = await model.invoke([
-      new SystemMessage(
-        "You must only answer based on the uploaded PDF documents. " +
-        "No relevant PDF documents were found for this query."
-      ),
-      userHumanMessage
-    ]);
+  const prompt = await REPAIR_EXTRACTION_PROMPT.invoke({
+    schema: JSON.stringify(
+      XBRL_SCHEMA_DESCRIPTIONS[configuration.xbrlFilingType],
+      null,
+      2,
+    ),
+    issues: formatIssuesForPrompt(state.validationIssues || []),
+    data: JSON.stringify(state.extractedData || {}, null, 2),
+  });
+  const response = await model.invoke(prompt);
+  const repaired = parseJsonResponse(response.content);
 
-    return { messages: [userHumanMessage, noDocsResponse] };
+  if (!repaired) {
+    console.warn(`Repair round ${repairRounds} did not return valid JSON, keeping previous extraction`);
+    return { repairRounds };
   }
 
-  // Format the documents
-  const context = formatDocs(state.documents);
+  return { extractedData: repaired, repairRounds };
+}
 
-  try {
-    const extractionPrompt = await STRUCTURED_EXTRACTION_PROMPT.invoke({
-      context: context,
-    });
+function routeAfterValidation(
+  state: typeof AgentStateAnnotation.State,
+  config: RunnableConfig,
+): 'repairExtraction' | 'reconcileStatements' {
+  const { maxRepairRounds } = ensureAgentConfiguration(config);
+  const hasIssues = (state.validationIssues || []).length > 0;
+
+  if (
+    hasIssues &&
+    state.documents?.length > 0 &&
+    (state.repairRounds ?? 0) < maxRepairRounds
+  ) {
+    return 'repairExtraction';
+  }
+  return 'reconcileStatements';
+}
 
-    const systemMessage = new SystemMessage(
-      `You are a precision data extraction system. Process the ENTIRE document completely,
-      ensuring NO information is missed. Extract ALL data according to the schema provided.
-      ${partialXBRLString}
+/**
+ * Check the arithmetic of the primary statements and record the identities that do not hold.
+ */
+async function reconcileStatements(
+  state: typeof AgentStateAnnotation.State,
+): Promise<typeof AgentStateAnnotation.Update> {
+  const identityViolations = checkAccountingIdentities(state.extractedData || {});
 
-      Your output MUST be valid JSON. Only use the uploaded PDF documents
-      as your source of information. Never answer based on your general knowledge.`
+  if (identityViolations.length > 0) {
+    console.warn(
+      `Extraction violates ${identityViolations.length} accounting identit${identityViolations.length === 1 ? 'y' : 'ies'}: ` +
+      identityViolations.map(({ rule }) => rule).join(', '),
     );
+  }
 
-    const extractionResponse = await model.invoke([
-      systemMessage,
-      new HumanMessage(extractionPrompt.toString())
-    ]);
+  return { identityViolations };
+}
+
+/**
+ * Send the line items behind the identity violations back to the model together with the
+ * pages they were read from, and apply the corrected amounts it reports.
+ */
+async function rereadLineItems(
+  state: typeof AgentStateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof AgentStateAnnotation.Update> {
+  const configuration = ensureAgentConfiguration(config);
+  const model = await loadChatModel(configuration.queryModel);
+  const reconciliationRounds = (state.reconciliationRounds ?? 0) + 1;
+  const violations = state.identityViolations || [];
 
-    const responsePrompt = await RESPONSE_SYSTEM_PROMPT.invoke({
-      question: state.query,
-      context: extractionResponse.content,
-    });
+  // Prefer the chunks the amounts were cited from, then the pages of the statements involved
+  const paths = violations.flatMap(({ amounts }) => Object.keys(amounts));
+  const chunkIds = new Set(
+    paths.map((path) => state.provenance?.[path]?.chunkId).filter(Boolean),
+  );
+  let pages = state.documents.filter((doc) => chunkIds.has(doc.metadata?.uuid));
+  if (pages.length === 0) {
+    const sectionKeys = new Set(paths.map((path) => path.split('.')[0]));
+    pages = SECTION_SPECS.filter(({ key }) => sectionKeys.has(key)).flatMap(
+      (section) => selectSectionDocuments(state.documents, section),
+    );
+  }
+  const [batch = []] = splitDocumentsIntoBatches(
+    [...new Set(pages)],
+    configuration.batchSize,
+  );
 
-    const finalResponse = await model.invoke([
-      new SystemMessage(responsePrompt.toString() +
-        " Only use the uploaded PDF documents as your source of information. " +
-        "If the information is not in the documents, state that it cannot be found " +
-        "in the uploaded documents."),
-      userHumanMessage
-    ]);
+  const prompt = await REREAD_LINE_ITEMS_PROMPT.invoke({
+    violations: formatViolationsForPrompt(violations),
+    context: formatDocs(batch),
+  });
+  const response = await model.invoke(prompt);
+  const parsed = parseJsonResponse(response.content);
 
-    let isValidJSON = false;
-    try {
-      JSON.parse(finalResponse.content as string);
-      isValidJSON = true;
-    } catch (e) {
-      console.error('Error parsing JSON:', e);
-    }
+  if (!parsed) {
+    console.warn(`Reconciliation round ${reconciliationRounds} did not return valid JSON, keeping previous extraction`);
+    return { reconciliationRounds };
+  }
 
-    if (!isValidJSON) {
-      const fixMessage = new SystemMessage(
-        `The previous response was not valid JSON. Please return ONLY valid JSON
-        following the exact schema provided, with no additional text or explanations.
-        Only use information from the uploaded PDF documents.`
-      );
+  const { data, corrected } = applyCorrections(
+    state.extractedData || {},
+    parsed.corrections,
+    violations,
+  );
+  console.log(
+    `Reconciliation round ${reconciliationRounds} corrected ${corrected.length} line item(s)` +
+    (corrected.length > 0 ? `: ${corrected.join(', ')}` : ''),
+  );
 
-      const fixedResponse = await model.invoke([
-        fixMessage,
-        new HumanMessage(extractionResponse.content as string)
-      ]);
+  return { extractedData: data, reconciliationRounds };
+}
 
-      return { messages: [userHumanMessage, fixedResponse] };
-    }
+function routeAfterReconciliation(
+  state: typeof AgentStateAnnotation.State,
+  config: RunnableConfig,
+): 'rereadLineItems' | 'normalizeAmounts' {
+  const { maxReconciliationRounds } = ensureAgentConfiguration(config);
+  const hasViolations = (state.identityViolations || []).length > 0;
 
-    return { messages: [userHumanMessage, finalResponse] };
-  } catch (error) {
-    let errorMessage = 'Unknown error occurred';
+  if (
+    hasViolations &&
+    state.documents?.length > 0 &&
+    (state.reconciliationRounds ?? 0) < maxReconciliationRounds
+  ) {
+    return 'rereadLineItems';
+  }
+  return 'normalizeAmounts';
+}
 
-    if (error instanceof Error) {
-      errorMessage = error.message;
+/**
+ * Scale the amounts by the declared rounding level and convert them to the reporting
+ * currency. Runs once all model calls are done, since the model reads amounts as presented.
+ */
+async function normalizeExtractedAmounts(
+  state: typeof AgentStateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof AgentStateAnnotation.Update> {
+  const { reportingCurrency, exchangeRates } = ensureAgentConfiguration(config);
+  const { data, normalization } = normalizeAmounts(state.extractedData || {}, {
+    reportingCurrency,
+    exchangeRates: {
+      ...loadExchangeRateTable(process.env.EXCHANGE_RATES_FILE),
+      ...exchangeRates,
+    },
+  });
 
-      if (error.stack) {
-        error.stack = error.stack
-          .replace(/file:\/\/\//g, '')
-          .replace(/\//g, '\\')
-          .split('\n')
-          .slice(0, 5)
-          .join('\n');
-      }
-    }
+  normalization.warnings.forEach((warning) => console.warn(warning));
+
+  return { extractedData: data, normalization };
+}
+
+async function generateResponse(
+  state: typeof AgentStateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof AgentStateAnnotation.Update> {
+  const userHumanMessage = new HumanMessage(state.query);
 
-    const errorResponse = await model.invoke([
-      new SystemMessage(`There was an error processing the data from the uploaded PDF: ${errorMessage}.
-      Please respond with valid JSON indicating the error occurred.`),
+  // Check if we have any documents
+  if (!state.documents || state.documents.length === 0) {
+    const configuration = ensureAgentConfiguration(config);
+    const model = await loadChatModel(configuration.queryModel);
+
+    // No documents were found, inform the user
+    const noDocsResponse = await model.invoke([
+      new SystemMessage(
+        "You must only answer based on the uploaded PDF documents. " +
+        "No relevant PDF documents were found for this query."
+      ),
       userHumanMessage
     ]);
 
-    return { messages: [userHumanMessage, errorResponse] };
+    return { messages: [userHumanMessage, noDocsResponse] };
   }
+
+  const extractionResponse = new AIMessage(
+    JSON.stringify(state.extractedData || {}),
+  );
+
+  return { messages: [userHumanMessage, extractionResponse] };
 }
 
 const builder = new StateGraph(
@@ -159,9 +438,57 @@ const builder = new StateGraph(
   AgentConfigurationAnnotation,
 )
   .addNode('retrieveDocuments', retrieveDocuments)
+  .addNode('extractFilingInformation', sectionNode('filingInformation'))
+  .addNode('extractDirectorsStatement', sectionNode('directorsStatement'))
+  .addNode('extractAuditReport', sectionNode('auditReport'))
+  .addNode('extractFinancialPosition', sectionNode('statementOfFinancialPosition'))
+  .addNode('extractIncomeStatement', sectionNode('incomeStatement'))
+  .addNode('extractNotes', sectionNode('notes'))
+  .addNode('extractCashFlows', sectionNode('statementOfCashFlows'))
+  .addNode('extractComparatives', sectionNode('priorPeriod'))
+  .addNode('reduceExtractions', reduceExtractions)
+  .addNode('validateExtractedData', validateExtractedData)
+  .addNode('repairExtraction', repairExtraction)
+  .addNode('reconcileStatements', reconcileStatements)
+  .addNode('rereadLineItems', rereadLineItems)
+  .addNode('normalizeAmounts', normalizeExtractedAmounts)
   .addNode('generateResponse', generateResponse)
   .addEdge(START, 'retrieveDocuments')
-  .addEdge('retrieveDocuments', 'generateResponse')
+  // Fan out to the section specialists, which run concurrently, and join their outputs
+  .addEdge('retrieveDocuments', 'extractFilingInformation')
+  .addEdge('retrieveDocuments', 'extractDirectorsStatement')
+  .addEdge('retrieveDocuments', 'extractAuditReport')
+  .addEdge('retrieveDocuments', 'extractFinancialPosition')
+  .addEdge('retrieveDocuments', 'extractIncomeStatement')
+  .addEdge('retrieveDocuments', 'extractNotes')
+  .addEdge('retrieveDocuments', 'extractCashFlows')
+  .addEdge('retrieveDocuments', 'extractComparatives')
+  .addEdge(
+    [
+      'extractFilingInformation',
+      'extractDirectorsStatement',
+      'extractAuditReport',
+      'extractFinancialPosition',
+      'extractIncomeStatement',
+      'extractNotes',
+      'extractCashFlows',
+      'extractComparatives',
+    ],
+    'reduceExtractions',
+  )
+  .addEdge('reduceExtractions', 'validateExtractedData')
+  .addConditionalEdges('validateExtractedData', routeAfterValidation, [
+    'repairExtraction',
+    'reconcileStatements',
+  ])
+  .addEdge('repairExtraction', 'validateExtractedData')
+  .addConditionalEdges('reconcileStatements', routeAfterReconciliation, [
+    'rereadLineItems',
+    'normalizeAmounts',
+  ])
+  // Corrected amounts are validated and reconciled again
+  .addEdge('rereadLineItems', 'validateExtractedData')
+  .addEdge('normalizeAmounts', 'generateResponse')
   .addEdge('generateResponse', END);
 
 export const graph = builder.compile().withConfig({
@@ -0,0 +1,174 @@
+/**
+ * Reduce step for the map-reduce extraction.
+ *
+ * Every document batch yields a partial extraction that only contains the
+ * fields the model could find in that batch. The functions in this module
+ * merge those partial objects section by section into a single payload.
+ *
+ * Conflict rules, applied to every leaf field:
+ * 1. Values that carry no information (undefined, null, empty strings and 0)
+ *    are only used when no batch reported anything better.
+ * 2. Among informative values the one reported by the most batches wins.
+ * 3. Ties are broken in favour of the earliest batch, since the primary
+ *    statements appear before the notes in an annual report.
+ * 4. Arrays are unioned, keeping first-seen order.
+ *
+ * Whenever more than one distinct informative value was reported the field is
+ * recorded as a conflict so reviewers can see what was discarded. For every
+ * field the batches that supplied the kept value are returned as well, which
+ * is what provenance is resolved from.
+ */
+
+export type ExtractionObject = { [key: string]: unknown };
+
+export interface ConflictCandidate {
+  value: unknown;
+  /** Zero-based indexes of the batches that reported this value. */
+  batches: number[];
+}
+
+export interface MergeConflict {
+  /** Dot separated path of the field, e.g. `incomeStatement.Revenue`. */
+  path: string;
+  chosen: unknown;
+  candidates: ConflictCandidate[];
+}
+
+export interface MergeResult {
+  merged: ExtractionObject;
+  conflicts: MergeConflict[];
+  /** Batches that supplied the kept value, keyed by field path. */
+  sources: Record<string, number[]>;
+}
+
+interface MergeContext {
+  conflicts: MergeConflict[];
+  sources: Record<string, number[]>;
+}
+
+function isPlainObject(value: unknown): value is ExtractionObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === 0 ||
+    (typeof value === 'string' && value.trim() === '')
+  );
+}
+
+function valueKey(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : JSON.stringify(value);
+}
+
+function mergeLeaf(
+  path: string,
+  reported: { value: unknown; batch: number }[],
+  context: MergeContext,
+): unknown {
+  const informative = reported.filter(({ value }) => !isEmptyValue(value));
+
+  if (informative.length === 0) {
+    // Prefer an explicit 0/empty string over null so numeric fields stay numeric
+    const placeholder =
+      reported.find(({ value }) => value !== null) ?? reported[0];
+    if (placeholder) {
+      context.sources[path] = [placeholder.batch];
+    }
+    return placeholder?.value;
+  }
+
+  const candidates = new Map<string, ConflictCandidate>();
+  for (const { value, batch } of informative) {
+    const key = valueKey(value);
+    const candidate = candidates.get(key);
+    if (candidate) {
+      candidate.batches.push(batch);
+    } else {
+      candidates.set(key, { value, batches: [batch] });
+    }
+  }
+
+  // Map preserves insertion order, so a stable sort keeps the earliest batch first on ties
+  const ranked = [...candidates.values()].sort(
+    (a, b) => b.batches.length - a.batches.length,
+  );
+  const chosen = ranked[0].value;
+  context.sources[path] = ranked[0].batches;
+
+  if (ranked.length > 1) {
+    context.conflicts.push({ path, chosen, candidates: ranked });
+  }
+
+  return chosen;
+}
+
+function mergeArrays(reported: unknown[][]): unknown[] {
+  const seen = new Set<string>();
+  const result: unknown[] = [];
+  for (const items of reported) {
+    for (const item of items) {
+      const key = valueKey(item);
+      if (!seen.has(key)) {
+        seen.add(key);
+        result.push(item);
+      }
+    }
+  }
+  return result;
+}
+
+function mergeAt(
+  path: string,
+  reported: { value: unknown; batch: number }[],
+  context: MergeContext,
+): unknown {
+  const objects = reported.filter(({ value }) => isPlainObject(value));
+  if (objects.length > 0) {
+    const keys = new Set<string>();
+    objects.forEach(({ value }) =>
+      Object.keys(value as ExtractionObject).forEach((key) => keys.add(key)),
+    );
+
+    const merged: ExtractionObject = {};
+    for (const key of keys) {
+      const childPath = path ? `${path}.${key}` : key;
+      const childValues = objects
+        .filter(({ value }) => key in (value as ExtractionObject))
+        .map(({ value, batch }) => ({
+          value: (value as ExtractionObject)[key],
+          batch,
+        }));
+      merged[key] = mergeAt(childPath, childValues, context);
+    }
+    return merged;
+  }
+
+  const arrays = reported.filter(({ value }) => Array.isArray(value));
+  if (arrays.length > 0) {
+    context.sources[path] = arrays.map(({ batch }) => batch);
+    return mergeArrays(arrays.map(({ value }) => value as unknown[]));
+  }
+
+  return mergeLeaf(path, reported, context);
+}
+
+/**
+ * Merge the partial extractions produced for each document batch.
+ *
+ * @param extractions - Partial extraction objects, in batch order.
+ * @returns The merged payload, the fields with conflicting values and the source batches of each field.
+ */
+export function mergeBatchExtractions(
+  extractions: ExtractionObject[],
+): MergeResult {
+  const context: MergeContext = { conflicts: [], sources: {} };
+  const reported = extractions
+    .map((value, batch) => ({ value: value as unknown, batch }))
+    .filter(({ value }) => isPlainObject(value));
+
+  const merged = (mergeAt('', reported, context) as ExtractionObject) ?? {};
+  return { merged, ...context };
+}
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import { ExtractionObject } from './merge.js';
+
+/**
+ * Deterministic normalization of the extracted amounts.
+ *
+ * The model reports amounts exactly as presented. This module scales them to units
+ * according to `LevelOfRoundingUsedInFinancialStatements`, converts them to the
+ * reporting currency with a locally configured rate table, and records how the
+ * statements were originally presented so XBRL `decimals` and units can be generated.
+ * The filing information keeps the declared rounding level and presentation currency,
+ * which are facts of the filing; the XBRL writers take the `decimals` and unit of the
+ * normalized amounts from the record instead.
+ */
+
+export type RoundingLevel = 'Units' | 'Thousands' | 'Millions';
+
+/**
+ * Factor to multiply presented figures by, and the matching XBRL `decimals`.
+ */
+export const ROUNDING_LEVELS: Record<RoundingLevel, { scale: number; decimals: number }> = {
+  Units: { scale: 1, decimals: 0 },
+  Thousands: { scale: 1_000, decimals: -3 },
+  Millions: { scale: 1_000_000, decimals: -6 },
+};
+
+/**
+ * Sections whose numbers are monetary amounts. Other sections hold counts and years.
+ */
+export const MONETARY_SECTIONS = [
+  'statementOfFinancialPosition',
+  'incomeStatement',
+  'notes',
+  'statementOfCashFlows',
+  'priorPeriod',
+];
+
+/**
+ * Units of the reporting currency per unit of a foreign currency.
+ */
+export interface ExchangeRate {
+  rate: number;
+  /** Date the rate applies to, ISO 8601. */
+  date: string;
+  source?: string;
+}
+
+/** Exchange rates keyed by ISO 4217 currency code. */
+export type ExchangeRateTable = Record<string, ExchangeRate>;
+
+/**
+ * How the amounts were presented in the report and what was done to them.
+ */
+export interface NormalizationRecord {
+  presentationCurrency: string;
+  roundingLevel: RoundingLevel;
+  /** Factor the presented figures were multiplied by to get units. */
+  scale: number;
+  /** XBRL `decimals` of the presented figures, e.g. -3 for thousands. */
+  decimals: number;
+  /** Currency of the normalized amounts, used as the XBRL unit. */
+  currency: string;
+  exchangeRate?: ExchangeRate & { from: string; to: string };
+  /** Assumptions made because the filing information was incomplete. */
+  warnings: string[];
+}
+
+export interface NormalizationOptions {
+  reportingCurrency?: string;
+  exchangeRates?: ExchangeRateTable;
+}
+
+/**
+ * Read an exchange rate table from a JSON file. Returns an empty table when no path is
+ * given; a path that cannot be read or parsed is an error.
+ */
+export function loadExchangeRateTable(path?: string): ExchangeRateTable {
+  if (!path) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(path, 'utf-8')) as ExchangeRateTable;
+  } catch (error) {
+    throw new Error(
+      `Failed to load exchange rates from ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function isRoundingLevel(value: unknown): value is RoundingLevel {
+  return typeof value === 'string' && value in ROUNDING_LEVELS;
+}
+
+function scaleAmounts(value: unknown, factor: number): unknown {
+  if (typeof value === 'number') {
+    // Round to cents so conversions do not leave floating point noise behind
+    return Math.round(value * factor * 100) / 100;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scaleAmounts(item, factor));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, scaleAmounts(item, factor)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Scale and convert the monetary sections of an extraction.
+ *
+ * @param data - The extraction, with amounts as presented in the report.
+ * @param options - Target currency (SGD by default) and the rates to convert with.
+ * @returns A copy of `data` with amounts in units of the target currency, and the record
+ * of the original presentation. When no rate is configured for the presentation currency
+ * the amounts are only scaled and `currency` stays the presentation currency.
+ */
+export function normalizeAmounts(
+  data: ExtractionObject,
+  { reportingCurrency = 'SGD', exchangeRates = {} }: NormalizationOptions = {},
+): { data: ExtractionObject; normalization: NormalizationRecord } {
+  const filingInformation = (data.filingInformation ?? {}) as ExtractionObject;
+  const warnings: string[] = [];
+
+  const declaredLevel = filingInformation.LevelOfRoundingUsedInFinancialStatements;
+  const roundingLevel: RoundingLevel = isRoundingLevel(declaredLevel)
+    ? declaredLevel
+    : 'Units';
+  if (!isRoundingLevel(declaredLevel)) {
+    warnings.push(
+      `Unknown rounding level ${JSON.stringify(declaredLevel)}, amounts were treated as units`,
+    );
+  }
+
+  const declaredCurrency = filingInformation.DescriptionOfPresentationCurrency;
+  const hasDeclaredCurrency =
+    typeof declaredCurrency === 'string' && declaredCurrency.trim() !== '';
+  const presentationCurrency = hasDeclaredCurrency
+    ? declaredCurrency.trim().toUpperCase()
+    : reportingCurrency;
+  if (!hasDeclaredCurrency) {
+    warnings.push(
+      `No presentation currency was extracted, amounts were assumed to be in ${reportingCurrency}`,
+    );
+  }
+
+  const { scale, decimals } = ROUNDING_LEVELS[roundingLevel];
+  let factor = scale;
+  let currency = presentationCurrency;
+  let exchangeRate: NormalizationRecord['exchangeRate'];
+
+  if (presentationCurrency !== reportingCurrency) {
+    const rate = exchangeRates[presentationCurrency];
+    if (rate && Number.isFinite(rate.rate) && rate.rate > 0) {
+      factor *= rate.rate;
+      currency = reportingCurrency;
+      exchangeRate = { ...rate, from: presentationCurrency, to: reportingCurrency };
+    } else {
+      warnings.push(
+        `No exchange rate configured for ${presentationCurrency}, amounts were left in ${presentationCurrency}`,
+      );
+    }
+  }
+
+  const normalized: ExtractionObject = { ...data };
+  for (const section of MONETARY_SECTIONS) {
+    if (section in normalized) {
+      normalized[section] = scaleAmounts(normalized[section], factor);
+    }
+  }
+
+  return {
+    data: normalized,
+    normalization: {
+      presentationCurrency,
+      roundingLevel,
+      scale,
+      decimals,
+      currency,
+      ...(exchangeRate && { exchangeRate }),
+      warnings,
+    },
+  };
+}
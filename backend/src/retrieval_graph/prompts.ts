@@ -11,7 +11,7 @@ const ROUTER_SYSTEM_PROMPT = ChatPromptTemplate.fromMessages([
 2. Identify and extract ALL data from ALL PAGES of the document.
 3. For each data point:
    - Extract ALL numerical values as numbers
-   - Convert ALL currencies to SGD
+   - Keep amounts in the presented currency and rounding level; they are normalized after extraction
    - Preserve original text where specified
    - Return raw JSON without formatting
 
@@ -69,7 +69,7 @@ const STRUCTURED_EXTRACTION_PROMPT = ChatPromptTemplate.fromMessages([
 2. Extract all sections completely from EVERY PAGE.
 3. The PDF may have up to 300 pages - you MUST process ALL of them without skipping any.
 4. Data handling:
-   - Convert ALL currency values to SGD
+   - Keep ALL amounts in the presented currency and rounding level; they are normalized after extraction
    - Preserve ALL exact numerical values
    - Maintain ALL original date formats (convert to ISO 8601 if possible)
    - Keep ALL raw text from document sections
@@ -95,6 +95,86 @@ IMPORTANT: If the data extracted from the PDF Document is not complete and misse
   ["human", "Documents:\n{context}"]
 ]);
 
+const SECTION_EXTRACTION_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    `You are a specialist extracting ONLY the {sectionTitle} section ("{sectionKey}") of an
+annual report for a {filingType} XBRL filing. {sectionInstructions}
+
+You are given batch {batchNumber} of {batchCount} of the pages relevant to this section; the
+other batches are processed separately and merged afterwards. Return ONLY valid JSON.
+Follow these rules:
+
+1. Only include fields whose values appear in THIS batch of pages.
+2. OMIT any field that is not present in this batch. Do NOT fill missing values with 0,
+   null or placeholders - omitted fields are taken from other batches.
+3. Data handling:
+   - Preserve ALL exact numerical values as numbers, as presented in the document
+   - Do NOT convert currencies or scale amounts: if the statements are in thousands,
+     report the figures in thousands; they are normalized after extraction
+   - Convert dates to ISO 8601 (YYYY-MM-DD)
+   - Keep raw text for text fields
+4. Use the exact field names from the section schema below, nested under "{sectionKey}".
+   Do not return any other section.
+5. Cite a source for every field you return. The response must have this shape:
+   {{"data": {{"{sectionKey}": <the extracted fields>}}, "sources": {{"{sectionKey}.<field>": {{"chunkId": "<id of the document>", "snippet": "<verbatim text>"}}}}}}
+   - Key "sources" by the dot separated path of the field, e.g. "incomeStatement.Revenue"
+   - "chunkId" is the id attribute of the <document> the value was read from
+   - "snippet" is copied verbatim from that document's content, short but containing the value
+6. No explanations, comments or markdown.
+
+Section schema:
+{schema}
+`
+  ],
+  ["human", "Documents:\n{context}"]
+]);
+
+const REPAIR_EXTRACTION_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    `The extracted JSON below failed schema validation. Return a corrected version of the
+COMPLETE JSON object that fixes every listed issue. Follow these rules:
+
+1. Fix ONLY the fields listed in the issues; keep every other value exactly as it is.
+2. Use the exact enum values, patterns and types required by the schema.
+3. Remove keys that the schema does not allow.
+4. If a required value cannot be determined, use null for strings and 0 for numbers
+   only when the schema permits it; otherwise choose the closest valid value.
+5. Return ONLY valid JSON. No explanations, comments or markdown.
+
+Schema:
+{schema}
+
+Validation issues:
+{issues}
+`
+  ],
+  ["human", "Extracted JSON:\n{data}"]
+]);
+
+const REREAD_LINE_ITEMS_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    `The amounts extracted from the financial statements below do not satisfy the accounting
+identities listed. Re-read the source pages and check ONLY the line items involved. Follow
+these rules:
+
+1. Report an amount only when the document shows a different value from the one extracted.
+2. Use the amounts exactly as presented in the document, as numbers.
+3. Do not invent amounts to make the totals balance; if the document really does not
+   reconcile, return no correction for those line items.
+4. Return ONLY valid JSON of this shape, keyed by the dot separated field paths used below:
+   {{"corrections": {{"<field path>": <amount>}}}}
+5. No explanations, comments or markdown.
+
+Identity violations:
+{violations}
+`
+  ],
+  ["human", "Documents:\n{context}"]
+]);
+
 function validateJsonOutput(output: string) {
   try {
     JSON.parse(output);
@@ -105,4 +185,12 @@ function validateJsonOutput(output: string) {
   }
 }
 
-export { ROUTER_SYSTEM_PROMPT, RESPONSE_SYSTEM_PROMPT, STRUCTURED_EXTRACTION_PROMPT, validateJsonOutput };
+export {
+  ROUTER_SYSTEM_PROMPT,
+  RESPONSE_SYSTEM_PROMPT,
+  STRUCTURED_EXTRACTION_PROMPT,
+  SECTION_EXTRACTION_PROMPT,
+  REPAIR_EXTRACTION_PROMPT,
+  REREAD_LINE_ITEMS_PROMPT,
+  validateJsonOutput,
+};
@@ -0,0 +1,107 @@
+import { Document } from '@langchain/core/documents';
+
+/**
+ * Where a single extracted value came from in the source report.
+ */
+export interface FieldProvenance {
+  /** `uuid` of the chunk the value was read from, as emitted in the `<document id>` attribute. */
+  chunkId: string;
+  /** One-based page number of the chunk, when the loader recorded it. */
+  pageNumber?: number;
+  /** Verbatim text from the chunk that supports the value. */
+  snippet: string;
+  /** Whether the snippet was actually found in the referenced chunk. */
+  verified: boolean;
+  /** Zero-based index of the batch that reported the value. */
+  batch: number;
+}
+
+/** Provenance entries keyed by dot separated field path, e.g. `incomeStatement.Revenue`. */
+export type ProvenanceMap = Record<string, FieldProvenance>;
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function pageNumberOf(doc: Document): number | undefined {
+  const pageNumber = doc.metadata?.loc?.pageNumber ?? doc.metadata?.pageNumber;
+  return typeof pageNumber === 'number' ? pageNumber : undefined;
+}
+
+function containsSnippet(doc: Document, snippet: string): boolean {
+  const needle = normalizeText(snippet);
+  return needle.length > 0 && normalizeText(doc.pageContent || '').includes(needle);
+}
+
+/**
+ * Turn the raw `sources` object returned by the model for one batch into provenance
+ * entries. Page numbers come from the chunk metadata rather than the model, and every
+ * snippet is checked against the chunk text. When the model cites the wrong chunk the
+ * snippet is looked up in the rest of the batch instead.
+ *
+ * @param sources - Model output mapping field paths to `{ chunkId, snippet }`.
+ * @param batch - The documents that were sent to the model for this batch.
+ * @param batchIndex - Zero-based index of the batch.
+ */
+export function resolveBatchProvenance(
+  sources: unknown,
+  batch: Document[],
+  batchIndex: number,
+): ProvenanceMap {
+  if (!sources || typeof sources !== 'object' || Array.isArray(sources)) {
+    return {};
+  }
+
+  const provenance: ProvenanceMap = {};
+  for (const [path, source] of Object.entries(sources)) {
+    if (!source || typeof source !== 'object') {
+      continue;
+    }
+    const { chunkId, snippet } = source as { chunkId?: unknown; snippet?: unknown };
+    const text = typeof snippet === 'string' ? snippet : '';
+    const cited = batch.find((doc) => doc.metadata?.uuid === chunkId);
+
+    const chunk =
+      cited && containsSnippet(cited, text)
+        ? cited
+        : batch.find((doc) => containsSnippet(doc, text)) ?? cited;
+
+    if (!chunk) {
+      continue;
+    }
+
+    provenance[path] = {
+      chunkId: String(chunk.metadata.uuid),
+      pageNumber: pageNumberOf(chunk),
+      snippet: text,
+      verified: containsSnippet(chunk, text),
+      batch: batchIndex,
+    };
+  }
+
+  return provenance;
+}
+
+/**
+ * Pick the provenance of every merged field from the batches that supplied the kept value.
+ * Verified entries are preferred over unverified ones, then the earliest batch wins.
+ *
+ * @param sources - Batches that supplied each kept value, as returned by the merge step.
+ * @param batchProvenance - Provenance resolved for each batch, in batch order.
+ */
+export function selectProvenance(
+  sources: Record<string, number[]>,
+  batchProvenance: ProvenanceMap[],
+): ProvenanceMap {
+  const provenance: ProvenanceMap = {};
+  for (const [path, batches] of Object.entries(sources)) {
+    const entries = batches
+      .map((batch) => batchProvenance[batch]?.[path])
+      .filter((entry): entry is FieldProvenance => entry !== undefined);
+    const entry = entries.find(({ verified }) => verified) ?? entries[0];
+    if (entry) {
+      provenance[path] = entry;
+    }
+  }
+  return provenance;
+}
@@ -0,0 +1,326 @@
+import { ExtractionObject } from './merge.js';
+
+/**
+ * Deterministic checks of the arithmetic the primary statements must satisfy.
+ *
+ * Subtotal checks are skipped when none of the line items were extracted, since the
+ * schema defaults missing line items to 0 and the sum would then always be 0. The
+ * build-up of profit before tax from the income statement lines is not checked because
+ * the schema does not capture every line (cost of sales, for instance).
+ */
+
+/**
+ * An accounting identity that does not hold for the extracted amounts.
+ */
+export interface IdentityViolation {
+  /** Short identifier of the rule, e.g. `assets-equal-liabilities-plus-equity`. */
+  rule: string;
+  description: string;
+  /** The field whose reported amount is compared, e.g. `statementOfFinancialPosition.Assets`. */
+  field: string;
+  /** The amount reported for `field`. */
+  reported: number;
+  /** The amount computed from the other fields. */
+  computed: number;
+  difference: number;
+  /** Every amount involved in the check, keyed by field path. */
+  amounts: Record<string, number>;
+}
+
+interface Term {
+  path: string;
+  sign: 1 | -1;
+  /**
+   * The amount is deducted whatever its sign, for lines that statements present either
+   * as a positive deduction or already negative, such as treasury shares.
+   */
+  deducted?: boolean;
+}
+
+interface Identity {
+  rule: string;
+  description: string;
+  field: string;
+  terms: Term[];
+  /** Skip the check unless at least one term was actually extracted. */
+  requiresTerms?: boolean;
+}
+
+const SFP = 'statementOfFinancialPosition';
+const IS = 'incomeStatement';
+
+const plus = (path: string): Term => ({ path, sign: 1 });
+const minus = (path: string): Term => ({ path, sign: -1 });
+const deduct = (path: string): Term => ({ path, sign: -1, deducted: true });
+
+function lineItems(section: string, items: string[]): Term[] {
+  return items.map((item) => plus(`${section}.${item}`));
+}
+
+const IDENTITIES: Identity[] = [
+  {
+    rule: 'current-assets-subtotal',
+    description: 'Current asset line items sum to CurrentAssets',
+    field: `${SFP}.currentAssets.CurrentAssets`,
+    requiresTerms: true,
+    terms: lineItems(`${SFP}.currentAssets`, [
+      'CashAndBankBalances',
+      'TradeAndOtherReceivablesCurrent',
+      'CurrentFinanceLeaseReceivables',
+      'CurrentDerivativeFinancialAssets',
+      'CurrentFinancialAssetsMeasuredAtFairValueThroughProfitOrLoss',
+      'OtherCurrentFinancialAssets',
+      'DevelopmentProperties',
+      'Inventories',
+      'OtherCurrentNonfinancialAssets',
+      'NoncurrentAssetsOrDisposalGroupsClassifiedAsHeldForSaleOrAsHeldForDistributionToOwners',
+    ]),
+  },
+  {
+    rule: 'noncurrent-assets-subtotal',
+    description: 'Non-current asset line items sum to NoncurrentAssets',
+    field: `${SFP}.nonCurrentAssets.NoncurrentAssets`,
+    requiresTerms: true,
+    terms: lineItems(`${SFP}.nonCurrentAssets`, [
+      'TradeAndOtherReceivablesNoncurrent',
+      'NoncurrentFinanceLeaseReceivables',
+      'NoncurrentDerivativeFinancialAssets',
+      'NoncurrentFinancialAssetsMeasuredAtFairValueThroughProfitOrLoss',
+      'OtherNoncurrentFinancialAssets',
+      'PropertyPlantAndEquipment',
+      'InvestmentProperties',
+      'Goodwill',
+      'IntangibleAssetsOtherThanGoodwill',
+      'InvestmentsInSubsidiariesAssociatesOrJointVentures',
+      'DeferredTaxAssets',
+      'OtherNoncurrentNonfinancialAssets',
+    ]),
+  },
+  {
+    rule: 'total-assets',
+    description: 'CurrentAssets plus NoncurrentAssets equals Assets',
+    field: `${SFP}.Assets`,
+    terms: [
+      plus(`${SFP}.currentAssets.CurrentAssets`),
+      plus(`${SFP}.nonCurrentAssets.NoncurrentAssets`),
+    ],
+  },
+  {
+    rule: 'current-liabilities-subtotal',
+    description: 'Current liability line items sum to CurrentLiabilities',
+    field: `${SFP}.currentLiabilities.CurrentLiabilities`,
+    requiresTerms: true,
+    terms: lineItems(`${SFP}.currentLiabilities`, [
+      'TradeAndOtherPayablesCurrent',
+      'CurrentLoansAndBorrowings',
+      'CurrentFinancialLiabilitiesMeasuredAtFairValueThroughProfitOrLoss',
+      'CurrentFinanceLeaseLiabilities',
+      'OtherCurrentFinancialLiabilities',
+      'CurrentIncomeTaxLiabilities',
+      'CurrentProvisions',
+      'OtherCurrentNonfinancialLiabilities',
+      'LiabilitiesClassifiedAsHeldForSale',
+    ]),
+  },
+  {
+    rule: 'noncurrent-liabilities-subtotal',
+    description: 'Non-current liability line items sum to NoncurrentLiabilities',
+    field: `${SFP}.nonCurrentLiabilities.NoncurrentLiabilities`,
+    requiresTerms: true,
+    terms: lineItems(`${SFP}.nonCurrentLiabilities`, [
+      'TradeAndOtherPayablesNoncurrent',
+      'NoncurrentLoansAndBorrowings',
+      'NoncurrentFinancialLiabilitiesMeasuredAtFairValueThroughProfitOrLoss',
+      'NoncurrentFinanceLeaseLiabilities',
+      'OtherNoncurrentFinancialLiabilities',
+      'DeferredTaxLiabilities',
+      'NoncurrentProvisions',
+      'OtherNoncurrentNonfinancialLiabilities',
+    ]),
+  },
+  {
+    rule: 'total-liabilities',
+    description: 'CurrentLiabilities plus NoncurrentLiabilities equals Liabilities',
+    field: `${SFP}.Liabilities`,
+    terms: [
+      plus(`${SFP}.currentLiabilities.CurrentLiabilities`),
+      plus(`${SFP}.nonCurrentLiabilities.NoncurrentLiabilities`),
+    ],
+  },
+  {
+    rule: 'equity-subtotal',
+    description: 'Equity components sum to Equity, with treasury shares deducted',
+    field: `${SFP}.equity.Equity`,
+    requiresTerms: true,
+    terms: [
+      plus(`${SFP}.equity.ShareCapital`),
+      deduct(`${SFP}.equity.TreasuryShares`),
+      plus(`${SFP}.equity.AccumulatedProfitsLosses`),
+      plus(`${SFP}.equity.ReservesOtherThanAccumulatedProfitsLosses`),
+      plus(`${SFP}.equity.NoncontrollingInterests`),
+    ],
+  },
+  {
+    rule: 'assets-equal-liabilities-plus-equity',
+    description: 'Assets equals Liabilities plus Equity',
+    field: `${SFP}.Assets`,
+    terms: [plus(`${SFP}.Liabilities`), plus(`${SFP}.equity.Equity`)],
+  },
+  {
+    rule: 'profit-after-tax',
+    description:
+      'ProfitLossBeforeTaxation less tax expense plus discontinued operations equals ProfitLoss',
+    field: `${IS}.ProfitLoss`,
+    terms: [
+      plus(`${IS}.ProfitLossBeforeTaxation`),
+      minus(`${IS}.TaxExpenseBenefitContinuingOperations`),
+      plus(`${IS}.ProfitLossFromDiscontinuedOperations`),
+    ],
+  },
+  {
+    rule: 'profit-attribution',
+    description:
+      'Profit attributable to owners plus non-controlling interests equals ProfitLoss',
+    field: `${IS}.ProfitLoss`,
+    requiresTerms: true,
+    terms: [
+      plus(`${IS}.ProfitLossAttributableToOwnersOfCompany`),
+      plus(`${IS}.ProfitLossAttributableToNoncontrollingInterests`),
+    ],
+  },
+];
+
+/**
+ * The identities are checked for the current period and again for the comparatives,
+ * which use the same field names under `priorPeriod`.
+ */
+const PERIODS = [
+  { prefix: '', label: '' },
+  { prefix: 'priorPeriod.', label: ' (prior period)' },
+];
+
+function amountAt(data: ExtractionObject, path: string): number | undefined {
+  const value = path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as ExtractionObject)[key]
+          : undefined,
+      data,
+    );
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Check the extracted statements against the accounting identities.
+ *
+ * @param data - The extraction to check.
+ * @param tolerance - Largest absolute difference accepted as rounding.
+ * @returns One violation per identity and period that does not hold. Identities whose
+ * reported field was not extracted are skipped, so a filing without comparatives only
+ * has its current period checked.
+ */
+export function checkAccountingIdentities(
+  data: ExtractionObject,
+  tolerance = 1,
+): IdentityViolation[] {
+  const violations: IdentityViolation[] = [];
+
+  for (const { prefix, label } of PERIODS) {
+    for (const identity of IDENTITIES) {
+      const field = `${prefix}${identity.field}`;
+      const reported = amountAt(data, field);
+      if (reported === undefined) {
+        continue;
+      }
+
+      const amounts: Record<string, number> = {};
+      let computed = 0;
+      let hasTerms = false;
+      for (const { path, sign, deducted } of identity.terms) {
+        const amount = amountAt(data, `${prefix}${path}`) ?? 0;
+        amounts[`${prefix}${path}`] = amount;
+        computed += deducted ? -Math.abs(amount) : sign * amount;
+        hasTerms = hasTerms || amount !== 0;
+      }
+
+      if (identity.requiresTerms && !hasTerms) {
+        continue;
+      }
+
+      const difference = reported - computed;
+      if (Math.abs(difference) > tolerance) {
+        violations.push({
+          rule: identity.rule,
+          description: `${identity.description}${label}`,
+          field,
+          reported,
+          computed,
+          difference,
+          amounts: { ...amounts, [field]: reported },
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Render violations as a bullet list for the re-read prompt.
+ */
+export function formatViolationsForPrompt(violations: IdentityViolation[]): string {
+  return violations
+    .map((violation) => {
+      const amounts = Object.entries(violation.amounts)
+        .map(([path, amount]) => `${path} = ${amount}`)
+        .join(', ');
+      return (
+        `- ${violation.description}: reported ${violation.reported}, ` +
+        `computed ${violation.computed} (difference ${violation.difference}). Amounts: ${amounts}`
+      );
+    })
+    .join('\n');
+}
+
+/**
+ * Apply the corrected amounts returned by the re-read. Only fields involved in one of
+ * the violations are updated, so the model cannot change unrelated values.
+ *
+ * @returns A copy of `data` with the corrections applied, and the paths that changed.
+ */
+export function applyCorrections(
+  data: ExtractionObject,
+  corrections: unknown,
+  violations: IdentityViolation[],
+): { data: ExtractionObject; corrected: string[] } {
+  const allowed = new Set(violations.flatMap(({ amounts }) => Object.keys(amounts)));
+  const result: ExtractionObject = JSON.parse(JSON.stringify(data));
+  const corrected: string[] = [];
+
+  if (!corrections || typeof corrections !== 'object') {
+    return { data: result, corrected };
+  }
+
+  for (const [path, value] of Object.entries(corrections)) {
+    if (!allowed.has(path) || typeof value !== 'number' || !Number.isFinite(value)) {
+      continue;
+    }
+    const keys = path.split('.');
+    const field = keys.pop() as string;
+    let parent = result;
+    for (const key of keys) {
+      if (parent[key] === null || typeof parent[key] !== 'object') {
+        parent[key] = {};
+      }
+      parent = parent[key] as ExtractionObject;
+    }
+    if (parent[field] !== value) {
+      parent[field] = value;
+      corrected.push(path);
+    }
+  }
+
+  return { data: result, corrected };
+}
@@ -1,5 +1,4 @@
 import { z } from "zod";
-import { zodToJsonSchema } from "zod-to-json-schema";
 
 const CurrencyCode = z.string().length(3).regex(/^[A-Z]{3}$/)
   .describe("ISO 4217 currency code");
@@ -13,7 +12,7 @@ const MonetaryAmount = z.number()
 const OptionalMonetaryAmount = z.number().optional().default(0)
   .describe("Optional monetary amount (defaults to 0)");
 
-export const PartialXBRLSchema = z.object({
+const PartialCurrentPeriodSchema = z.object({
   filingInformation: z.object({
     NameOfCompany: z.string().min(1)
       .describe("Registered name of the entity in BizFile"),
@@ -236,6 +235,8 @@ export const PartialXBRLSchema = z.object({
       .describe("Profit/(loss) from discontinued operations"),
     ProfitLoss: MonetaryAmount
       .describe("Total comprehensive income for the period"),
+    ProfitLossAttributableToOwnersOfCompany: OptionalMonetaryAmount
+      .describe("Portion attributable to parent owners"),
     ProfitLossAttributableToNoncontrollingInterests: OptionalMonetaryAmount
       .describe("Portion attributable to NCI")
   }).strict(),
@@ -270,9 +271,22 @@ export const PartialXBRLSchema = z.object({
   }).describe("Comprehensive financial statement schema compliant with Singapore Simplified XBRL requirements")
 })
 
+/**
+ * Comparative amounts for the prior period, reported with the same field names as the
+ * current-period statements. Optional throughout, since first-year filers have none.
+ */
+export const PartialXBRLSchema = PartialCurrentPeriodSchema.extend({
+  priorPeriod: PartialCurrentPeriodSchema.pick({
+    statementOfFinancialPosition: true,
+    incomeStatement: true,
+    notes: true,
+  }).deepPartial().optional()
+    .describe("Prior-period comparatives of the financial statements"),
+})
+
 // export const partialXBRLString = JSON.stringify(jsonSchema, null, 2);
 
-export const partialXBRLString = {
+const partialCurrentPeriodString = {
   filingInformation: {
     NameOfCompany: {
       type: "string",
@@ -911,13 +925,24 @@ export const partialXBRLString = {
   }
 }
 
-const FullXBRLSchema = PartialXBRLSchema.extend({
-  filingInformation: PartialXBRLSchema.shape.filingInformation.extend({
+export const partialXBRLString = {
+  ...partialCurrentPeriodString,
+  priorPeriod: {
+    optional: true,
+    description: "Comparative amounts for the prior period, with the same field names as the current period",
+    statementOfFinancialPosition: partialCurrentPeriodString.statementOfFinancialPosition,
+    incomeStatement: partialCurrentPeriodString.incomeStatement,
+    notes: partialCurrentPeriodString.notes
+  }
+}
+
+const FullCurrentPeriodSchema = PartialCurrentPeriodSchema.extend({
+  filingInformation: PartialCurrentPeriodSchema.shape.filingInformation.extend({
     WhetherThereAreChangesToComparativeAmountsDueToRestatementsReclassificationOrOtherReasons: z.boolean()
       .describe("Whether comparative amounts changed due to restatements/reclassifications"),
   }),
 
-  auditReport: PartialXBRLSchema.shape.auditReport.extend({
+  auditReport: PartialCurrentPeriodSchema.shape.auditReport.extend({
     ReasonForModifiedAuditOpinionAbstract: z.object({
       impairmentOfAssets: z.boolean().optional(),
       goingConcern: z.boolean().optional(),
@@ -944,7 +969,7 @@ const FullXBRLSchema = PartialXBRLSchema.extend({
     CashFlowsFromUsedInFinancingActivities: MonetaryAmount,
   }),
 
-  notes: PartialXBRLSchema.shape.notes.extend({
+  notes: PartialCurrentPeriodSchema.shape.notes.extend({
     propertyPlantAndEquipment: z.object({
       classes: z.array(z.enum([
         "LandAndBuilding",
@@ -1008,5 +1033,139 @@ const FullXBRLSchema = PartialXBRLSchema.extend({
   })
 });
 
+export const FullXBRLSchema = FullCurrentPeriodSchema.extend({
+  priorPeriod: FullCurrentPeriodSchema.pick({
+    statementOfFinancialPosition: true,
+    incomeStatement: true,
+    notes: true,
+    statementOfCashFlows: true,
+  }).deepPartial().optional()
+    .describe("Prior-period comparatives of the financial statements"),
+});
+
+const monetary = { type: "number" };
+const optionalMonetary = { type: "number", optional: true, default: 0 };
+const optionalBoolean = { type: "boolean", optional: true };
+
+const fullCurrentPeriodString = {
+  ...partialCurrentPeriodString,
+  filingInformation: {
+    ...partialCurrentPeriodString.filingInformation,
+    WhetherThereAreChangesToComparativeAmountsDueToRestatementsReclassificationOrOtherReasons: {
+      type: "boolean",
+      description: "Whether comparative amounts changed due to restatements/reclassifications"
+    }
+  },
+  auditReport: {
+    ...partialCurrentPeriodString.auditReport,
+    ReasonForModifiedAuditOpinionAbstract: {
+      optional: true,
+      impairmentOfAssets: optionalBoolean,
+      goingConcern: optionalBoolean,
+      auditOfOpeningBalance: optionalBoolean,
+      consolidationOrEquityAccounting: optionalBoolean,
+      ongoingInvestigationOrLegalCases: optionalBoolean,
+      others: optionalBoolean
+    },
+    YearOfAppointmentOfSigningAuditor: {
+      type: "integer",
+      minimum: 1900,
+      maximum: 2100,
+      optional: true,
+      description: "Year the signing auditor was first appointed"
+    },
+    NumberOfKeyAuditMattersReported: {
+      type: "integer",
+      minimum: 0,
+      optional: true,
+      description: "Number of key audit matters in the independent auditor's report"
+    },
+    KeyAuditMatters: {
+      optional: true,
+      valuationOfReceivables: optionalBoolean,
+      impairmentOfGoodwill: optionalBoolean,
+      valuationOfInvestmentProperty: optionalBoolean,
+      valuationOfPPE: optionalBoolean,
+      revenueRecognition: optionalBoolean,
+      others: optionalBoolean
+    }
+  },
+  statementOfCashFlows: {
+    CashFlowsFromUsedInOperatingActivities: monetary,
+    CashFlowsFromUsedInInvestingActivities: monetary,
+    CashFlowsFromUsedInFinancingActivities: monetary
+  },
+  notes: {
+    ...partialCurrentPeriodString.notes,
+    propertyPlantAndEquipment: {
+      classes: {
+        type: "array",
+        items: {
+          type: "enum",
+          values: ["LandAndBuilding", "MotorVehicles", "Machinery", "ComputerEquipment", "LeaseholdImprovements", "ConstructionInProgress"]
+        }
+      },
+      movements: {
+        openingBalance: monetary,
+        additions: monetary,
+        disposals: monetary,
+        depreciation: monetary,
+        closingBalance: monetary
+      }
+    },
+    intangibleAssets: {
+      classes: {
+        type: "array",
+        items: {
+          type: "enum",
+          values: ["Software", "Licenses", "Patents", "DevelopmentCosts"]
+        }
+      },
+      movements: {
+        openingBalance: monetary,
+        additions: monetary,
+        amortization: monetary,
+        disposals: monetary,
+        closingBalance: monetary
+      }
+    },
+    rightOfUseAssets: {
+      propertyPlantEquipment: monetary,
+      intangibleAssets: monetary,
+      otherAssets: monetary
+    },
+    loansAndBorrowings: {
+      bankOverdrafts: optionalMonetary,
+      securedBorrowings: optionalMonetary,
+      unsecuredBorrowings: optionalMonetary,
+      otherBorrowings: optionalMonetary
+    },
+    selectedIncomeExpense: {
+      interestIncome: optionalMonetary,
+      dividendIncome: optionalMonetary,
+      governmentGrants: optionalMonetary,
+      rawMaterials: optionalMonetary,
+      foreignExchangeGains: optionalMonetary
+    },
+    relatedPartyTransactions: {
+      hasOverseasInvestments: {
+        type: "boolean",
+        description: "Whether the entity has overseas investments"
+      },
+      revenueFromRelatedParties: optionalMonetary,
+      purchasesFromRelatedParties: optionalMonetary
+    }
+  }
+}
+
+export const fullXBRLString = {
+  ...fullCurrentPeriodString,
+  priorPeriod: {
+    ...partialXBRLString.priorPeriod,
+    notes: fullCurrentPeriodString.notes,
+    statementOfCashFlows: fullCurrentPeriodString.statementOfCashFlows
+  }
+}
+
 export type FullXBRL = z.infer<typeof FullXBRLSchema>;
 export type PartialXBRL = z.infer<typeof PartialXBRLSchema>;
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { Document } from '@langchain/core/documents';
+import { FileRole } from '../shared/bundle.js';
+import { ExtractionObject, MergeConflict } from './merge.js';
+import { ProvenanceMap } from './provenance.js';
+import { XBRL_SCHEMAS, XBRLFilingType } from './validation.js';
+
+/**
+ * A top-level schema section extracted by its own specialist node.
+ */
+export interface SectionSpec {
+  /** Key of the section in the XBRL schema, e.g. `auditReport`. */
+  key: string;
+  title: string;
+  /** What the specialist should pay attention to, inserted into its prompt. */
+  instructions: string;
+  /** Matches the pages that are relevant to the section. */
+  pagePattern: RegExp;
+  /**
+   * Targeted queries, one per group of schema fields, used by hybrid retrieval to find
+   * the section's pages.
+   */
+  queries: string[];
+  /**
+   * Roles of the bundle files the section is read from. Pages of files with other roles
+   * are skipped when the upload has files of these roles.
+   */
+  fileRoles?: FileRole[];
+}
+
+/**
+ * Output of one section specialist. `data` is undefined when the section is not part
+ * of the filing type or nothing was found for it.
+ */
+export interface SectionExtraction {
+  data?: ExtractionObject;
+  provenance: ProvenanceMap;
+  conflicts: MergeConflict[];
+}
+
+export const SECTION_SPECS: SectionSpec[] = [
+  {
+    key: 'filingInformation',
+    title: 'filing information',
+    instructions:
+      'Identify the company, its Unique Entity Number, the reporting periods, currencies, ' +
+      'rounding level, accounting standards and the date the statements were authorised for issue.',
+    pagePattern:
+      /unique entity number|registration (no|number)|incorporated|principal activit|for the (financial )?year ended|functional currency|presentation currency|authori[sz]ed for issue/i,
+    queries: [
+      'company name unique entity number registered office principal activities',
+      'financial year ended reporting period start and end date',
+      'functional currency presentation currency rounding to nearest thousand',
+      'statements authorised for issue accounting standards SFRS',
+    ],
+  },
+  {
+    key: 'directorsStatement',
+    title: "directors' statement",
+    instructions:
+      "Read the directors' statement for their opinion on the true and fair view and on the " +
+      "company's ability to pay its debts as and when they fall due.",
+    pagePattern: /directors['’]? statement|statement by (the )?directors|true and fair|pay its debts/i,
+    queries: [
+      "directors' statement opinion true and fair view",
+      'reasonable grounds company able to pay its debts as and when they fall due',
+    ],
+    fileRoles: ['directors-statement'],
+  },
+  {
+    key: 'auditReport',
+    title: 'audit report',
+    instructions:
+      "Read the independent auditor's report for the type of opinion, the auditing standards, " +
+      'any material uncertainty relating to going concern, key audit matters and whether proper ' +
+      'accounting records have been kept.',
+    pagePattern: /independent auditor|auditor['’]?s['’]? report|basis for (qualified )?opinion|key audit matter/i,
+    queries: [
+      "independent auditor's report opinion",
+      'basis for opinion Singapore Standards on Auditing',
+      'material uncertainty related to going concern',
+      'key audit matters',
+      'accounting records properly kept in accordance with the Companies Act',
+    ],
+    fileRoles: ['auditors-report'],
+  },
+  {
+    key: 'statementOfFinancialPosition',
+    title: 'statement of financial position',
+    instructions:
+      'Extract the current-period column of the statement of financial position, keeping current ' +
+      'and non-current assets and liabilities apart, and the equity components.',
+    pagePattern: /statement of financial position|balance sheet|total assets|total liabilities|total equity/i,
+    queries: [
+      'statement of financial position current assets cash and bank balances trade receivables inventories',
+      'non-current assets property plant and equipment intangible assets',
+      'current liabilities non-current liabilities total liabilities',
+      'equity share capital retained earnings total equity',
+    ],
+    fileRoles: ['financial-statements', 'trial-balance'],
+  },
+  {
+    key: 'incomeStatement',
+    title: 'income statement',
+    instructions:
+      'Extract the current-period column of the statement of profit or loss, with expenses by nature ' +
+      'and the split of profit between owners of the company and non-controlling interests.',
+    pagePattern: /profit or loss|income statement|comprehensive income|profit before (income )?tax/i,
+    queries: [
+      'statement of profit or loss revenue cost of sales gross profit',
+      'expenses employee benefits depreciation finance costs',
+      'profit before tax income tax expense profit for the year',
+      'profit attributable to owners of the company non-controlling interests',
+    ],
+    fileRoles: ['financial-statements', 'trial-balance'],
+  },
+  {
+    key: 'notes',
+    title: 'notes to the financial statements',
+    instructions:
+      'Extract the breakdowns disclosed in the notes, such as trade and other receivables and ' +
+      'payables, disaggregated revenue, and the asset and borrowing notes the schema asks for.',
+    pagePattern:
+      /notes to the financial statements|trade and other (receivables|payables)|revenue from contracts|property,? plant and equipment|intangible assets|borrowings|related part/i,
+    queries: [
+      'trade and other receivables note',
+      'trade and other payables note',
+      'revenue from contracts with customers disaggregation',
+      'property plant and equipment movements note',
+      'intangible assets note',
+      'right-of-use assets lease liabilities note',
+      'loans and borrowings note',
+      'related party transactions note',
+    ],
+    fileRoles: ['financial-statements'],
+  },
+  {
+    key: 'statementOfCashFlows',
+    title: 'statement of cash flows',
+    instructions:
+      'Extract the net cash flows from operating, investing and financing activities for the current period.',
+    pagePattern: /cash flows?|operating activities|investing activities|financing activities/i,
+    queries: [
+      'statement of cash flows net cash from operating activities',
+      'cash flows from investing activities',
+      'cash flows from financing activities',
+    ],
+    fileRoles: ['financial-statements', 'trial-balance'],
+  },
+  {
+    key: 'priorPeriod',
+    title: 'prior-period comparatives',
+    instructions:
+      'Extract ONLY the comparative (prior-period) column of the financial statements and notes, ' +
+      'nested under the statement it belongs to, e.g. priorPeriod.incomeStatement.Revenue. Use the ' +
+      'same field names as the current period and ignore the current-period column.',
+    pagePattern:
+      /statement of financial position|balance sheet|profit or loss|income statement|comprehensive income|cash flows?|notes to the financial statements/i,
+    queries: [
+      'statement of financial position comparative prior year total assets',
+      'statement of profit or loss comparative prior year revenue profit',
+      'statement of cash flows comparative prior year',
+      'notes to the financial statements comparative figures',
+    ],
+    fileRoles: ['financial-statements', 'trial-balance'],
+  },
+];
+
+/**
+ * Whether the schema for the given filing type contains the section.
+ */
+export function isSectionInScope(
+  section: SectionSpec,
+  filingType: XBRLFilingType,
+): boolean {
+  return section.key in XBRL_SCHEMAS[filingType].shape;
+}
+
+/**
+ * Pick the pages relevant to a section. In a bundle with files of the section's roles,
+ * only those files are read. Pages chosen for the section by hybrid retrieval are used
+ * when there are any; otherwise the pages matching the section's headings. Falls back to
+ * every page when none match, since a report that does not use the usual headings should
+ * still be extracted.
+ */
+export function selectSectionDocuments(
+  allDocuments: Document[],
+  section: SectionSpec,
+  retrievedIds: string[] = [],
+): Document[] {
+  const ofRoles = allDocuments.filter((doc) =>
+    section.fileRoles?.includes(doc.metadata?.fileRole),
+  );
+  const documents = ofRoles.length > 0 ? ofRoles : allDocuments;
+
+  if (retrievedIds.length > 0) {
+    const retrieved = documents.filter((doc) => retrievedIds.includes(doc.metadata?.uuid));
+    if (retrieved.length > 0) {
+      return retrieved;
+    }
+  }
+
+  const relevant = documents.filter((doc) =>
+    section.pagePattern.test(doc.pageContent || ''),
+  );
+  return relevant.length > 0 ? relevant : documents;
+}
+
+/**
+ * Reducer for the section outputs. The specialists run in the same step, so each
+ * one contributes its own key and later runs overwrite earlier ones.
+ */
+export function reduceSectionExtractions(
+  existing: Record<string, SectionExtraction>,
+  update: Record<string, SectionExtraction>,
+): Record<string, SectionExtraction> {
+  return { ...existing, ...update };
+}
+
+/**
+ * Join the section outputs into a single extraction, in schema order.
+ */
+export function joinSectionExtractions(
+  sections: Record<string, SectionExtraction>,
+): { data: ExtractionObject; provenance: ProvenanceMap; conflicts: MergeConflict[] } {
+  const data: ExtractionObject = {};
+  const provenance: ProvenanceMap = {};
+  const conflicts: MergeConflict[] = [];
+
+  for (const { key } of SECTION_SPECS) {
+    const section = sections[key];
+    if (!section) {
+      continue;
+    }
+    if (section.data !== undefined) {
+      data[key] = section.data;
+    }
+    Object.assign(provenance, section.provenance);
+    conflicts.push(...section.conflicts);
+  }
+
+  return { data, provenance, conflicts };
+}
@@ -1,6 +1,12 @@
 import { Annotation, MessagesAnnotation } from '@langchain/langgraph';
 import { reduceDocs } from '../shared/state.js';
 import { Document } from '@langchain/core/documents';
+import { ExtractionObject, MergeConflict } from './merge.js';
+import { ValidationIssue } from './validation.js';
+import { IdentityViolation } from './reconciliation.js';
+import { NormalizationRecord } from './normalization.js';
+import { ProvenanceMap } from './provenance.js';
+import { reduceSectionExtractions, SectionExtraction } from './sections.js';
 /**
  * Represents the state of the retrieval graph / agent.
  */
@@ -23,5 +29,62 @@ export const AgentStateAnnotation = Annotation.Root({
     reducer: reduceDocs,
   }),
 
+  /**
+   * Chunk uuids chosen for each schema section by hybrid retrieval. Empty in
+   * 'all-chunks' mode, where sections select their pages by heading.
+   */
+  sectionDocuments: Annotation<Record<string, string[]>>({
+    default: () => ({}),
+    reducer: (_existing, update) => update,
+  }),
+
+  /**
+   * Output of each section specialist node, keyed by schema section.
+   */
+  sectionExtractions: Annotation<Record<string, SectionExtraction>>({
+    default: () => ({}),
+    reducer: reduceSectionExtractions,
+  }),
+
+  /**
+   * The merged extraction produced by the reduce step.
+   */
+  extractedData: Annotation<ExtractionObject>(),
+
+  /**
+   * Fields for which the batches reported different values, with the value that was kept.
+   */
+  mergeConflicts: Annotation<MergeConflict[]>(),
+
+  /**
+   * Chunk, page and supporting snippet for every field of the merged extraction.
+   */
+  provenance: Annotation<ProvenanceMap>(),
+
+  /**
+   * Number of repair rounds the model needed to produce schema-valid output.
+   */
+  repairRounds: Annotation<number>(),
+
+  /**
+   * Schema violations remaining after the last validation. Empty when the extraction is valid.
+   */
+  validationIssues: Annotation<ValidationIssue[]>(),
+
+  /**
+   * Accounting identities the extracted statements do not satisfy, with the amounts involved.
+   */
+  identityViolations: Annotation<IdentityViolation[]>(),
+
+  /**
+   * Number of times the model was asked to re-read the line items behind identity violations.
+   */
+  reconciliationRounds: Annotation<number>(),
+
+  /**
+   * Original currency and rounding level of the statements, and how the amounts were normalized.
+   */
+  normalization: Annotation<NormalizationRecord>(),
+
   // Additional attributes can be added here as needed
 });
@@ -68,7 +68,7 @@ export function splitDocumentsIntoBatches(docs: Document[], maxBatchSize = 40):
 
 export async function processDocumentsInBatches<T>(
   docs: Document[],
-  processBatch: (batch: Document[]) => Promise<T>,
+  processBatch: (batch: Document[], index: number, batchCount: number) => Promise<T>,
   maxBatchSize = 40
 ): Promise<T[]> {
   const batches = splitDocumentsIntoBatches(docs, maxBatchSize);
@@ -77,9 +77,38 @@ export async function processDocumentsInBatches<T>(
   const results: T[] = [];
   for (let i = 0; i < batches.length; i++) {
     console.log(`Processing batch ${i + 1}/${batches.length} (${batches[i].length} documents)`);
-    const result = await processBatch(batches[i]);
+    const result = await processBatch(batches[i], i, batches.length);
     results.push(result);
   }
 
   return results;
-}
\ No newline at end of file
+}
+/**
+ * Parse a model response that should contain a JSON object.
+ * Tolerates markdown code fences and leading/trailing prose around the object.
+ * Returns null when no JSON object can be recovered.
+ */
+export function parseJsonResponse(content: unknown): Record<string, unknown> | null {
+  const text = typeof content === 'string' ? content : JSON.stringify(content);
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+
+  const candidates = [unfenced];
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    candidates.push(unfenced.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import {
+  fullXBRLString,
+  FullXBRLSchema,
+  partialXBRLString,
+  PartialXBRLSchema,
+} from './schema.js';
+
+export const XBRL_SCHEMAS = {
+  Partial: PartialXBRLSchema,
+  Full: FullXBRLSchema,
+} as const;
+
+export type XBRLFilingType = keyof typeof XBRL_SCHEMAS;
+
+/**
+ * Schema descriptions given to the model for each filing type.
+ */
+export const XBRL_SCHEMA_DESCRIPTIONS: Record<
+  XBRLFilingType,
+  Record<string, unknown>
+> = {
+  Partial: partialXBRLString,
+  Full: fullXBRLString,
+};
+
+/**
+ * A single schema violation, described precisely enough for the model to fix it.
+ */
+export interface ValidationIssue {
+  /** Dot separated path of the offending field, e.g. `filingInformation.UniqueEntityNumber`. */
+  path: string;
+  code: string;
+  message: string;
+  /** What the schema expects: a type, the allowed enum values, a pattern, a bound... */
+  expected?: string;
+  /** The value found at `path`, if any. */
+  received?: unknown;
+}
+
+export type ExtractionValidationResult =
+  | { success: true; data: Record<string, unknown>; issues: [] }
+  | { success: false; issues: ValidationIssue[] };
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  for (;;) {
+    if (
+      current instanceof z.ZodOptional ||
+      current instanceof z.ZodNullable
+    ) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return current;
+    }
+  }
+}
+
+function schemaAtPath(
+  schema: z.ZodTypeAny,
+  path: (string | number)[],
+): z.ZodTypeAny | undefined {
+  let current: z.ZodTypeAny | undefined = unwrapSchema(schema);
+  for (const segment of path) {
+    if (current instanceof z.ZodObject) {
+      current = current.shape[segment];
+    } else if (current instanceof z.ZodArray) {
+      current = current.element;
+    } else {
+      return undefined;
+    }
+    if (!current) {
+      return undefined;
+    }
+    current = unwrapSchema(current);
+  }
+  return current;
+}
+
+function valueAtPath(data: unknown, path: (string | number)[]): unknown {
+  return path.reduce<unknown>(
+    (value, segment) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string | number, unknown>)[segment]
+        : undefined,
+    data,
+  );
+}
+
+function describeExpected(
+  issue: z.ZodIssue,
+  fieldSchema: z.ZodTypeAny | undefined,
+): string | undefined {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.expected;
+    case z.ZodIssueCode.invalid_enum_value:
+      return `one of ${issue.options.map((option) => `"${option}"`).join(', ')}`;
+    case z.ZodIssueCode.invalid_literal:
+      return JSON.stringify(issue.expected);
+    case z.ZodIssueCode.invalid_string: {
+      if (issue.validation === 'regex' && fieldSchema instanceof z.ZodString) {
+        const patterns = fieldSchema._def.checks
+          .filter((check) => check.kind === 'regex')
+          .map((check) => (check.kind === 'regex' ? String(check.regex) : ''));
+        if (patterns.length > 0) {
+          return `a string matching ${patterns.join(' and ')}`;
+        }
+      }
+      return typeof issue.validation === 'string'
+        ? `a valid ${issue.validation}`
+        : undefined;
+    }
+    case z.ZodIssueCode.too_small:
+      return `${issue.type} with minimum ${issue.inclusive ? '' : 'exclusive '}${issue.type === 'string' ? 'length ' : ''}${issue.minimum}`;
+    case z.ZodIssueCode.too_big:
+      return `${issue.type} with maximum ${issue.inclusive ? '' : 'exclusive '}${issue.type === 'string' ? 'length ' : ''}${issue.maximum}`;
+    case z.ZodIssueCode.unrecognized_keys:
+      return `no additional keys (remove ${issue.keys.join(', ')})`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert Zod issues into a flat, serialisable list of validation issues.
+ */
+export function formatZodIssues(
+  error: z.ZodError,
+  schema: z.ZodTypeAny,
+  data: unknown,
+): ValidationIssue[] {
+  return error.issues.map((issue) => {
+    // For unrecognized keys the path points at the parent object, which is not useful to echo back
+    const received =
+      issue.code === z.ZodIssueCode.unrecognized_keys
+        ? undefined
+        : valueAtPath(data, issue.path);
+    return {
+      path: issue.path.join('.') || '(root)',
+      code: issue.code,
+      message: issue.message,
+      expected: describeExpected(issue, schemaAtPath(schema, issue.path)),
+      ...(received !== undefined && { received }),
+    };
+  });
+}
+
+/**
+ * Render validation issues as a bullet list for the repair prompt.
+ */
+export function formatIssuesForPrompt(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => {
+      const parts = [`- ${issue.path}: ${issue.message}`];
+      if (issue.expected) {
+        parts.push(`expected ${issue.expected}`);
+      }
+      if (issue.received !== undefined) {
+        parts.push(`received ${JSON.stringify(issue.received)}`);
+      }
+      return parts.join('; ');
+    })
+    .join('\n');
+}
+
+/**
+ * Validate an extraction against the schema for the given filing type.
+ * On success the parsed data is returned with schema defaults applied.
+ */
+export function validateExtraction(
+  data: unknown,
+  filingType: XBRLFilingType = 'Partial',
+): ExtractionValidationResult {
+  const schema = XBRL_SCHEMAS[filingType];
+  const result = schema.safeParse(data);
+
+  if (result.success) {
+    return { success: true, data: result.data, issues: [] };
+  }
+
+  return {
+    success: false,
+    issues: formatZodIssues(result.error, schema, data),
+  };
+}
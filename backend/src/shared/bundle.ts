@@ -0,0 +1,37 @@
+/**
+ * Filing bundles: the separate files a filing arrives as, uploaded together into one
+ * document. Every chunk records the `fileRole` of the file it came from, so extraction
+ * can read each section from the files that hold it.
+ *
+ * This module has no imports, so the ingest route of the frontend can share it.
+ */
+
+export const FILE_ROLES = [
+  'financial-statements',
+  'directors-statement',
+  'auditors-report',
+  'trial-balance',
+  'other',
+] as const;
+
+export type FileRole = (typeof FILE_ROLES)[number];
+
+export function isFileRole(value: unknown): value is FileRole {
+  return typeof value === 'string' && (FILE_ROLES as readonly string[]).includes(value);
+}
+
+/** Filename patterns of the roles that can be recognised from the name alone. */
+const ROLE_PATTERNS: [RegExp, FileRole][] = [
+  [/auditor|audit[\s_-]*report/i, 'auditors-report'],
+  [/director/i, 'directors-statement'],
+  [/trial[\s_-]*balance/i, 'trial-balance'],
+];
+
+/**
+ * The role of a file uploaded without one, guessed from its name. Anything not named
+ * like an auditor's report, directors' statement or trial balance is taken to be the
+ * financial statements.
+ */
+export function inferFileRole(filename: string): FileRole {
+  return ROLE_PATTERNS.find(([pattern]) => pattern.test(filename))?.[1] ?? 'financial-statements';
+}
@@ -15,9 +15,18 @@ import { RunnableConfig } from '@langchain/core/runnables';
 export const BaseConfigurationAnnotation = Annotation.Root({
   /**
    * The vector store provider to use for retrieval.
-   * Options are 'supabase', but you can add more providers here and create their own retriever functions
+   * Options are 'supabase' and 'local', an in-process store for development and CI that
+   * needs no Supabase. You can add more providers here and create their own retriever functions
    */
-  retrieverProvider: Annotation<'supabase'>,
+  retrieverProvider: Annotation<'supabase' | 'local'>,
+
+  /**
+   * The embeddings model, as 'provider/model', used to embed chunks and queries.
+   * 'transformers/<model>' runs a Hugging Face model locally on the CPU, and 'fake/hash'
+   * gives deterministic embeddings that need no network. Chunks record the model they were
+   * embedded with, and retrieval refuses to compare them with queries of another model.
+   */
+  embeddingModel: Annotation<string>,
 
   /**
    * Additional keyword arguments to pass to the search function of the retriever for filtering.
@@ -26,9 +35,34 @@ export const BaseConfigurationAnnotation = Annotation.Root({
   filterKwargs: Annotation<Record<string, any>>,
 
   /**
-   * The number of documents to retrieve.
+   * How documents are retrieved for extraction. 'all-chunks' gives every page of the
+   * document to each section and narrows them by heading; 'hybrid' issues targeted queries
+   * per schema field group, ranked by vector similarity and BM25, and gives each section
+   * only the top pages of its queries.
+   */
+  retrievalMode: Annotation<'all-chunks' | 'hybrid'>,
+
+  /**
+   * The number of documents to retrieve. In hybrid mode, the pages kept per query.
    */
   k: Annotation<number>,
+
+  /**
+   * Approximate token budget for each batch of documents sent to the model.
+   * Large documents are split into batches of this size and extracted separately.
+   */
+  batchSize: Annotation<number>,
+
+  /**
+   * The documents of the current session. Retrieval only reads chunks of these documents.
+   */
+  documentIds: Annotation<string[]>,
+
+  /**
+   * The user who uploaded the session's documents. When set, chunks of other users are
+   * never retrieved, even for a matching document ID.
+   */
+  userId: Annotation<string>,
 });
 
 /**
@@ -45,7 +79,12 @@ export function ensureBaseConfiguration(
   >;
   return {
     retrieverProvider: configurable.retrieverProvider || 'supabase',
+    embeddingModel: configurable.embeddingModel || 'openai/text-embedding-3-small',
     filterKwargs: configurable.filterKwargs || {},
+    retrievalMode: configurable.retrievalMode || 'all-chunks',
     k: configurable.k || 5,
+    batchSize: configurable.batchSize || 12000,
+    documentIds: configurable.documentIds || [],
+    userId: configurable.userId || '',
   };
 }
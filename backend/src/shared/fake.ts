@@ -0,0 +1,134 @@
+/**
+ * The `fake/` provider family: a scripted chat model and deterministic embeddings, so the
+ * graphs and their tests can run with no network or API keys.
+ *
+ * `fake/<script>` chat models answer from a script registered in-process with
+ * `registerFakeScript`, or from the fixture file `<script>.json` in `FAKE_FIXTURES_DIR`
+ * (default `fixtures/fake`). Responses are keyed by the SHA-256 hash of the prompt; a
+ * prompt without a response fails with its hash so the fixture can be filled in.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { ChatResult } from '@langchain/core/outputs';
+import { Embeddings } from '@langchain/core/embeddings';
+import { tokenize } from './hybrid.js';
+
+/**
+ * Responses of a fake chat model. `responses` is tried first, then `respond`, then
+ * `default`.
+ */
+export interface FakeScript {
+  /** Response text keyed by the hash of the prompt it answers. */
+  responses?: Record<string, string>;
+  /** Computes a response from the prompt text; undefined when it has none. */
+  respond?: (prompt: string, hash: string) => string | undefined;
+  /** Response to any prompt the script does not otherwise answer. */
+  default?: string;
+}
+
+const scripts = new Map<string, FakeScript>();
+
+/**
+ * Register a script for `fake/<name>` chat models, replacing any earlier one.
+ */
+export function registerFakeScript(name: string, script: FakeScript): void {
+  scripts.set(name, script);
+}
+
+const messageText = (message: BaseMessage) =>
+  typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+
+/**
+ * The prompt as the fake model sees it: each message as `<type>: <content>`.
+ */
+export function formatPrompt(messages: BaseMessage[]): string {
+  return messages.map((message) => `${message._getType()}: ${messageText(message)}`).join('\n\n');
+}
+
+export function hashPrompt(messages: BaseMessage[]): string {
+  return createHash('sha256').update(formatPrompt(messages)).digest('hex');
+}
+
+/**
+ * The registered script with the given name, or else its fixture file.
+ */
+export function loadFakeScript(name: string): FakeScript {
+  const registered = scripts.get(name);
+  if (registered) {
+    return registered;
+  }
+
+  const fixturesDir = process.env.FAKE_FIXTURES_DIR || path.join('fixtures', 'fake');
+  const file = path.resolve(fixturesDir, `${name}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No fake script registered as "${name}" and no fixture at ${file}`);
+  }
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  return { responses: fixture.responses ?? {}, default: fixture.default };
+}
+
+/**
+ * Chat model answering from a `FakeScript`.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  constructor(
+    private scriptName: string,
+    private script: FakeScript,
+  ) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'fake-scripted';
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const prompt = formatPrompt(messages);
+    const hash = hashPrompt(messages);
+    const text =
+      this.script.responses?.[hash] ?? this.script.respond?.(prompt, hash) ?? this.script.default;
+
+    if (text === undefined) {
+      throw new Error(
+        `Fake script "${this.scriptName}" has no response for prompt ${hash}: ${prompt.slice(0, 200)}`,
+      );
+    }
+    return { generations: [{ text, message: new AIMessage(text) }] };
+  }
+}
+
+/** Dimensions of `fake/hash`, the same as the default `text-embedding-3-small`. */
+const DEFAULT_DIMENSIONS = 1536;
+
+/**
+ * Deterministic embeddings by feature hashing: every token adds ±1 to a dimension
+ * chosen by its hash, and the vector is normalized. Texts sharing words are similar, so
+ * similarity search behaves sensibly in tests.
+ */
+export class HashEmbeddings extends Embeddings {
+  constructor(public dimensions: number = DEFAULT_DIMENSIONS) {
+    super({});
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((text) => this.embed(text));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      const digest = createHash('sha256').update(token).digest();
+      vector[digest.readUInt32BE(0) % this.dimensions] += digest[4] & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
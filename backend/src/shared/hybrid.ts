@@ -0,0 +1,130 @@
+/**
+ * Hybrid ranking of document chunks for field-targeted retrieval.
+ *
+ * Each query is scored against every chunk twice: by cosine similarity between the query
+ * and chunk embeddings, and by BM25 over the chunk text. The two rankings are combined
+ * with reciprocal rank fusion, so neither score needs to be calibrated against the other.
+ */
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Rank offset used by reciprocal rank fusion; 60 is the value from the original paper. */
+const RRF_K = 60;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or',
+  'the', 'to', 'with',
+]);
+
+/**
+ * Lower-case words and numbers of a text, without stop words or possessive endings.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:['’][a-z]+)?/g) ?? [])
+    .map((token) => token.replace(/['’]s?$/, ''))
+    .filter((token) => token !== '' && !STOP_WORDS.has(token));
+}
+
+/**
+ * BM25 score of each tokenized document for the query tokens.
+ */
+export function bm25Scores(query: string[], documents: string[][]): number[] {
+  const averageLength =
+    documents.reduce((sum, tokens) => sum + tokens.length, 0) / (documents.length || 1);
+  const frequencies = documents.map((tokens) => {
+    const counts = new Map<string, number>();
+    tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+    return counts;
+  });
+
+  const terms = [...new Set(query)];
+  const idf = new Map(
+    terms.map((term) => {
+      const containing = frequencies.filter((counts) => counts.has(term)).length;
+      return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+    }),
+  );
+
+  return documents.map((tokens, index) =>
+    terms.reduce((score, term) => {
+      const frequency = frequencies[index].get(term) ?? 0;
+      if (frequency === 0) {
+        return score;
+      }
+      const lengthNorm = 1 - BM25_B + (BM25_B * tokens.length) / (averageLength || 1);
+      return (
+        score +
+        (idf.get(term) ?? 0) * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm))
+      );
+    }, 0),
+  );
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Fuse rankings of document indexes, best first, into one score per document. Documents
+ * missing from a ranking get nothing from it.
+ */
+export function reciprocalRankFusion(rankings: number[][], documentCount: number): number[] {
+  const scores = new Array<number>(documentCount).fill(0);
+  for (const ranking of rankings) {
+    ranking.forEach((index, rank) => {
+      scores[index] += 1 / (RRF_K + rank + 1);
+    });
+  }
+  return scores;
+}
+
+const rankByScore = (scores: (number | undefined)[]) =>
+  scores
+    .map((score, index) => ({ score, index }))
+    .filter((entry): entry is { score: number; index: number } =>
+      entry.score !== undefined && entry.score > 0,
+    )
+    .sort((a, b) => b.score - a.score)
+    .map(({ index }) => index);
+
+export interface HybridCorpus {
+  /** Tokenized text of each chunk. */
+  tokens: string[][];
+  /** Embedding of each chunk, undefined for chunks stored without one. */
+  embeddings: (number[] | undefined)[];
+}
+
+/**
+ * Indexes of the top chunks for one query, best first. Chunks without an embedding are
+ * ranked by BM25 alone, and chunks that match neither way are never returned.
+ */
+export function rankHybrid(
+  query: string,
+  queryEmbedding: number[] | undefined,
+  corpus: HybridCorpus,
+  topK: number,
+): number[] {
+  const keywordRanking = rankByScore(bm25Scores(tokenize(query), corpus.tokens));
+  const vectorRanking = queryEmbedding
+    ? rankByScore(
+        corpus.embeddings.map((embedding) =>
+          embedding ? cosineSimilarity(queryEmbedding, embedding) : undefined,
+        ),
+      )
+    : [];
+
+  const fused = reciprocalRankFusion([keywordRanking, vectorRanking], corpus.tokens.length);
+  return rankByScore(fused).slice(0, topK);
+}
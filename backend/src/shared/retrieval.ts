@@ -1,6 +1,7 @@
+import { createHash } from 'crypto';
 import { VectorStoreRetriever } from '@langchain/core/vectorstores';
-import type { Document } from '@langchain/core/documents';
-import { OpenAIEmbeddings } from '@langchain/openai';
+import { Document } from '@langchain/core/documents';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
 import { SupabaseVectorStore } from '@langchain/community/vectorstores/supabase';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { RunnableConfig } from '@langchain/core/runnables';
@@ -9,6 +10,10 @@ import {
   ensureBaseConfiguration,
 } from './configuration.js';
 import { formatDocs, processDocumentsInBatches } from '../retrieval_graph/utils.js';
+import { HybridCorpus, rankHybrid, tokenize } from './hybrid.js';
+import { isUploadedDocument } from './state.js';
+import { LocalVectorStore } from './vectorstore.js';
+import { loadEmbeddings } from './utils.js';
 
 interface SupabaseConfig {
   SUPABASE_URL: string;
@@ -25,21 +30,151 @@ function getSupabaseConfig(): SupabaseConfig {
   return { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY };
 }
 
+/**
+ * Vector stores the retriever can read every chunk of a document from.
+ */
+export type ChunkVectorStore = SupabaseVectorStore | LocalVectorStore;
+
+/**
+ * Row returned by the `match_documents` RPC.
+ */
+interface MatchDocumentsRow {
+  id: string | number;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  embedding?: unknown;
+  similarity?: number;
+}
+
+/**
+ * The documents, and the user who uploaded them, that a run may read chunks from.
+ */
+export interface RetrievalScope {
+  documentIds: string[];
+  userId?: string;
+}
+
+/**
+ * Whether a chunk belongs to the scope. Rows are checked again after the RPC so a
+ * filter the database ignores can never let another upload's chunks through.
+ */
+export function isInScope(
+  metadata: Record<string, unknown> | null | undefined,
+  scope: RetrievalScope,
+): boolean {
+  if (!metadata || typeof metadata.documentId !== 'string') {
+    return false;
+  }
+  if (!scope.documentIds.includes(metadata.documentId)) {
+    return false;
+  }
+  return !scope.userId || metadata.userId === scope.userId;
+}
+
+/**
+ * Map a row to a document, dropping the embedding. The chunk keeps the uuid it was
+ * ingested with (falling back to the row id) so extracted values can cite it.
+ */
+const toDocument = ({ id, content, metadata }: MatchDocumentsRow) =>
+  new Document({
+    pageContent: content,
+    metadata: { ...metadata, uuid: metadata?.uuid ?? String(id) },
+  });
+
+/**
+ * The RPC returns the pgvector embedding cast to JSONB, which is an array of numbers;
+ * older functions return its text form instead. Chunks stored without one give undefined.
+ */
+function parseEmbedding(embedding: unknown): number[] | undefined {
+  const parsed = typeof embedding === 'string' ? JSON.parse(embedding) : embedding;
+  return Array.isArray(parsed) && parsed.length > 0 ? (parsed as number[]) : undefined;
+}
+
+/**
+ * Refuse to rank chunks against query embeddings from a different model. Chunks record
+ * the model and dimensions they were embedded with (see `AllChunksRetriever.addDocuments`);
+ * a chunk of another model, or whose vector has another length, is not comparable to the
+ * query, so the whole retrieval fails rather than mix similarity scores.
+ *
+ * @param chunks - Metadata and parsed embedding of each chunk; chunks without one are skipped.
+ * @param embeddingModel - The configured model the query was embedded with.
+ * @param dimensions - Length of the query embedding.
+ */
+export function assertCompatibleEmbeddings(
+  chunks: { metadata: Record<string, unknown> | null; embedding?: number[] }[],
+  embeddingModel: string | undefined,
+  dimensions: number,
+): void {
+  const mismatches = new Set<string>();
+  for (const { metadata, embedding } of chunks) {
+    if (!embedding) {
+      continue;
+    }
+    const recordedModel = metadata?.embeddingModel;
+    const modelDiffers =
+      embeddingModel !== undefined && typeof recordedModel === 'string' && recordedModel !== embeddingModel;
+    if (modelDiffers || embedding.length !== dimensions) {
+      mismatches.add(
+        `${String(metadata?.documentId ?? 'unknown document')} (${String(recordedModel ?? 'unrecorded model')}, ${embedding.length} dimensions)`,
+      );
+    }
+  }
+
+  if (mismatches.size > 0) {
+    throw new Error(
+      `Embeddings of ${[...mismatches].join(', ')} are incompatible with the query embedding ` +
+        `(${embeddingModel ?? 'unrecorded model'}, ${dimensions} dimensions). ` +
+        'Re-ingest the documents with the configured embeddingModel.',
+    );
+  }
+}
+
+/**
+ * SHA-256 hash of a chunk's text, stamped on it as `contentHash` when it is stored.
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Identity of a stored chunk: the same text at the same place of the same file of the
+ * same upload.
+ */
+const chunkKey = (metadata: Record<string, unknown> | null | undefined) =>
+  JSON.stringify([
+    metadata?.documentId ?? null,
+    metadata?.userId ?? null,
+    metadata?.filename ?? null,
+    metadata?.contentHash ?? null,
+    metadata?.loc ?? null,
+  ]);
+
 async function createSupabaseClient(): Promise<SupabaseClient> {
   const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = getSupabaseConfig();
   return createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 }
 
 /**
- * Custom retriever that returns all chunks (pages) from the vector store.
+ * Custom retriever that returns all chunks (pages) of uploaded files from the vector store.
  * This retriever bypasses similarity filtering by calling the RPC function with a null query_embedding.
+ * Retrieval is limited to the documents in its scope; with an empty scope it refuses to run
+ * rather than return every upload in the table.
+ * In hybrid mode `getHybridDocuments` ranks the same chunks per field group instead.
+ * Chunks added through the retriever record the embedding model and dimensions they were
+ * embedded with, and hybrid retrieval refuses to compare embeddings of different models.
+ * Chunks and queries are embedded with the retriever's own `embeddings`, which must be
+ * those of `embeddingModel`; the vector store's may belong to another model, since the
+ * local store is shared by every graph in the process.
  * Enhanced with batch processing capability and removes embeddings from output.
  */
-export class AllChunksRetriever extends VectorStoreRetriever<SupabaseVectorStore> {
+export class AllChunksRetriever extends VectorStoreRetriever<ChunkVectorStore> {
   constructor(
-    vectorStore: SupabaseVectorStore,
-    filter?: SupabaseVectorStore['FilterType'],
-    private batchSize: number = 40
+    vectorStore: ChunkVectorStore,
+    private scope: RetrievalScope,
+    filter?: ChunkVectorStore['FilterType'],
+    private batchSize: number = 40,
+    private embeddingModel?: string,
+    private embeddings: EmbeddingsInterface = vectorStore.embeddings,
   ) {
     super({
       vectorStore,
@@ -49,37 +184,230 @@ export class AllChunksRetriever extends VectorStoreRetriever<SupabaseVectorStore
     });
   }
 
+  /**
+   * Embed and store documents, stamping each chunk with `embeddingModel` and
+   * `embeddingDimensions` so later queries can tell whether its vector is comparable, and
+   * with the `contentHash` of its text.
+   *
+   * Adding is idempotent: a chunk already stored for its document, with the same text and
+   * location and an embedding of the same model, is not stored again, and a chunk whose
+   * text is already stored elsewhere in the document reuses that embedding.
+   *
+   * @returns The id of each document's chunk, whether newly stored or already present.
+   */
+  async addDocuments(
+    documents: Document[],
+    options?: { ids?: string[] },
+  ): Promise<string[]> {
+    const hashed: Document[] = documents.map(
+      (doc) =>
+        new Document({
+          ...doc,
+          metadata: {
+            ...doc.metadata,
+            ...(this.embeddingModel && { embeddingModel: this.embeddingModel }),
+            contentHash: hashContent(doc.pageContent),
+          },
+        }),
+    );
+
+    // Chunks of the same documents stored earlier with this model, and their embeddings
+    const stored = new Map<string, string>();
+    const storedVectors = new Map<string, number[]>();
+    const documentIds = new Set(
+      hashed.map(({ metadata }) => metadata.documentId).filter((id) => typeof id === 'string'),
+    );
+    for (const documentId of documentIds) {
+      for (const row of await this.matchDocuments({ documentId })) {
+        const embedding = parseEmbedding(row.embedding);
+        if (!embedding || row.metadata?.embeddingModel !== this.embeddingModel) {
+          continue;
+        }
+        stored.set(chunkKey(row.metadata), String(row.id));
+        storedVectors.set(String(row.metadata?.contentHash), embedding);
+      }
+    }
+
+    const pending = hashed.filter(({ metadata }) => !stored.has(chunkKey(metadata)));
+    const toEmbed = pending.filter(({ metadata }) => !storedVectors.has(metadata.contentHash));
+    const embedded = toEmbed.length
+      ? await this.embeddings.embedDocuments(toEmbed.map(({ pageContent }) => pageContent))
+      : [];
+    const vectors = pending.map(
+      (doc) => storedVectors.get(doc.metadata.contentHash) ?? embedded[toEmbed.indexOf(doc)],
+    );
+    const dimensions = new Set(vectors.map((vector) => vector.length));
+    if (dimensions.size > 1) {
+      throw new Error(`Embeddings model returned vectors of mixed dimensions: ${[...dimensions].join(', ')}`);
+    }
+
+    pending.forEach((doc, index) => {
+      doc.metadata.embeddingDimensions = vectors[index].length;
+    });
+    const givenIds = options?.ids;
+    const ids = pending.length
+      ? await this.vectorStore.addVectors(vectors, pending, {
+          ids: givenIds && pending.map((doc) => givenIds[hashed.indexOf(doc)]),
+        })
+      : [];
+
+    console.log(
+      `Stored ${pending.length} chunks (${toEmbed.length} embedded, ` +
+        `${pending.length - toEmbed.length} reusing stored embeddings); ` +
+        `${hashed.length - pending.length} were already stored.`,
+    );
+    return hashed.map(
+      (doc) => stored.get(chunkKey(doc.metadata)) ?? String(ids[pending.indexOf(doc)]),
+    );
+  }
+
+  /**
+   * Remove the embedded chunks of the given documents, so they can be ingested afresh.
+   * Only chunks stored through `addDocuments`, which carry `embeddingDimensions`, are
+   * removed: the rows the ingest route saves for the document itself stay in place.
+   *
+   * @returns The number of chunks removed.
+   */
+  async deleteDocuments(documentIds: string[]): Promise<number> {
+    const ids: string[] = [];
+    for (const documentId of documentIds) {
+      ids.push(
+        ...(await this.matchDocuments({ documentId }))
+          .filter(({ metadata }) => typeof metadata?.embeddingDimensions === 'number')
+          .map(({ id }) => String(id)),
+      );
+    }
+    if (ids.length > 0) {
+      await this.vectorStore.delete({ ids });
+    }
+    return ids.length;
+  }
+
   async _getRelevantDocuments(_query: string): Promise<Document[]> {
     try {
-      // Call the Supabase RPC "match_documents" with query_embedding set to null
-      const { data, error } = await this.vectorStore.client.rpc('match_documents', {
-        query_embedding: null,
-        match_count: null,
-        filter: this.filter,
-      });
-      if (error) {
-        throw new Error(`Supabase RPC error: ${error.message}`);
-      }
-      if (!data || data.length === 0) {
+      const rows = await this.fetchScopedRows();
+      if (rows.length === 0) {
         return [];
       }
 
-      console.log(`Retrieved ${data.length} pages from the vector store.`);
+      console.log(`Retrieved ${rows.length} pages from the vector store.`);
+      return rows.map(toDocument);
+    } catch (error) {
+      console.error("Error retrieving documents:", error);
+      throw error;
+    }
+  }
 
-      // Remove embeddings from the documents
-      const cleanedDocs = data.map((doc: { [x: string]: any; embedding: any; }) => {
-        // Create a new document without the embedding field
-        const { embedding, ...docWithoutEmbedding } = doc;
-        return docWithoutEmbedding as Document;
-      });
+  /**
+   * Field-targeted hybrid retrieval. Every query of a group is ranked against the scoped
+   * chunks by vector similarity and BM25 together, and the group gets the top `k` chunks
+   * of each of its queries, in page order.
+   *
+   * @param groups - Queries keyed by the extraction step that will read the results.
+   * @param k - Number of chunks kept per query.
+   * @returns The chunks selected for each group.
+   */
+  async getHybridDocuments(
+    groups: Record<string, string[]>,
+    k: number,
+  ): Promise<Record<string, Document[]>> {
+    try {
+      const rows = await this.fetchScopedRows();
+      const documents = rows.map(toDocument);
+      const corpus: HybridCorpus = {
+        tokens: documents.map(({ pageContent }) => tokenize(pageContent)),
+        embeddings: rows.map(({ embedding }) => parseEmbedding(embedding)),
+      };
 
-      return cleanedDocs;
+      const queries = [...new Set(Object.values(groups).flat())];
+      const queryEmbeddings = corpus.embeddings.some(Boolean)
+        ? await this.embeddings.embedDocuments(queries)
+        : [];
+      if (queryEmbeddings.length > 0) {
+        assertCompatibleEmbeddings(
+          rows.map(({ metadata }, index) => ({ metadata, embedding: corpus.embeddings[index] })),
+          this.embeddingModel,
+          queryEmbeddings[0].length,
+        );
+      }
+
+      const selected = Object.fromEntries(
+        Object.entries(groups).map(([group, groupQueries]) => {
+          const indexes = new Set(
+            groupQueries.flatMap((query) =>
+              rankHybrid(query, queryEmbeddings[queries.indexOf(query)], corpus, k),
+            ),
+          );
+          return [
+            group,
+            [...indexes].sort((a, b) => a - b).map((index) => documents[index]),
+          ];
+        }),
+      );
+
+      console.log(
+        `Selected pages by hybrid retrieval: ${Object.entries(selected)
+          .map(([group, docs]) => `${group}=${docs.length}`)
+          .join(', ')}`,
+      );
+      return selected;
     } catch (error) {
       console.error("Error retrieving documents:", error);
       throw error;
     }
   }
 
+  /**
+   * Every embedded chunk of the documents in scope, checked against the scope after the
+   * RPC. The pages the ingest route saves without an embedding duplicate the embedded
+   * chunks of the same document, so they are left out.
+   */
+  private async fetchScopedRows(): Promise<MatchDocumentsRow[]> {
+    if (this.scope.documentIds.length === 0) {
+      throw new Error('Retrieval requires at least one document ID in scope');
+    }
+
+    // match_documents filters with JSONB containment, so each document is queried separately
+    const rows: MatchDocumentsRow[] = [];
+    for (const documentId of this.scope.documentIds) {
+      rows.push(
+        ...(await this.matchDocuments({
+          ...this.filter,
+          documentId,
+          ...(this.scope.userId && { userId: this.scope.userId }),
+        })),
+      );
+    }
+
+    // Only chunks ingested from an uploaded file, whatever its type
+    const uploaded = rows.filter(({ metadata }) => isUploadedDocument(metadata));
+    const scoped = uploaded.filter(({ metadata }) => isInScope(metadata, this.scope));
+    if (scoped.length < uploaded.length) {
+      console.warn(`Dropped ${uploaded.length - scoped.length} chunks outside the retrieval scope.`);
+    }
+    return scoped.filter(({ embedding }) => parseEmbedding(embedding) !== undefined);
+  }
+
+  /**
+   * Every chunk whose metadata contains the filter.
+   */
+  private async matchDocuments(filter: Record<string, unknown>): Promise<MatchDocumentsRow[]> {
+    if (this.vectorStore instanceof LocalVectorStore) {
+      return this.vectorStore.matchDocuments(filter);
+    }
+
+    // Call the Supabase RPC "match_documents" with query_embedding set to null
+    const { data, error } = await this.vectorStore.client.rpc('match_documents', {
+      query_embedding: null,
+      match_count: null,
+      filter,
+    });
+    if (error) {
+      throw new Error(`Supabase RPC error: ${error.message}`);
+    }
+    return (data ?? []) as MatchDocumentsRow[];
+  }
+
   async getDocumentsInBatches(query: string, batchProcessor: (formattedDocs: string) => Promise<any>): Promise<any[]> {
     const allDocs = await this._getRelevantDocuments(query);
 
@@ -96,10 +424,9 @@ export class AllChunksRetriever extends VectorStoreRetriever<SupabaseVectorStore
 
 export async function makeSupabaseRetriever(
   configuration: typeof BaseConfigurationAnnotation.State,
+  scope: RetrievalScope,
 ): Promise<AllChunksRetriever> {
-  const embeddings = new OpenAIEmbeddings({
-    model: 'text-embedding-3-small',
-  });
+  const embeddings = loadEmbeddings(configuration.embeddingModel);
 
   const supabaseClient = await createSupabaseClient();
   const vectorStore = new SupabaseVectorStore(embeddings, {
@@ -108,28 +435,65 @@ export async function makeSupabaseRetriever(
     queryName: 'match_documents',
   });
 
-  // Extract batchSize from the configuration if available, otherwise use the default of 40.
-  const batchSize = (configuration as any).batchSize ?? 40;
+  // Return our custom retriever, which only reads chunks of uploaded files
+  return new AllChunksRetriever(
+    vectorStore,
+    scope,
+    configuration.filterKwargs,
+    configuration.batchSize,
+    configuration.embeddingModel,
+    embeddings,
+  );
+}
 
-  // Return our custom retriever with the filter extended to only include uploaded PDFs.
+/**
+ * Retriever over the in-process vector store, for development and CI without Supabase.
+ * Chunks are persisted to the JSON file named by `LOCAL_VECTOR_STORE_PATH`, or kept in
+ * memory for the life of the process when it is not set.
+ */
+export async function makeLocalRetriever(
+  configuration: typeof BaseConfigurationAnnotation.State,
+  scope: RetrievalScope,
+): Promise<AllChunksRetriever> {
+  const embeddings = loadEmbeddings(configuration.embeddingModel);
+  const vectorStore = await LocalVectorStore.load(
+    embeddings,
+    process.env.LOCAL_VECTOR_STORE_PATH || undefined,
+  );
+
+  // The store is shared, so its embeddings are those of whichever run opened it first
   return new AllChunksRetriever(
     vectorStore,
-    {
-      ...configuration.filterKwargs,
-      isUploadedPdf: true,
-    },
-    batchSize
+    scope,
+    configuration.filterKwargs,
+    configuration.batchSize,
+    configuration.embeddingModel,
+    embeddings,
   );
 }
 
+/**
+ * Create the retriever for the configured provider, scoped to the configured documents
+ * and user.
+ *
+ * @param config - The configuration object to use.
+ * @param pdfId - The document of the current run, added to the configured document IDs.
+ */
 export async function makeRetriever(
   config: RunnableConfig,
+  pdfId?: string,
 ): Promise<AllChunksRetriever> {
   const configuration = ensureBaseConfiguration(config);
+  const scope: RetrievalScope = {
+    documentIds: [...new Set([...configuration.documentIds, ...(pdfId ? [pdfId] : [])])],
+    userId: configuration.userId || undefined,
+  };
 
   switch (configuration.retrieverProvider) {
     case 'supabase':
-      return makeSupabaseRetriever(configuration);
+      return makeSupabaseRetriever(configuration, scope);
+    case 'local':
+      return makeLocalRetriever(configuration, scope);
     default:
       throw new Error(
         `Unsupported retriever provider: ${configuration.retrieverProvider}`,
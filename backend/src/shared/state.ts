@@ -1,9 +1,26 @@
 import { Document } from '@langchain/core/documents';
 import { v4 as uuidv4 } from 'uuid';
 
+/** Extensions of the files the ingest route accepts: PDF, Word, Excel and HTML. */
+const UPLOAD_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.html', '.htm'];
+
+const hasUploadExtension = (name: unknown) =>
+  typeof name === 'string' &&
+  UPLOAD_EXTENSIONS.some((extension) => name.toLowerCase().endsWith(extension));
+
+/**
+ * Whether a chunk was ingested from an uploaded file. Chunks ingested before Word, Excel
+ * and HTML uploads were supported only carry `isUploadedPdf`.
+ */
+export function isUploadedDocument(metadata: Record<string, unknown> | null | undefined): boolean {
+  return metadata?.isUploadedFile === true || metadata?.isUploadedPdf === true;
+}
+
 /**
  * Reduces the document array based on the provided new documents or actions.
  * Ensures only uploaded PDF files are referenced using their given IDs.
+ * Chunks of any uploaded file type are flagged `isUploadedFile`, and PDF chunks also
+ * `isUploadedPdf`.
  *
  * @param existing - The existing array of documents.
  * @param newDocs - The new documents or actions to apply.
@@ -53,6 +70,8 @@ export function reduceDocs(
             metadata.mimetype === 'application/pdf')) ||
         (metadata.filename && typeof metadata.filename === 'string' &&
           metadata.filename.toLowerCase().endsWith('.pdf'));
+      const isFileUpload =
+        isPdfUpload || hasUploadExtension(metadata.source) || hasUploadExtension(metadata.filename);
 
       // Use the existing ID if available, otherwise generate a new one
       const itemId = metadata.uuid || (isPdfUpload && metadata.fileId) || uuidv4();
@@ -64,7 +83,8 @@ export function reduceDocs(
           metadata: {
             ...metadata,
             uuid: itemId,
-            isUploadedPdf: isPdfUpload
+            isUploadedPdf: isPdfUpload,
+            isUploadedFile: isFileUpload
           },
         });
       } else {
@@ -74,7 +94,8 @@ export function reduceDocs(
           metadata: {
             ...(item as { [key: string]: any }),
             uuid: itemId,
-            isUploadedPdf: isPdfUpload
+            isUploadedPdf: isPdfUpload,
+            isUploadedFile: isFileUpload
           },
         });
       }
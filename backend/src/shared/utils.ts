@@ -1,5 +1,9 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { Embeddings } from '@langchain/core/embeddings';
+import { HuggingFaceTransformersEmbeddings } from '@langchain/community/embeddings/huggingface_transformers';
+import { OpenAIEmbeddings } from '@langchain/openai';
 import { initChatModel } from 'langchain/chat_models/universal';
+import { HashEmbeddings, loadFakeScript, ScriptedChatModel } from './fake.js';
 
 const SUPPORTED_PROVIDERS = [
   'openai',
@@ -19,8 +23,10 @@ const SUPPORTED_PROVIDERS = [
   'deepseek',
   'xai',
 ] as const;
+
 /**
  * Load a chat model from a fully specified name.
+ * `fake/<script>` loads a scripted model that needs no network (see `fake.ts`).
  * @param fullySpecifiedName - String in the format 'provider/model' or 'provider/account/provider/model'.
  * @returns A Promise that resolves to a BaseChatModel instance.
  */
@@ -44,6 +50,9 @@ export async function loadChatModel(
   } else {
     const provider = fullySpecifiedName.slice(0, index);
     const model = fullySpecifiedName.slice(index + 1);
+    if (provider === 'fake') {
+      return new ScriptedChatModel(model, loadFakeScript(model));
+    }
     if (
       !SUPPORTED_PROVIDERS.includes(
         provider as (typeof SUPPORTED_PROVIDERS)[number],
@@ -57,3 +66,39 @@ export async function loadChatModel(
     });
   }
 }
+
+/**
+ * Load an embeddings model from a fully specified name.
+ *
+ * - `openai/<model>`: OpenAI embeddings, e.g. 'openai/text-embedding-3-small'.
+ * - `transformers/<model>`: a Hugging Face model run on the CPU with transformers.js, e.g.
+ *   'transformers/Xenova/all-MiniLM-L6-v2'. The model is downloaded on first use and cached.
+ * - `fake/hash` or `fake/hash-<dimensions>`: deterministic offline embeddings.
+ *
+ * @param fullySpecifiedName - String in the format 'provider/model'.
+ * @returns The embeddings model.
+ */
+export function loadEmbeddings(fullySpecifiedName: string): Embeddings {
+  const index = fullySpecifiedName.indexOf('/');
+  const provider = index === -1 ? fullySpecifiedName : fullySpecifiedName.slice(0, index);
+  const model = fullySpecifiedName.slice(index + 1);
+  if (index === -1 || !model) {
+    throw new Error(`Embeddings model must be given as 'provider/model': ${fullySpecifiedName}`);
+  }
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbeddings({ model });
+    case 'transformers':
+      return new HuggingFaceTransformersEmbeddings({ model });
+    case 'fake': {
+      const dimensions = model.match(/^hash(?:-(\d+))?$/);
+      if (!dimensions) {
+        throw new Error(`Unsupported fake embeddings model: ${model}`);
+      }
+      return new HashEmbeddings(dimensions[1] ? Number(dimensions[1]) : undefined);
+    }
+    default:
+      throw new Error(`Unsupported embeddings provider: ${provider}`);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * In-process vector store for running the graphs without Supabase.
+ *
+ * Chunks are kept in memory and, when a file path is given, written to a JSON file after
+ * every insert so they survive a restart of the LangGraph server. Metadata filters follow
+ * the `metadata @> filter` containment used by the `match_documents` SQL function.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Document } from '@langchain/core/documents';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { VectorStore } from '@langchain/core/vectorstores';
+import { cosineSimilarity } from './hybrid.js';
+
+/**
+ * A stored chunk, in the shape of a `match_documents` row.
+ */
+export interface LocalChunk {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  embedding: number[];
+}
+
+/**
+ * Whether `value` contains `filter` the way JSONB containment does: objects contain
+ * every key of the filter, arrays contain every element of the filter, and anything
+ * else must be equal.
+ */
+export function containsMetadata(value: unknown, filter: unknown): boolean {
+  if (Array.isArray(filter)) {
+    return (
+      Array.isArray(value) &&
+      filter.every((item) => value.some((candidate) => containsMetadata(candidate, item)))
+    );
+  }
+  if (filter !== null && typeof filter === 'object') {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      return false;
+    }
+    return Object.entries(filter).every(([key, item]) =>
+      containsMetadata((value as Record<string, unknown>)[key], item),
+    );
+  }
+  return value === filter;
+}
+
+/** Stores shared by every graph in the process, keyed by file path ('' when in memory). */
+const stores = new Map<string, Promise<LocalVectorStore>>();
+
+export class LocalVectorStore extends VectorStore {
+  declare FilterType: Record<string, unknown>;
+
+  private chunks: LocalChunk[] = [];
+
+  constructor(
+    embeddings: EmbeddingsInterface,
+    private filePath?: string,
+  ) {
+    super(embeddings, {});
+  }
+
+  _vectorstoreType(): string {
+    return 'local';
+  }
+
+  /**
+   * The store for a file, loading the chunks it already holds. Every caller in the
+   * process gets the same instance, so the ingestion and retrieval graphs share chunks.
+   * The store keeps the embeddings of the first call; callers with another embedding model
+   * embed their chunks and queries themselves, as `AllChunksRetriever` does.
+   *
+   * @param embeddings - Embeddings used for chunks added through `addDocuments`.
+   * @param filePath - JSON file to persist the chunks in; in memory only when omitted.
+   */
+  static load(embeddings: EmbeddingsInterface, filePath?: string): Promise<LocalVectorStore> {
+    const key = filePath ? path.resolve(filePath) : '';
+    let store = stores.get(key);
+    if (!store) {
+      store = (async () => {
+        const local = new LocalVectorStore(embeddings, key || undefined);
+        if (key) {
+          try {
+            const saved = JSON.parse(await fs.readFile(key, 'utf-8'));
+            local.chunks = Array.isArray(saved.chunks) ? saved.chunks : [];
+          } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+              throw new Error(`Could not read local vector store ${key}: ${String(error)}`);
+            }
+          }
+        }
+        return local;
+      })();
+      // A failed load is not cached, so the next call can retry
+      store.catch(() => stores.delete(key));
+      stores.set(key, store);
+    }
+    return store;
+  }
+
+  async addVectors(
+    vectors: number[][],
+    documents: Document[],
+    options?: { ids?: string[] },
+  ): Promise<string[]> {
+    const ids = documents.map((_, index) => options?.ids?.[index] ?? uuidv4());
+    this.chunks.push(
+      ...documents.map((doc, index) => ({
+        id: ids[index],
+        content: doc.pageContent,
+        metadata: { ...doc.metadata },
+        embedding: vectors[index],
+      })),
+    );
+    await this.save();
+    return ids;
+  }
+
+  async addDocuments(
+    documents: Document[],
+    options?: { ids?: string[] },
+  ): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map(({ pageContent }) => pageContent),
+    );
+    return this.addVectors(vectors, documents, options);
+  }
+
+  async delete({ ids }: { ids: string[] }): Promise<void> {
+    const deleted = new Set(ids);
+    this.chunks = this.chunks.filter(({ id }) => !deleted.has(id));
+    await this.save();
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: this['FilterType'],
+  ): Promise<[Document, number][]> {
+    return this.matchDocuments(filter)
+      .map((chunk): [Document, number] => [
+        new Document({ pageContent: chunk.content, metadata: chunk.metadata }),
+        cosineSimilarity(query, chunk.embedding),
+      ])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k);
+  }
+
+  /**
+   * Every chunk whose metadata contains the filter, in insertion order. The local
+   * equivalent of calling `match_documents` with a null query embedding.
+   */
+  matchDocuments(filter: Record<string, unknown> = {}): LocalChunk[] {
+    return this.chunks.filter(({ metadata }) => containsMetadata(metadata, filter));
+  }
+
+  private async save(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify({ chunks: this.chunks }));
+  }
+}
@@ -82,9 +82,9 @@ startxref
     expect(data.error).toBe('No files provided');
   });
 
-  it('should reject non-PDF files', async () => {
+  it('should reject unsupported files', async () => {
     const formData = new FormData();
-    formData.append('files', fs.createReadStream('jest.config.js'), 'test.txt'); // Attach a non-PDF file
+    formData.append('files', fs.createReadStream('jest.config.js'), 'test.txt'); // Attach a text file
 
     const response = await fetch(ingestUrl, {
       method: 'POST',
@@ -93,7 +93,7 @@ startxref
 
     expect(response.status).toBe(400);
     const data = await response.json();
-    expect(data.error).toContain('Only PDF files are allowed');
+    expect(data.error).toContain('Only PDF, Word (.docx), Excel (.xlsx) and HTML files are allowed');
   });
 
   it('should accept PDF files', async () => {
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import { ACRA_BUSINESS_RULES, BusinessRule, evaluateRules, parseRuleCatalog } from '@/lib/business-rules';
+
+const filing = {
+  filingInformation: {
+    NameOfCompany: 'ACME PTE. LTD.',
+    CurrentPeriodStartDate: '2024-01-01',
+    CurrentPeriodEndDate: '2024-12-31',
+    TypeOfXBRLFiling: 'Full',
+    NatureOfFinancialStatementsCompanyLevelOrConsolidated: 'Company',
+    TypeOfAccountingStandardUsedToPrepareFinancialStatements: 'SFRS',
+    NameOfParentEntity: null,
+  },
+  auditReport: {
+    TypeOfAuditOpinionInIndependentAuditorsReport: 'Unqualified',
+    WhetherThereIsAnyMaterialUncertaintyRelatingToGoingConcern: false,
+  },
+};
+
+const ruleIds = (data: unknown) => evaluateRules(data).map(({ rule }) => rule);
+
+describe('ACRA business rules', () => {
+  it('should pass a consistent filing', () => {
+    expect(evaluateRules(filing)).toEqual([]);
+  });
+
+  it('should require the reason for a modified audit opinion', () => {
+    const qualified = {
+      ...filing,
+      auditReport: { ...filing.auditReport, TypeOfAuditOpinionInIndependentAuditorsReport: 'Qualified' },
+    };
+    expect(evaluateRules(qualified)).toEqual([
+      {
+        rule: 'modified-audit-opinion-requires-reason',
+        severity: 'error',
+        message: 'The audit opinion is Qualified, but no reason for the modified opinion is given',
+        paths: ['auditReport.ReasonForModifiedAuditOpinionAbstract.*'],
+      },
+    ]);
+
+    const withReason = {
+      ...qualified,
+      auditReport: {
+        ...qualified.auditReport,
+        ReasonForModifiedAuditOpinionAbstract: { impairmentOfAssets: false, goingConcern: true },
+      },
+    };
+    expect(evaluateRules(withReason)).toEqual([]);
+  });
+
+  it('should check the parent entity, accounting standard and period dates', () => {
+    expect(
+      ruleIds({
+        ...filing,
+        filingInformation: {
+          ...filing.filingInformation,
+          NatureOfFinancialStatementsCompanyLevelOrConsolidated: 'Consolidated',
+          TypeOfAccountingStandardUsedToPrepareFinancialStatements: 'SFRS for SE',
+          CurrentPeriodEndDate: '2023-12-31',
+          PriorPeriodStartDate: '2023-01-01',
+        },
+        auditReport: { ...filing.auditReport, WhetherThereIsAnyMaterialUncertaintyRelatingToGoingConcern: true },
+      })
+    ).toEqual([
+      'consolidated-requires-parent-entity',
+      'sfrs-for-se-cannot-file-full',
+      'period-end-after-start',
+      'prior-period-start-requires-comparatives',
+      'going-concern-uncertainty-reported',
+    ]);
+    expect(evaluateRules({ ...filing, filingInformation: { ...filing.filingInformation, CurrentPeriodEndDate: '2023-12-31' } })[0])
+      .toMatchObject({
+        severity: 'error',
+        message: 'The current period ends on 2023-12-31, before it starts on 2024-01-01',
+      });
+  });
+});
+
+describe('evaluateRules', () => {
+  const rules: BusinessRule[] = [
+    {
+      id: 'large-revenue',
+      description: 'Revenue above a threshold',
+      severity: 'warning',
+      when: { any: [{ path: 'incomeStatement.Revenue', op: 'gte', value: 1000 }, { not: { path: 'incomeStatement', op: 'present' } }] },
+      assert: { path: 'notes.revenue.*', op: 'in', value: ['disclosed'] },
+      message: 'Revenue of {incomeStatement.Revenue} needs a {notes.revenue.Disclosure} note',
+    },
+  ];
+
+  it('should evaluate rules given in the catalog format', () => {
+    expect(evaluateRules({ incomeStatement: { Revenue: 999 } }, rules)).toEqual([]);
+    expect(evaluateRules({ incomeStatement: { Revenue: 1000 } }, rules)).toEqual([
+      {
+        rule: 'large-revenue',
+        severity: 'warning',
+        message: 'Revenue of 1000 needs a (missing) note',
+        paths: ['notes.revenue.*'],
+      },
+    ]);
+    expect(evaluateRules({ incomeStatement: { Revenue: 5000 }, notes: { revenue: { Disclosure: 'disclosed' } } }, rules)).toEqual([]);
+    expect(evaluateRules({}, rules)).toHaveLength(1);
+  });
+
+  it('should reject catalogs that are not valid', () => {
+    expect(parseRuleCatalog({ rules: ACRA_BUSINESS_RULES })).toHaveLength(ACRA_BUSINESS_RULES.length);
+    expect(() =>
+      parseRuleCatalog({ rules: [{ id: 'a', description: 'A', severity: 'fatal', assert: rules[0].assert, message: 'A' }] })
+    ).toThrow(/^Invalid business rule catalog: rules.0.severity: /);
+    expect(() =>
+      parseRuleCatalog({ rules: [{ id: 'a', description: 'A', severity: 'info', message: 'A' }] })
+    ).toThrow('Invalid business rule catalog: rules.0: A rule needs a "when" or an "assert" condition');
+    expect(() => parseRuleCatalog({ rules: [rules[0], rules[0]] })).toThrow('duplicate rule ids large-revenue');
+    expect(() =>
+      parseRuleCatalog({ rules: [{ ...rules[0], assert: { path: 'a', op: 'between' } }] })
+    ).toThrow('Invalid business rule catalog');
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * @jest-environment node
+ */
+import { ACCEPTED_FILE_EXTENSIONS, detectFileType } from '@/lib/file-types';
+
+describe('detectFileType', () => {
+  it('should recognise files by MIME type or else by extension', () => {
+    expect(detectFileType({ name: 'report', type: 'application/pdf' })).toBe('pdf');
+    expect(detectFileType({ name: 'Statements.DOCX', type: '' })).toBe('docx');
+    expect(detectFileType({ name: 'trial-balance.xlsx', type: 'application/octet-stream' })).toBe('xlsx');
+    expect(detectFileType({ name: 'report.htm', type: '' })).toBe('html');
+    expect(detectFileType({ name: 'report.doc', type: 'application/msword' })).toBeUndefined();
+    expect(detectFileType({ name: '.pdf', type: '' })).toBeUndefined();
+  });
+
+  it('should accept the same extensions in file inputs', () => {
+    expect(ACCEPTED_FILE_EXTENSIONS).toBe('.pdf,.docx,.xlsx,.html,.htm');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+import { addFileMetadata, htmlToBlocks, paginateBlocks } from '@/lib/html';
+
+const statements = `
+<html>
+  <head><style>p { color: red; }</style><script>var x = 1;</script></head>
+  <body>
+    <h1>ACME PTE. LTD.</h1>
+    <p>Statement of financial position as at <b>31 December 2024</b></p>
+    <table>
+      <tr><th></th><th>Note</th><th>2024</th><th>2023</th></tr>
+      <tr><td>Cash and bank balances</td><td>5</td><td>1,234</td><td>1,100</td></tr>
+      <tr><td colspan="2">Total current assets</td><td>1,734</td><td>1,080</td></tr>
+      <tr><td></td><td></td></tr>
+    </table>
+    <div>Notes &amp; disclosures<br>Revenue 8,400</div>
+  </body>
+</html>`;
+
+describe('htmlToBlocks', () => {
+  it('should keep paragraphs and table cells in document order', () => {
+    expect(htmlToBlocks(statements)).toEqual([
+      { kind: 'text', text: 'ACME PTE. LTD.' },
+      { kind: 'text', text: 'Statement of financial position as at 31 December 2024' },
+      {
+        kind: 'table',
+        rows: [
+          ['', 'Note', '2024', '2023'],
+          ['Cash and bank balances', '5', '1,234', '1,100'],
+          ['Total current assets', '', '1,734', '1,080'],
+        ],
+      },
+      { kind: 'text', text: 'Notes & disclosures' },
+      { kind: 'text', text: 'Revenue 8,400' },
+    ]);
+  });
+});
+
+describe('paginateBlocks', () => {
+  it('should render tables as grids with their column roles', () => {
+    const [page, ...others] = paginateBlocks(htmlToBlocks(statements));
+
+    expect(others).toEqual([]);
+    expect(page.metadata).toEqual({ loc: { pageNumber: 1 }, tableCount: 1 });
+    expect(page.pageContent).toContain('| Cash and bank balances | 5 | 1,234 | 1,100 |');
+    expect(page.pageContent).toContain('|  | Note | 2024 | 2023 |');
+  });
+
+  it('should start a new page at a paragraph boundary once a page is full', () => {
+    const paragraph = 'Revenue from contracts with customers. '.repeat(30).trim();
+    const pages = paginateBlocks(
+      [1, 2, 3].map((index) => ({ kind: 'text' as const, text: `${index}. ${paragraph}` })),
+    );
+
+    expect(pages.map(({ metadata }) => metadata.loc.pageNumber)).toEqual([1, 2]);
+    expect(pages[1].pageContent.startsWith('3. ')).toBe(true);
+  });
+});
+
+describe('addFileMetadata', () => {
+  it('should give every page the metadata of an uploaded PDF page', () => {
+    const [page] = addFileMetadata(paginateBlocks(htmlToBlocks(statements)), 'acme.html', 'html');
+
+    expect(page.metadata).toMatchObject({
+      source: 'acme.html',
+      filename: 'acme.html',
+      fileType: 'html',
+      textSource: 'document',
+      loc: { pageNumber: 1 },
+    });
+    expect(typeof page.metadata.pdfId).toBe('string');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { xml2js, Element } from 'xml-js';
+import { toInlineXbrl } from '@/lib/ixbrl';
+import { XmlTransformer, XmlTransformError } from '@/lib/xml-transformer';
+
+const filing = {
+  filingInformation: {
+    NameOfCompany: 'ACME R&D PTE. LTD.',
+    UniqueEntityNumber: '201912345A',
+    CurrentPeriodStartDate: '2024-01-01',
+    CurrentPeriodEndDate: '2024-12-31',
+    PriorPeriodStartDate: '2023-01-01',
+    TypeOfXBRLFiling: 'Partial',
+    DescriptionOfPresentationCurrency: 'SGD',
+    LevelOfRoundingUsedInFinancialStatements: 'Thousands',
+    WhetherTheFinancialStatementsArePreparedOnGoingConcernBasis: true,
+    NameOfParentEntity: null,
+  },
+  statementOfFinancialPosition: {
+    currentAssets: { CashAndBankBalances: 1250000 },
+    equity: { RetainedEarnings: -300000 },
+  },
+  incomeStatement: { Revenue: 8400000 },
+  priorPeriod: { incomeStatement: { Revenue: 7100000 } },
+};
+
+/** The `ix:` elements of a document, at any depth. */
+const inlineElements = (element: Element): Element[] => [
+  ...(element.name?.startsWith('ix:non') ? [element] : []),
+  ...(element.elements ?? []).flatMap(inlineElements),
+];
+
+describe('toInlineXbrl', () => {
+  it('should show the statements with each figure tagged at the rounding level', () => {
+    const html = toInlineXbrl(filing);
+
+    expect(html).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<html xmlns="http:\/\/www.w3.org\/1999\/xhtml" /);
+    expect(html).toContain('xmlns:ix="http://www.xbrl.org/2013/inlineXBRL"');
+    expect(html).toContain('<h2>Statement of profit or loss</h2>');
+    expect(html).toContain('<th class="amount">2023-12-31</th>');
+    expect(html).toContain(
+      '<ix:nonFraction name="sg-as:Revenue" contextRef="CurrentYearDuration" unitRef="SGD" decimals="-3" scale="3" format="ixt:num-dot-decimal">8,400</ix:nonFraction>'
+    );
+    expect(html).toContain(
+      '<ix:nonFraction name="sg-as:Revenue" contextRef="PriorYearDuration" unitRef="SGD" decimals="-3" scale="3" format="ixt:num-dot-decimal">7,100</ix:nonFraction>'
+    );
+    expect(html).toContain('<td class="amount negative">');
+    expect(html).toContain('scale="3" format="ixt:num-dot-decimal" sign="-">300</ix:nonFraction>');
+    expect(html).toContain('<td colspan="2">Current assets</td>');
+    expect(html).toContain('<td>Cash and bank balances</td>');
+    expect(html).toContain(
+      '<ix:nonNumeric name="sg-dei:NameOfCompany" contextRef="CurrentYearDuration">ACME R&amp;D PTE. LTD.</ix:nonNumeric>'
+    );
+  });
+
+  it('should keep the facts the report does not show in the hidden header', () => {
+    const html = toInlineXbrl(filing);
+    const hidden = html.slice(html.indexOf('<ix:hidden>'), html.indexOf('</ix:hidden>'));
+
+    expect(hidden).toContain(
+      '<ix:nonNumeric name="sg-dei:WhetherFinancialStatementsArePreparedOnGoingConcernBasis" contextRef="CurrentYearDuration" format="ixt:fixed-true">Yes</ix:nonNumeric>'
+    );
+    expect(hidden).toContain('name="sg-dei:TypeOfXBRLFiling"');
+    expect(hidden).not.toContain('sg-dei:NameOfCompany');
+    expect(html).toMatch(/<ix:references>\s*<link:schemaRef xlink:type="simple" xlink:href="[^"]+ACRA_Taxonomy_2022.xsd"\/>/);
+    expect(html).toContain('<xbrli:context id="PriorYearDuration">');
+    expect(html).toContain('<xbrli:unit id="SGD">');
+  });
+
+  it('should report the same facts as the XML instance', () => {
+    const document = xml2js(toInlineXbrl(filing), { compact: false }) as Element;
+    const instance = XmlTransformer.toInstance(filing);
+
+    const inline = inlineElements(document).map(({ attributes }) => `${attributes?.name}@${attributes?.contextRef}`);
+    expect(inline.sort()).toEqual(
+      instance.facts.map(({ prefix, name, contextRef }) => `${prefix}:${name}@${contextRef}`).sort()
+    );
+  });
+
+  it('should refuse data that cannot be written as an instance', () => {
+    expect(() => toInlineXbrl({ filingInformation: {}, incomeStatement: { Revenue: 1 } })).toThrow(
+      XmlTransformError
+    );
+    expect(() => toInlineXbrl({ a: 'b' })).toThrow('Data is neither the JSON model of a filing nor tagged data');
+  });
+});
@@ -0,0 +1,40 @@
+import { needsOcr, wordsToPositionedText } from '@/lib/pdf-ocr';
+import { reconstructTables } from '@/lib/pdf-tables';
+
+describe('needsOcr', () => {
+  it('should treat pages with only a page number or whitespace as images', () => {
+    expect(needsOcr('')).toBe(true);
+    expect(needsOcr('  12 \n ')).toBe(true);
+    expect(needsOcr('Statement of financial position as at 31 December 2024')).toBe(false);
+  });
+});
+
+describe('wordsToPositionedText', () => {
+  const word = (text: string, x0: number, y0: number, x1: number) => ({
+    text,
+    bbox: { x0, y0, x1, y1: y0 + 20 },
+  });
+
+  it('should flip the image coordinates into PDF units from the bottom of the page', () => {
+    expect(wordsToPositionedText([word('Revenue', 100, 180, 240)], 800)).toEqual([
+      { text: 'Revenue', x: 50, y: 300, width: 70, height: 10 },
+    ]);
+  });
+
+  it('should give words that rebuild into a statement table', () => {
+    const words = [
+      word('2024', 800, 100, 840),
+      word('2023', 960, 100, 1000),
+      ...['Revenue', 'Cost', 'Profit'].flatMap((label, index) => [
+        word(label, 100, 140 + index * 40, 240),
+        word(String(900 - index * 100), 780, 140 + index * 40, 840),
+        word(String(800 - index * 100), 940, 140 + index * 40, 1000),
+      ]),
+    ];
+
+    const [table] = reconstructTables(wordsToPositionedText(words, 800), 2);
+
+    expect(table.columns.map(({ header }) => header)).toEqual(['Line item', '2024', '2023']);
+    expect(table.rows[0]).toEqual({ label: 'Revenue', cells: ['900', '800'] });
+  });
+});
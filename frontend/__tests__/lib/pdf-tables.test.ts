@@ -0,0 +1,116 @@
+import { formatTableGrid, PositionedText, reconstructTables } from '@/lib/pdf-tables';
+
+/**
+ * Place a right-aligned text item so its right edge sits at `right`.
+ */
+const at = (text: string, right: number, y: number, width = text.length * 5): PositionedText => ({
+  text,
+  x: right - width,
+  y,
+  width,
+  height: 10,
+});
+
+const label = (text: string, y: number): PositionedText => at(text, 50 + text.length * 5, y);
+
+const balanceSheet: PositionedText[] = [
+  label('Statement of financial position', 720),
+  at('Note', 320, 700),
+  at('2024', 420, 700),
+  at('2023', 500, 700),
+  label('Current assets', 685),
+  label('Cash and bank balances', 670),
+  at('5', 320, 670),
+  at('1,234', 420, 670),
+  at('1,100', 500, 670),
+  label('Trade receivables', 655),
+  at('6', 320, 655),
+  at('500', 420, 655),
+  at('(20)', 500, 655),
+  label('Total current assets', 640),
+  at('1,734', 420, 640),
+  at('1,080', 500, 640),
+  at('12', 300, 100),
+];
+
+describe('reconstructTables', () => {
+  it('should rebuild the label, note and period columns', () => {
+    const [table, ...others] = reconstructTables(balanceSheet, 3);
+
+    expect(others).toEqual([]);
+    expect(table.columns).toEqual([
+      { role: 'label', header: 'Line item' },
+      { role: 'note', header: 'Note' },
+      { role: 'amount', header: '2024' },
+      { role: 'amount', header: '2023' },
+    ]);
+    expect(table.rows).toEqual([
+      { label: 'Current assets', cells: ['', '', ''] },
+      { label: 'Cash and bank balances', cells: ['5', '1,234', '1,100'] },
+      { label: 'Trade receivables', cells: ['6', '500', '(20)'] },
+      { label: 'Total current assets', cells: ['', '1,734', '1,080'] },
+    ]);
+  });
+
+  it('should keep an empty prior-year cell in its column', () => {
+    const items = [
+      label('Revenue', 500),
+      at('900', 420, 500),
+      at('800', 500, 500),
+      label('Other income', 485),
+      at('15', 420, 485),
+      label('Profit for the year', 470),
+      at('120', 420, 470),
+      at('95', 500, 470),
+    ];
+
+    const [table] = reconstructTables(items, 4);
+
+    expect(table.columns.map(({ header }) => header)).toEqual([
+      'Line item',
+      'Amount 1',
+      'Amount 2',
+    ]);
+    expect(table.rows[1]).toEqual({ label: 'Other income', cells: ['15', ''] });
+  });
+
+  it('should merge items that pdf.js split within a number', () => {
+    const items = [
+      label('Inventories', 500),
+      { text: '1,2', x: 405, y: 500, width: 12, height: 10 },
+      { text: '34', x: 417, y: 500, width: 8, height: 10 },
+      label('Prepayments', 485),
+      at('56', 425, 485),
+      label('Total', 470),
+      at('1,290', 425, 470),
+    ];
+
+    expect(reconstructTables(items, 1)[0].rows[0]).toEqual({
+      label: 'Inventories',
+      cells: ['1,234'],
+    });
+  });
+
+  it('should ignore pages without enough amount lines', () => {
+    const items = [
+      label('Directors’ statement', 700),
+      label('The directors present their statement for 2024.', 680),
+      at('12', 300, 100),
+    ];
+
+    expect(reconstructTables(items, 1)).toEqual([]);
+  });
+});
+
+describe('formatTableGrid', () => {
+  it('should render a pipe-delimited grid with the page number', () => {
+    const [table] = reconstructTables(balanceSheet, 3);
+
+    expect(formatTableGrid(table).split('\n').slice(0, 4)).toEqual([
+      '[Table: page 3]',
+      '| Line item | Note | 2024 | 2023 |',
+      '| --- | --- | --- | --- |',
+      '| Current assets |  |  |  |',
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { describeInconsistency, validateCalculations } from '@/lib/xbrl-calculation';
+import { ARCROLES, TaxonomyRelationship } from '@/lib/xbrl-taxonomy';
+import { XmlTransformer } from '@/lib/xml-transformer';
+
+const ROLE = 'http://www.acra.gov.sg/role/2022/IncomeStatement';
+
+const summation = (from: string, to: string, weight: number, order: number): TaxonomyRelationship => ({
+  role: ROLE,
+  arcrole: ARCROLES.summationItem,
+  from: `sg-as:${from}`,
+  to: `sg-as:${to}`,
+  order,
+  weight,
+});
+
+const relationships = [
+  summation('ProfitLoss', 'Revenue', 1, 1),
+  summation('ProfitLoss', 'Expenses', -1, 2),
+  summation('ProfitLoss', 'OtherIncome', 1, 3),
+  summation('CurrentAssets', 'CashAndBankBalances', 1, 1),
+  { ...summation('ProfitLoss', 'Revenue', 1, 1), arcrole: ARCROLES.parentChild },
+];
+
+const filing = (rounding: string, statements: Record<string, any>) =>
+  XmlTransformer.toInstance({
+    filingInformation: {
+      UniqueEntityNumber: '201912345A',
+      CurrentPeriodStartDate: '2024-01-01',
+      CurrentPeriodEndDate: '2024-12-31',
+      PriorPeriodStartDate: '2023-01-01',
+      LevelOfRoundingUsedInFinancialStatements: rounding,
+    },
+    ...statements,
+  });
+
+describe('validateCalculations', () => {
+  it('should report totals that are not the weighted sum of their items', () => {
+    const instance = filing('Units', {
+      incomeStatement: { Revenue: 1000, Expenses: 300, ProfitLoss: 800 },
+      priorPeriod: { incomeStatement: { Revenue: 900, Expenses: 200, ProfitLoss: 700 } },
+    });
+
+    const result = validateCalculations(instance, relationships);
+
+    expect(result.checked).toBe(2);
+    expect(result.inconsistencies).toEqual([
+      {
+        role: ROLE,
+        total: 'sg-as:ProfitLoss',
+        contextRef: 'CurrentYearDuration',
+        unitRef: 'SGD',
+        reported: 800,
+        computed: 700,
+        difference: 100,
+        tolerance: 1.5,
+        items: [
+          { concept: 'sg-as:Revenue', weight: 1, value: 1000, decimals: '0' },
+          { concept: 'sg-as:Expenses', weight: -1, value: 300, decimals: '0' },
+        ],
+      },
+    ]);
+    expect(describeInconsistency(result.inconsistencies[0])).toBe(
+      'sg-as:ProfitLoss in CurrentYearDuration is 800, but its items sum to 700 (+ sg-as:Revenue 1,000 - sg-as:Expenses 300)'
+    );
+  });
+
+  it('should allow the differences the rounding level accounts for', () => {
+    // Rounded to thousands, each amount may be off by up to 500
+    const relationshipsOfThree = relationships.slice(0, 3);
+    const instance = filing('Thousands', {
+      incomeStatement: { Revenue: 1200000, Expenses: 400000, OtherIncome: 100000, ProfitLoss: 901000 },
+    });
+    expect(validateCalculations(instance, relationshipsOfThree).inconsistencies).toEqual([]);
+
+    const beyondRounding = filing('Thousands', {
+      incomeStatement: { Revenue: 1200000, Expenses: 400000, OtherIncome: 100000, ProfitLoss: 903000 },
+    });
+    expect(validateCalculations(beyondRounding, relationshipsOfThree).inconsistencies).toMatchObject([
+      { difference: 3000, tolerance: 2000 },
+    ]);
+  });
+
+  it('should not check totals without items or nil totals', () => {
+    const instance = filing('Units', {
+      incomeStatement: { ProfitLoss: 800, Revenue: null },
+      statementOfFinancialPosition: { currentAssets: { CurrentAssets: null, CashAndBankBalances: 50 } },
+    });
+
+    expect(validateCalculations(instance, relationships)).toEqual({ checked: 0, inconsistencies: [] });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseXbrlInstance, toBaseline } from '@/lib/xbrl-import';
+
+const sample = readFileSync(
+  path.join(__dirname, '../../../backend/src/retrieval_graph/schema-sample-valid.xml'),
+  'utf-8'
+);
+
+/** A filed instance: prefixed, facts flat under the root, with comparatives. */
+const filed = `<?xml version="1.0" encoding="UTF-8"?>
+<xbrli:xbrl xmlns:xbrli="http://www.xbrl.org/2003/instance"
+    xmlns:sg-dei="http://www.acra.gov.sg/dei" xmlns:sg-as="http://www.acra.gov.sg/as"
+    xmlns:iso4217="http://www.xbrl.org/2003/iso4217" xmlns:xbrldi="http://xbrl.org/2006/xbrldi">
+  <xbrli:context id="CurrentYearDuration">
+    <xbrli:entity><xbrli:identifier scheme="http://www.acra.gov.sg">201912345A</xbrli:identifier></xbrli:entity>
+    <xbrli:period><xbrli:startDate>2024-01-01</xbrli:startDate><xbrli:endDate>2024-12-31</xbrli:endDate></xbrli:period>
+  </xbrli:context>
+  <xbrli:context id="CurrentYearInstant">
+    <xbrli:entity><xbrli:identifier scheme="http://www.acra.gov.sg">201912345A</xbrli:identifier></xbrli:entity>
+    <xbrli:period><xbrli:instant>2024-12-31</xbrli:instant></xbrli:period>
+  </xbrli:context>
+  <xbrli:context id="PriorYearInstant">
+    <xbrli:entity><xbrli:identifier scheme="http://www.acra.gov.sg">201912345A</xbrli:identifier></xbrli:entity>
+    <xbrli:period><xbrli:instant>2023-12-31</xbrli:instant></xbrli:period>
+  </xbrli:context>
+  <xbrli:context id="CurrentYearSegment">
+    <xbrli:entity>
+      <xbrli:identifier scheme="http://www.acra.gov.sg">201912345A</xbrli:identifier>
+      <xbrli:segment><xbrldi:explicitMember dimension="sg-as:ComponentsOfEquityAxis">sg-as:ShareCapitalMember</xbrldi:explicitMember></xbrli:segment>
+    </xbrli:entity>
+    <xbrli:period><xbrli:instant>2024-12-31</xbrli:instant></xbrli:period>
+  </xbrli:context>
+  <xbrli:unit id="SGD"><xbrli:measure>iso4217:SGD</xbrli:measure></xbrli:unit>
+  <sg-dei:NameOfCompany contextRef="CurrentYearDuration">ACME PTE. LTD.</sg-dei:NameOfCompany>
+  <sg-dei:CurrentPeriodStartDate contextRef="CurrentYearDuration">2024-01-01</sg-dei:CurrentPeriodStartDate>
+  <sg-dei:CurrentPeriodEndDate contextRef="CurrentYearDuration">2024-12-31</sg-dei:CurrentPeriodEndDate>
+  <sg-dei:DateOfAuthorisationForIssueOfFinancialStatements contextRef="CurrentYearDuration">2025-03-01</sg-dei:DateOfAuthorisationForIssueOfFinancialStatements>
+  <sg-dei:TypeOfXBRLFiling contextRef="CurrentYearDuration">Partial</sg-dei:TypeOfXBRLFiling>
+  <sg-as:Revenue contextRef="CurrentYearDuration" unitRef="SGD" decimals="0">8400000</sg-as:Revenue>
+  <sg-as:CashAndBankBalances contextRef="CurrentYearInstant" unitRef="SGD" decimals="0">1250000</sg-as:CashAndBankBalances>
+  <sg-as:CashAndBankBalances contextRef="PriorYearInstant" unitRef="SGD" decimals="0">980000</sg-as:CashAndBankBalances>
+  <sg-as:ShareCapital contextRef="CurrentYearSegment" unitRef="SGD" decimals="0">100000</sg-as:ShareCapital>
+  <sg-as:Inventories contextRef="CurrentYearInstant" unitRef="SGD" decimals="0">n/a</sg-as:Inventories>
+</xbrli:xbrl>`;
+
+describe('parseXbrlInstance', () => {
+  it('should map the facts of nested abstracts into their sections', () => {
+    const result = parseXbrlInstance(sample);
+
+    expect(result.filingType).toBe('Full');
+    expect(result.units).toEqual({ 'U-SGD': 'iso4217:SGD', 'U-Pure': 'xbrli:pure' });
+    expect(result.contexts.map(({ id, period }) => [id, period])).toEqual([
+      ['C-2022-FY', 'current'],
+      ['C-2022-BS', 'current'],
+      ['C-2021-BS', 'prior'],
+    ]);
+    expect(result.data.filingInformation).toMatchObject({
+      NameOfCompany: 'ACME Corporation',
+      CurrentPeriodEndDate: '2022-12-31',
+      WhetherTheFinancialStatementsArePreparedOnGoingConcernBasis: true,
+      NameAndVersionOfSoftwareUsedToGenerateXBRLFile: 'ACRA XBRL Generator v1.0',
+      NameOfParentEntity: null,
+    });
+    expect(result.data).toMatchObject({
+      auditReport: { AuditingStandardsUsedToConductTheAudit: 'ISA' },
+      statementOfFinancialPosition: {
+        currentAssets: { CashAndBankBalances: 150000 },
+        Assets: 1784000,
+      },
+      // Revenue of the income statement and of the revenue note are told apart by abstract
+      incomeStatement: { Revenue: 1000000 },
+      notes: { revenue: { Revenue: 120000 } },
+    });
+    expect(result.data.priorPeriod).toBeUndefined();
+    expect(result.unmappedElements).toEqual(
+      expect.arrayContaining(['NameOfDirector', 'EquityAndLiabilities'])
+    );
+    expect(result.warnings).toEqual([]);
+    expect(result.issues).toContain(
+      'filingInformation.UniqueEntityNumber: Invalid'
+    );
+  });
+
+  it('should place comparatives under priorPeriod and report facts it cannot import', () => {
+    const result = parseXbrlInstance(filed);
+
+    expect(result.filingType).toBe('Partial');
+    expect(result.factCount).toBe(8);
+    expect(result.data.incomeStatement).toEqual({ Revenue: 8400000 });
+    expect(result.data.statementOfFinancialPosition).toEqual({
+      currentAssets: { CashAndBankBalances: 1250000 },
+    });
+    expect(result.data.priorPeriod).toEqual({
+      statementOfFinancialPosition: { currentAssets: { CashAndBankBalances: 980000 } },
+    });
+    expect(result.warnings).toEqual([
+      'ShareCapital: context CurrentYearSegment has dimensions, which are not imported',
+      'Inventories: "n/a" is not a valid number',
+    ]);
+  });
+
+  it('should reject documents that are not XBRL instances', () => {
+    expect(() => parseXbrlInstance('<html><body/></html>')).toThrow(
+      'Not an XBRL instance: root element is html'
+    );
+    expect(() => parseXbrlInstance('<xbrl><unit></xbrl>')).toThrow(
+      /^Invalid XBRL instance: Unexpected close tag/
+    );
+  });
+});
+
+describe('toBaseline', () => {
+  it('should carry the statements forward as the comparatives of the next year', () => {
+    const baseline = toBaseline(parseXbrlInstance(filed).data);
+
+    expect(baseline).toEqual({
+      filingInformation: {
+        NameOfCompany: 'ACME PTE. LTD.',
+        TypeOfXBRLFiling: 'Partial',
+        CurrentPeriodStartDate: '2025-01-01',
+        CurrentPeriodEndDate: '2025-12-31',
+        PriorPeriodStartDate: '2024-01-01',
+      },
+      priorPeriod: {
+        statementOfFinancialPosition: { currentAssets: { CashAndBankBalances: 1250000 } },
+        incomeStatement: { Revenue: 8400000 },
+      },
+    });
+  });
+});
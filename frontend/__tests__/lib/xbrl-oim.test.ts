@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+import { toXbrlCsv, toXbrlJson } from '@/lib/xbrl-oim';
+import { XmlTransformError } from '@/lib/xml-transformer';
+
+const filing = {
+  filingInformation: {
+    NameOfCompany: 'ACME, "R&D" PTE. LTD.',
+    UniqueEntityNumber: '201912345A',
+    CurrentPeriodStartDate: '2024-01-01',
+    CurrentPeriodEndDate: '2024-12-31',
+    PriorPeriodStartDate: '2023-01-01',
+    LevelOfRoundingUsedInFinancialStatements: 'Thousands',
+    NameOfParentEntity: null,
+  },
+  statementOfFinancialPosition: { currentAssets: { CashAndBankBalances: 1250000 } },
+  incomeStatement: { Revenue: 8400000 },
+  priorPeriod: { incomeStatement: { Revenue: 7100000 } },
+};
+
+describe('toXbrlJson', () => {
+  it('should write each fact with its entity, period and unit dimensions', () => {
+    const document = toXbrlJson(filing);
+
+    expect(document.documentInfo).toEqual({
+      documentType: 'https://xbrl.org/2021/xbrl-json',
+      namespaces: expect.objectContaining({
+        'sg-as': 'http://www.acra.gov.sg/taxonomy/2022/sg-as',
+        iso4217: 'http://www.xbrl.org/2003/iso4217',
+        acra: 'http://www.acra.gov.sg',
+      }),
+      taxonomy: ['https://www.acra.gov.sg/xbrl-collection/taxonomy/2022/ACRA_Taxonomy_2022.xsd'],
+    });
+
+    const facts = Object.values(document.facts);
+    expect(facts).toContainEqual({
+      value: '7100000',
+      decimals: -3,
+      dimensions: {
+        concept: 'sg-as:Revenue',
+        entity: 'acra:201912345A',
+        period: '2023-01-01T00:00:00/2024-01-01T00:00:00',
+        unit: 'iso4217:SGD',
+      },
+    });
+    expect(facts).toContainEqual(
+      expect.objectContaining({
+        value: '1250000',
+        dimensions: expect.objectContaining({ period: '2025-01-01T00:00:00' }),
+      })
+    );
+    expect(facts).toContainEqual({
+      value: null,
+      dimensions: {
+        concept: 'sg-dei:NameOfParentEntity',
+        entity: 'acra:201912345A',
+        period: '2024-01-01T00:00:00/2025-01-01T00:00:00',
+      },
+    });
+  });
+});
+
+describe('toXbrlCsv', () => {
+  it('should write the metadata and a table per section', () => {
+    const files = toXbrlCsv(filing, 'acme');
+
+    expect(Object.keys(files)).toEqual([
+      'acme.json',
+      'acme-filingInformation.csv',
+      'acme-statementOfFinancialPosition.csv',
+      'acme-incomeStatement.csv',
+    ]);
+
+    const metadata = JSON.parse(files['acme.json']);
+    expect(metadata.documentInfo.documentType).toBe('https://xbrl.org/2021/xbrl-csv');
+    expect(metadata.tableTemplates.facts.dimensions).toEqual({ entity: 'acra:201912345A' });
+    expect(metadata.tables.incomeStatement).toEqual({ template: 'facts', url: 'acme-incomeStatement.csv' });
+
+    expect(files['acme-incomeStatement.csv']).toBe(
+      'concept,period,unit,decimals,value\n' +
+        'sg-as:Revenue,2024-01-01T00:00:00/2025-01-01T00:00:00,iso4217:SGD,-3,8400000\n' +
+        'sg-as:Revenue,2023-01-01T00:00:00/2024-01-01T00:00:00,iso4217:SGD,-3,7100000\n'
+    );
+    expect(files['acme-filingInformation.csv']).toContain(
+      'sg-dei:NameOfCompany,2024-01-01T00:00:00/2025-01-01T00:00:00,,,"ACME, ""R&D"" PTE. LTD."\n'
+    );
+    expect(files['acme-filingInformation.csv']).toContain(
+      'sg-dei:NameOfParentEntity,2024-01-01T00:00:00/2025-01-01T00:00:00,,,#nil\n'
+    );
+  });
+
+  it('should refuse data that cannot be written as an instance', () => {
+    expect(() => toXbrlCsv({ filingInformation: {}, incomeStatement: { Revenue: 1 } })).toThrow(
+      XmlTransformError
+    );
+  });
+});
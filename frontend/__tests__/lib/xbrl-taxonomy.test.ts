@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ARCROLES, LABEL_ROLES, loadTaxonomy, parseTaxonomy } from '@/lib/xbrl-taxonomy';
+
+const LINK = 'xmlns:link="http://www.xbrl.org/2003/linkbase" xmlns:xlink="http://www.w3.org/1999/xlink"';
+const STATEMENT_ROLE = 'http://www.acra.gov.sg/role/2022/IncomeStatement';
+
+const files: Record<string, string> = {
+  'META-INF/taxonomyPackage.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<tp:taxonomyPackage xmlns:tp="http://xbrl.org/2016/taxonomy-package">
+  <tp:name>ACRA Taxonomy</tp:name>
+  <tp:version>2022.2</tp:version>
+  <tp:entryPoints><tp:entryPoint><tp:entryPointDocument href="https://www.acra.gov.sg/xbrl-collection/taxonomy/2022/ACRA_Taxonomy_2022.xsd"/></tp:entryPoint></tp:entryPoints>
+</tp:taxonomyPackage>`,
+  'sg-as/sg-as-2022.xsd': `<?xml version="1.0" encoding="UTF-8"?>
+<xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xbrli="http://www.xbrl.org/2003/instance"
+  xmlns:sg-as="http://www.acra.gov.sg/taxonomy/2022/sg-as" targetNamespace="http://www.acra.gov.sg/taxonomy/2022/sg-as">
+  <xsd:element id="sg-as_ProfitLoss" name="ProfitLoss" type="xbrli:monetaryItemType" substitutionGroup="xbrli:item" xbrli:periodType="duration" xbrli:balance="credit" nillable="true"/>
+  <xsd:element id="sg-as_Revenue" name="Revenue" type="xbrli:monetaryItemType" substitutionGroup="xbrli:item" xbrli:periodType="duration" xbrli:balance="credit" nillable="true"/>
+  <xsd:element id="sg-as_Expenses" name="Expenses" type="xbrli:monetaryItemType" substitutionGroup="xbrli:item" xbrli:periodType="duration" xbrli:balance="debit" nillable="true"/>
+  <xsd:element id="sg-as_NumberOfEmployees" name="NumberOfEmployees" type="xbrli:sharesItemType" substitutionGroup="xbrli:item" xbrli:periodType="instant"/>
+  <xsd:element id="sg-as_IncomeStatementAbstract" name="IncomeStatementAbstract" type="xbrli:stringItemType" substitutionGroup="xbrli:item" xbrli:periodType="duration" abstract="true"/>
+</xsd:schema>`,
+  'sg-dei/sg-dei-2022.xsd': `<?xml version="1.0" encoding="UTF-8"?>
+<schema xmlns="http://www.w3.org/2001/XMLSchema" xmlns:xbrli="http://www.xbrl.org/2003/instance" targetNamespace="http://www.acra.gov.sg/taxonomy/2022/sg-dei">
+  <element id="sg-dei_WhetherFinancialStatementsArePreparedOnGoingConcernBasis" name="WhetherFinancialStatementsArePreparedOnGoingConcernBasis" type="xbrli:booleanItemType" substitutionGroup="xbrli:item" xbrli:periodType="duration"/>
+  <element id="sg-dei_CurrentPeriodEndDate" name="CurrentPeriodEndDate" type="xbrli:dateItemType" substitutionGroup="xbrli:item" xbrli:periodType="duration"/>
+</schema>`,
+  'sg-as/lab-en.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<link:linkbase ${LINK}>
+  <link:labelLink xlink:type="extended" xlink:role="http://www.xbrl.org/2003/role/link">
+    <link:loc xlink:type="locator" xlink:href="sg-as-2022.xsd#sg-as_Revenue" xlink:label="Revenue"/>
+    <link:label xlink:type="resource" xlink:label="Revenue_lbl" xlink:role="${LABEL_ROLES.standard}" xml:lang="en">Revenue</link:label>
+    <link:label xlink:type="resource" xlink:label="Revenue_lbl" xlink:role="${LABEL_ROLES.documentation}" xml:lang="en">Income arising in the course of ordinary activities</link:label>
+    <link:label xlink:type="resource" xlink:label="Revenue_lbl" xlink:role="${LABEL_ROLES.standard}" xml:lang="zh">收入</link:label>
+    <link:labelArc xlink:type="arc" xlink:arcrole="http://www.xbrl.org/2003/arcrole/concept-label" xlink:from="Revenue" xlink:to="Revenue_lbl"/>
+    <link:loc xlink:type="locator" xlink:href="sg-as-2022.xsd#sg-as_ProfitLoss" xlink:label="ProfitLoss"/>
+    <link:label xlink:type="resource" xlink:label="ProfitLoss_lbl" xlink:role="${LABEL_ROLES.standard}" xml:lang="en-SG">Profit (loss)</link:label>
+    <link:labelArc xlink:type="arc" xlink:arcrole="http://www.xbrl.org/2003/arcrole/concept-label" xlink:from="ProfitLoss" xlink:to="ProfitLoss_lbl"/>
+  </link:labelLink>
+</link:linkbase>`,
+  'sg-as/cal.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<link:linkbase ${LINK}>
+  <link:calculationLink xlink:type="extended" xlink:role="${STATEMENT_ROLE}">
+    <link:loc xlink:type="locator" xlink:href="sg-as-2022.xsd#sg-as_ProfitLoss" xlink:label="ProfitLoss"/>
+    <link:loc xlink:type="locator" xlink:href="sg-as-2022.xsd#sg-as_Revenue" xlink:label="Revenue"/>
+    <link:loc xlink:type="locator" xlink:href="sg-as-2022.xsd#sg-as_Expenses" xlink:label="Expenses"/>
+    <link:calculationArc xlink:type="arc" xlink:arcrole="${ARCROLES.summationItem}" xlink:from="ProfitLoss" xlink:to="Expenses" order="2" weight="-1"/>
+    <link:calculationArc xlink:type="arc" xlink:arcrole="${ARCROLES.summationItem}" xlink:from="ProfitLoss" xlink:to="Revenue" order="1" weight="1"/>
+  </link:calculationLink>
+</link:linkbase>`,
+  'sg-as/pre.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<link:linkbase ${LINK}>
+  <link:presentationLink xlink:type="extended" xlink:role="${STATEMENT_ROLE}">
+    <link:loc xlink:type="locator" xlink:href="sg-as-2022.xsd#sg-as_IncomeStatementAbstract" xlink:label="Abstract"/>
+    <link:loc xlink:type="locator" xlink:href="sg-as-2022.xsd#sg-as_Revenue" xlink:label="Revenue"/>
+    <link:loc xlink:type="locator" xlink:href="sg-as-2022.xsd#sg-as_ProfitLoss" xlink:label="ProfitLoss"/>
+    <link:presentationArc xlink:type="arc" xlink:arcrole="${ARCROLES.parentChild}" xlink:from="Abstract" xlink:to="Revenue" order="1"/>
+    <link:presentationArc xlink:type="arc" xlink:arcrole="${ARCROLES.parentChild}" xlink:from="Abstract" xlink:to="ProfitLoss" order="2" preferredLabel="${LABEL_ROLES.total}"/>
+    <link:presentationArc xlink:type="arc" xlink:arcrole="${ARCROLES.parentChild}" xlink:from="Abstract" xlink:to="ProfitLoss" order="2" use="prohibited"/>
+  </link:presentationLink>
+</link:linkbase>`,
+};
+
+describe('loadTaxonomy', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(path.join(os.tmpdir(), 'taxonomy-'));
+    Object.entries(files).forEach(([name, content]) => {
+      mkdirSync(path.dirname(path.join(directory, name)), { recursive: true });
+      writeFileSync(path.join(directory, name), content);
+    });
+    writeFileSync(path.join(directory, 'README.txt'), 'not part of the taxonomy');
+  });
+
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('should read the elements with their types, periods, balances and labels', async () => {
+    const catalog = await loadTaxonomy(directory);
+
+    expect(catalog.version).toBe('2022.2');
+    expect(catalog.packageInfo.entryPoints).toEqual([
+      'https://www.acra.gov.sg/xbrl-collection/taxonomy/2022/ACRA_Taxonomy_2022.xsd',
+    ]);
+    expect(catalog.elements).toHaveLength(7);
+    expect(catalog.get('sg-as:Revenue')).toEqual({
+      id: 'sg-as_Revenue',
+      prefix: 'sg-as',
+      name: 'Revenue',
+      namespace: 'http://www.acra.gov.sg/taxonomy/2022/sg-as',
+      dataType: 'xbrli:monetaryItemType',
+      substitutionGroup: 'xbrli:item',
+      periodType: 'duration',
+      balance: 'credit',
+      abstract: false,
+      nillable: true,
+      labels: {
+        [LABEL_ROLES.standard]: 'Revenue',
+        [LABEL_ROLES.documentation]: 'Income arising in the course of ordinary activities',
+      },
+    });
+    // Prefix from the ACRA namespaces when the schema declares none for itself
+    expect(catalog.get('CurrentPeriodEndDate')?.prefix).toBe('sg-dei');
+    expect(catalog.label('ProfitLoss', LABEL_ROLES.terse)).toBe('Profit (loss)');
+    expect(catalog.get('IncomeStatementAbstract')?.abstract).toBe(true);
+  });
+
+  it('should read the relationships of the linkbases', async () => {
+    const catalog = await loadTaxonomy(directory);
+
+    expect(catalog.childrenOf('ProfitLoss', 'calculation')).toEqual([
+      { role: STATEMENT_ROLE, arcrole: ARCROLES.summationItem, from: 'sg-as:ProfitLoss', to: 'sg-as:Revenue', order: 1, weight: 1 },
+      { role: STATEMENT_ROLE, arcrole: ARCROLES.summationItem, from: 'sg-as:ProfitLoss', to: 'sg-as:Expenses', order: 2, weight: -1 },
+    ]);
+    // The prohibited arc removes ProfitLoss from the presentation
+    expect(catalog.childrenOf('IncomeStatementAbstract', 'presentation').map(({ to }) => to)).toEqual([
+      'sg-as:Revenue',
+    ]);
+  });
+
+  it('should generate lookups and Zod schemas from the catalog', () => {
+    const catalog = parseTaxonomy(Object.entries(files).map(([name, content]) => ({ path: name, content })));
+
+    expect(catalog.findByLabel('PROFIT / (LOSS)').map(({ name }) => name)).toEqual(['ProfitLoss']);
+    expect(catalog.findByLabel('Profit')).toEqual([]);
+    // Schema fields named differently from their element are found through their alias
+    expect(catalog.get('WhetherTheFinancialStatementsArePreparedOnGoingConcernBasis')?.dataType).toBe(
+      'xbrli:booleanItemType'
+    );
+
+    const schema = catalog.zodSchema([
+      'Revenue',
+      'NumberOfEmployees',
+      'CurrentPeriodEndDate',
+      'WhetherTheFinancialStatementsArePreparedOnGoingConcernBasis',
+    ]);
+    expect(
+      schema.safeParse({
+        Revenue: null,
+        NumberOfEmployees: 12,
+        CurrentPeriodEndDate: '2024-12-31',
+        WhetherTheFinancialStatementsArePreparedOnGoingConcernBasis: true,
+      }).success
+    ).toBe(true);
+    expect(schema.safeParse({ NumberOfEmployees: 1.5 }).success).toBe(false);
+    expect(schema.safeParse({ CurrentPeriodEndDate: '31/12/2024' }).success).toBe(false);
+    expect(schema.shape.Revenue.description).toBe('Income arising in the course of ordinary activities');
+    expect(() => catalog.zodType('Unknown')).toThrow('Unknown taxonomy element: Unknown');
+  });
+
+  it('should reject files that are not well-formed', () => {
+    expect(() => parseTaxonomy([{ path: 'broken.xsd', content: '<schema><element></schema>' }])).toThrow(
+      /^Invalid taxonomy file broken.xsd: /
+    );
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import ExcelJS from 'exceljs';
+import { loadWorkbook } from '@/lib/xlsx';
+
+async function trialBalance(rowCount: number): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Trial balance');
+  sheet.getCell('A1').value = 'Account';
+  sheet.getCell('C1').value = 'Debit';
+  for (let row = 2; row <= rowCount; row++) {
+    sheet.getCell(`A${row}`).value = `Account ${row}`;
+    sheet.getCell(`C${row}`).value = row * 100;
+  }
+  sheet.getCell(`C${rowCount + 2}`).value = { formula: `SUM(C2:C${rowCount})`, result: 4200 };
+  workbook.addWorksheet('Empty');
+  return workbook.xlsx.writeBuffer();
+}
+
+describe('loadWorkbook', () => {
+  it('should keep the sheet, row numbers and column letters of every value', async () => {
+    const [page, ...others] = await loadWorkbook(await trialBalance(3));
+
+    expect(others).toEqual([]);
+    expect(page.metadata).toEqual({
+      loc: { pageNumber: 1, sheet: 'Trial balance', rows: { from: 1, to: 5 } },
+      tableCount: 1,
+    });
+    expect(page.pageContent).toBe(
+      [
+        'Sheet: Trial balance (rows 1-5)',
+        '',
+        '[Table: page 1]',
+        '| Row | A | C |',
+        '| --- | --- | --- |',
+        '| 1 | Account | Debit |',
+        '| 2 | Account 2 | 200 |',
+        '| 3 | Account 3 | 300 |',
+        '| 5 |  | 4200 |',
+      ].join('\n'),
+    );
+  });
+
+  it('should split long sheets into pages of rows', async () => {
+    const pages = await loadWorkbook(await trialBalance(80));
+
+    expect(pages.map(({ metadata }) => metadata.loc.rows)).toEqual([
+      { from: 1, to: 50 },
+      { from: 51, to: 82 },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+import { parseXbrlInstance } from '@/lib/xbrl-import';
+import { parseAmountNormalization, XmlTransformer, XmlTransformError } from '@/lib/xml-transformer';
+
+const filing = {
+  filingInformation: {
+    NameOfCompany: 'ACME R&D PTE. LTD.',
+    UniqueEntityNumber: '201912345A',
+    CurrentPeriodStartDate: '2024-01-01',
+    CurrentPeriodEndDate: '2024-12-31',
+    PriorPeriodStartDate: '2023-01-01',
+    TypeOfXBRLFiling: 'Partial',
+    DescriptionOfPresentationCurrency: 'SGD',
+    LevelOfRoundingUsedInFinancialStatements: 'Thousands',
+    WhetherTheFinancialStatementsArePreparedOnGoingConcernBasis: true,
+    NameOfParentEntity: null,
+  },
+  auditReport: { TypeOfAuditOpinionInIndependentAuditorsReport: 'Unqualified' },
+  statementOfFinancialPosition: {
+    currentAssets: { CashAndBankBalances: 1250000, CurrentAssets: 1900000 },
+  },
+  incomeStatement: { Revenue: 8400000 },
+  priorPeriod: {
+    statementOfFinancialPosition: { currentAssets: { CashAndBankBalances: 980000 } },
+    incomeStatement: { Revenue: 7100000 },
+  },
+};
+
+describe('XmlTransformer', () => {
+  it('should write the JSON model as an instance that imports back unchanged', () => {
+    const xml = XmlTransformer.toXml(filing);
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<xbrli:xbrl /);
+    expect(xml).toContain(
+      '<link:schemaRef xlink:type="simple" xlink:href="https://www.acra.gov.sg/xbrl-collection/taxonomy/2022/ACRA_Taxonomy_2022.xsd"/>'
+    );
+    expect(xml).toContain('<xbrli:unit id="SGD">');
+    expect(xml).toContain(
+      '<sg-as:Revenue contextRef="CurrentYearDuration" unitRef="SGD" decimals="-3">8400000</sg-as:Revenue>'
+    );
+    expect(xml).toContain(
+      '<sg-as:CashAndBankBalances contextRef="PriorYearInstant" unitRef="SGD" decimals="-3">980000</sg-as:CashAndBankBalances>'
+    );
+    expect(xml).toContain(
+      '<sg-dei:WhetherFinancialStatementsArePreparedOnGoingConcernBasis contextRef="CurrentYearDuration">true<'
+    );
+    expect(xml).toContain('<sg-ssa:TypeOfAuditOpinionInIndependentAuditorsReport contextRef="CurrentYearDuration">');
+    expect(xml).toContain('<sg-dei:NameOfParentEntity contextRef="CurrentYearDuration" xsi:nil="true"/>');
+
+    const imported = parseXbrlInstance(xml);
+    expect(imported.warnings).toEqual([]);
+    expect(imported.unmappedElements).toEqual([]);
+    expect(imported.data).toEqual(filing);
+    expect(imported.contexts.find(({ id }) => id === 'CurrentYearInstant')).toMatchObject({
+      identifier: '201912345A',
+      instant: '2024-12-31',
+    });
+  });
+
+  it('should take the decimals and unit of normalized amounts from the normalization', () => {
+    const converted = {
+      ...filing,
+      filingInformation: { ...filing.filingInformation, DescriptionOfPresentationCurrency: 'USD' },
+    };
+
+    const instance = XmlTransformer.toInstance(converted, {
+      normalization: { decimals: -3, currency: 'SGD' },
+    });
+
+    expect(instance.units).toContainEqual({ id: 'SGD', measure: 'iso4217:SGD' });
+    expect(instance.facts.find(({ name }) => name === 'Revenue')).toMatchObject({
+      unitRef: 'SGD',
+      decimals: '-3',
+    });
+    // The declared presentation currency is still reported as filed
+    expect(instance.facts.find(({ name }) => name === 'DescriptionOfPresentationCurrency')?.value).toBe('USD');
+    expect(
+      XmlTransformer.toInstance(filing, { normalization: { decimals: 0, currency: 'SGD' } }).facts.find(
+        ({ name }) => name === 'Revenue'
+      )?.decimals
+    ).toBe('0');
+  });
+
+  it('should read the normalization of a request parameter', () => {
+    expect(parseAmountNormalization(null)).toEqual({});
+    expect(
+      parseAmountNormalization('{"decimals":-3,"currency":"SGD","roundingLevel":"Thousands"}').value
+    ).toMatchObject({ decimals: -3, currency: 'SGD' });
+    expect(parseAmountNormalization('{"decimals":"-3","currency":"SGD"}').error).toBe(
+      'Expected an object with integer decimals and an ISO 4217 currency'
+    );
+    expect(parseAmountNormalization('{').error).toBeDefined();
+  });
+
+  it('should write tagged data with the elements it was tagged with', () => {
+    const tag = (prefix: string, name: string, dataType: string, periodType: string) => [
+      { prefix, element_name: name, data_type: dataType, period_type: periodType },
+    ];
+    const tagged = {
+      filing_information: {
+        company_uen: { value: '201912345A', tags: tag('sg-dei', 'UniqueEntityNumber', 'sg-types:UENItemType', 'duration') },
+        start: { value: '2024-01-01', tags: tag('sg-dei', 'CurrentPeriodStartDate', 'xbrli:dateItemType', 'instant') },
+        end: { value: '2024-12-31', tags: tag('sg-dei', 'CurrentPeriodEndDate', 'xbrli:dateItemType', 'instant') },
+      },
+      financial_position: {
+        current_assets: {
+          cash: { value: '1,250', tags: tag('sg-as', 'CashAndBankBalances', 'xbrli:monetaryItemType', 'instant') },
+        },
+      },
+      shares: { value: 50000, tags: tag('sg-as', 'NumberOfSharesIssued', 'xbrli:sharesItemType', 'instant') },
+      untagged: { value: 'ignored', tags: [] },
+    };
+
+    const xml = XmlTransformer.toXml(tagged, { compact: true, includeDeclaration: false });
+
+    expect(xml).not.toContain('\n');
+    expect(xml).toContain(
+      '<sg-as:CashAndBankBalances contextRef="CurrentYearInstant" unitRef="SGD" decimals="0">1250</sg-as:CashAndBankBalances>'
+    );
+    expect(xml).toContain(
+      '<sg-as:NumberOfSharesIssued contextRef="CurrentYearInstant" unitRef="Shares" decimals="0">50000</sg-as:NumberOfSharesIssued>'
+    );
+    expect(xml).toContain('<xbrli:unit id="Shares"><xbrli:measure>xbrli:shares</xbrli:measure></xbrli:unit>');
+    expect(xml).not.toContain('ignored');
+  });
+
+  it('should list every problem that keeps the data from being a valid instance', () => {
+    const invalid = {
+      filingInformation: { CurrentPeriodEndDate: '2024-12-31' },
+      incomeStatement: { Revenue: 8400000 },
+      notes: { revenue: { Revenue: 8000000 } },
+    };
+
+    expect(() => XmlTransformer.toXml(invalid)).toThrow(XmlTransformError);
+    try {
+      XmlTransformer.toXml(invalid);
+    } catch (error) {
+      expect((error as XmlTransformError).details).toEqual([
+        'UniqueEntityNumber is required as the entity identifier',
+        'Context CurrentYearDuration needs the period dates of the filing',
+      ]);
+    }
+
+    expect(() =>
+      XmlTransformer.toXml({
+        ...invalid,
+        filingInformation: { ...filing.filingInformation },
+      })
+    ).toThrow('sg-as:Revenue: 8400000 and 8000000 reported in CurrentYearDuration');
+  });
+
+  it('should write other data as plain XML', () => {
+    expect(XmlTransformer.toXml({ a: { b: 'c' } }, { spaces: 0 })).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><root><a><b>c</b></a></root>'
+    );
+    expect(XmlTransformer.toXml(filing, { detectXbrl: false, includeDeclaration: false })).toMatch(
+      /^<root>\n {2}<filingInformation>/
+    );
+  });
+});
@@ -1,5 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Logger, LogLevel } from '@/lib/logger';
+import { evaluateRules, RuleSeverity } from '@/lib/business-rules';
+import {
+  CalculationInconsistency,
+  describeInconsistency,
+  validateCalculations
+} from '@/lib/xbrl-calculation';
+import { ElementCatalog, loadTaxonomy } from '@/lib/xbrl-taxonomy';
+import { parseAmountNormalization, XmlTransformer, XmlTransformError } from '@/lib/xml-transformer';
+import {
+  ApiError,
+  BadRequestError,
+  ServiceUnavailableError,
+  safeJsonParse,
+  withErrorHandler
+} from '@/middleware/errorHandler';
 
 const logger = Logger.getInstance({
   minLevel: LogLevel.DEBUG,
@@ -10,6 +25,29 @@ const logger = Logger.getInstance({
 const SERVICE_NAME = 'mapping-validation-api';
 const MAPPING_API_URL = process.env.MAPPING_API_URL || 'http://localhost:8000/api/v1/mapping/partial-xbrl/';
 const VALIDATION_API_URL = process.env.VALIDATION_API_URL || 'http://localhost:8000/api/v1/validation/process/';
+const TAXONOMY_DIR = process.env.ACRA_TAXONOMY_DIR;
+
+let taxonomy: Promise<ElementCatalog> | undefined;
+
+/**
+ * The ACRA taxonomy the calculation checks use, loaded from `ACRA_TAXONOMY_DIR` once and
+ * kept for later requests, or undefined when none is configured. A failed load is
+ * retried on the next request.
+ */
+function getTaxonomy(): Promise<ElementCatalog> | undefined {
+  if (!TAXONOMY_DIR) return undefined;
+  taxonomy ??= loadTaxonomy(TAXONOMY_DIR).catch((error) => {
+    taxonomy = undefined;
+    throw new ServiceUnavailableError('Failed to load the ACRA taxonomy', String(error));
+  });
+  return taxonomy;
+}
+
+const SEVERITIES: Record<RuleSeverity, 'ERROR' | 'WARNING' | 'INFO'> = {
+  error: 'ERROR',
+  warning: 'WARNING',
+  info: 'INFO'
+};
 
 function validateDocumentId(documentId: string | null): documentId is string {
   return Boolean(documentId && documentId.trim().length > 0);
@@ -178,4 +216,94 @@ export async function GET(request: NextRequest) {
       500
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Handles POST requests to validate the filing in the body locally, without the
+ * validation service:
+ * 1. Evaluates the business rules of the rule catalog (`lib/acra-business-rules.json`)
+ * 2. Checks the facts against the calculation linkbase of the taxonomy in
+ *    `ACRA_TAXONOMY_DIR`, when one is configured
+ * The response has the structure of the validation service's, with the findings under
+ * `validation_errors.business_rules` and `validation_errors.calculation`. Only errors
+ * make the filing invalid; warnings and information are reported alongside.
+ * Amounts normalized to units are checked at the precision given by the `normalization`
+ * query parameter, the extraction's `normalization` as JSON.
+ */
+export const POST = withErrorHandler(SERVICE_NAME, async (request: NextRequest) => {
+  const requestId = crypto.randomUUID();
+  logger.info(`Processing POST request [${requestId}] to validate locally`, SERVICE_NAME);
+
+  const parsed = safeJsonParse(await request.text());
+  if (!parsed.ok) {
+    throw new BadRequestError('Invalid JSON format in request body', parsed.error);
+  }
+
+  const normalization = parseAmountNormalization(new URL(request.url).searchParams.get('normalization'));
+  if (normalization.error) {
+    throw new BadRequestError('Invalid normalization parameter', normalization.error);
+  }
+
+  const violations = evaluateRules(parsed.value);
+
+  const catalog = await getTaxonomy();
+  let inconsistencies: CalculationInconsistency[] | undefined;
+  if (catalog) {
+    let instance;
+    try {
+      instance = XmlTransformer.toInstance(parsed.value, { normalization: normalization.value });
+    } catch (error) {
+      if (error instanceof XmlTransformError) {
+        throw new ApiError('Data cannot be validated as an XBRL filing', 422, error.details);
+      }
+      throw error;
+    }
+    const result = validateCalculations(instance, catalog.relationships.calculation);
+    inconsistencies = result.inconsistencies;
+    logger.info(
+      `Checked ${result.checked} calculations for request [${requestId}]: ${inconsistencies.length} inconsistent`,
+      SERVICE_NAME
+    );
+  } else {
+    logger.warn('ACRA_TAXONOMY_DIR is not set; skipping the calculation checks', SERVICE_NAME);
+  }
+
+  const validationErrors: Record<string, object[]> = {};
+  if (violations.length > 0) {
+    validationErrors.business_rules = violations.map((violation) => ({
+      message: violation.message,
+      error_type: violation.rule,
+      severity: SEVERITIES[violation.severity],
+      recommendation: `Check ${violation.paths.join(', ')}`
+    }));
+  }
+  if (inconsistencies && inconsistencies.length > 0) {
+    validationErrors.calculation = inconsistencies.map((inconsistency) => ({
+      message: describeInconsistency(inconsistency),
+      error_type: 'calculation_inconsistency',
+      severity: 'ERROR',
+      actual_value: inconsistency.reported,
+      recommendation: `Check ${inconsistency.total} and its items; they differ by ${inconsistency.difference}`
+    }));
+  }
+  const isValid =
+    !violations.some(({ severity }) => severity === 'error') && !inconsistencies?.length;
+
+  return NextResponse.json(
+    {
+      validation_status: isValid ? 'success' : 'error',
+      is_valid: isValid,
+      validation_timestamp: new Date().toISOString(),
+      taxonomy_version: catalog?.version ?? '',
+      validation_errors: validationErrors,
+      rule_violations: violations,
+      ...(inconsistencies && { calculation_inconsistencies: inconsistencies })
+    },
+    {
+      status: 200,
+      headers: {
+        'X-Request-ID': requestId
+      }
+    }
+  );
+});
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Logger, LogLevel } from '@/lib/logger';
-import { XmlTransformer, XmlTransformError, TransformOptions } from '@/lib/xml-transformer';
-import { withErrorHandler, safeJsonParse, ServiceUnavailableError } from '@/middleware/errorHandler';
-import convert from 'xml-js';
+import { parseAmountNormalization, XmlTransformer, XmlTransformError, TransformOptions } from '@/lib/xml-transformer';
+import { toInlineXbrl } from '@/lib/ixbrl';
+import {
+  withErrorHandler,
+  safeJsonParse,
+  BadRequestError,
+  ServiceUnavailableError
+} from '@/middleware/errorHandler';
 
 const logger = Logger.getInstance({
   minLevel: LogLevel.DEBUG,
@@ -12,173 +17,170 @@ const logger = Logger.getInstance({
 
 const SERVICE_NAME = 'json-to-xml-api';
 
+/** Body of a tagging result API response, with the tagged data under `data`. */
+interface TaggingResultResponse {
+  success?: boolean;
+  message?: string;
+  data?: unknown;
+}
+
 /**
- * Handles GET requests to convert tagged JSON data to XML
- * 
- * @param request The incoming NextRequest object
+ * Converts JSON data to an XML response with the options given in the query string.
+ * With `format=ixbrl` the response is an Inline XBRL (XHTML) document instead of the
+ * XML instance. Data that cannot be written as a valid XBRL instance is answered with
+ * 422 and the list of problems.
+ *
+ * @param jsonData The data to convert
+ * @param searchParams Query parameters with the conversion options
+ * @param requestId Identifier of the request, echoed in the response headers
  * @returns XML response or error in appropriate format
  */
-export async function GET(request: NextRequest) {
-  const requestId = crypto.randomUUID();
-  logger.info(`Processing GET request [${requestId}] to convert JSON to XML`, SERVICE_NAME);
-
-  try {
-    // Get documentId from query parameter
-    const { searchParams } = new URL(request.url);
-    const documentId = searchParams.get('documentId');
-    const compact = searchParams.get('compact') === 'true';
-    const spaces = Number(searchParams.get('spaces') || '2');
-
-    if (!documentId) {
-      logger.warn('No documentId provided in query parameters', SERVICE_NAME);
-      return NextResponse.json(
-        { message: 'Bad request', error: 'documentId is required as a query parameter' },
-        { status: 400 }
-      );
-    }
-
-    logger.debug(`Converting JSON to XML for documentId: ${documentId}`, SERVICE_NAME);
-    logger.debug(`Using conversion options - compact: ${compact}, spaces: ${spaces}`, SERVICE_NAME);
-
-    // Construct URL for the tagging result API
-    const API_URL = new URL('/api/tag/result', request.url);
-    API_URL.searchParams.set('documentId', documentId);
-
-    logger.debug(`Fetching data from tagging result API: ${API_URL.toString()}`, SERVICE_NAME);
-
-    // Fetch tagged data from the existing API
-    let resultResponse;
-    try {
-      resultResponse = await fetch(API_URL, {
-        method: 'GET',
-        headers: {
-          'X-Request-ID': requestId,
-          'Content-Type': 'application/json',
-        }
-      });
-      logger.debug(`Received response from tagging result API with status: ${resultResponse.status}`, SERVICE_NAME);
-    } catch (fetchError) {
-      logger.error(`Failed to connect to tagging result API: ${String(fetchError)}`, SERVICE_NAME);
-      return NextResponse.json(
-        { message: 'Failed to connect to tagging result API', error: String(fetchError) },
-        { status: 503 }
-      );
+function convertToXmlResponse(jsonData: unknown, searchParams: URLSearchParams, requestId: string) {
+  const transformOptions: TransformOptions = {
+    compact: searchParams.get('compact') === 'true',
+    spaces: Number(searchParams.get('spaces') || '2'),
+    fullTagEmptyElement: true,
+    detectXbrl: true,
+    indentAttributes: searchParams.get('indentAttributes') === 'true',
+    includeDeclaration: searchParams.get('includeDeclaration') !== 'false'
+  };
+  logger.debug(`Using conversion options - compact: ${transformOptions.compact}, spaces: ${transformOptions.spaces}`, SERVICE_NAME);
+
+  // Add custom namespaces if provided
+  const customNamespaces = searchParams.get('namespaces');
+  if (customNamespaces) {
+    const parsed = safeJsonParse<Record<string, string>>(customNamespaces);
+    if (parsed.ok) {
+      transformOptions.customNamespaces = parsed.value;
+    } else {
+      logger.warn(`Invalid namespaces parameter: ${parsed.error}`, SERVICE_NAME);
     }
+  }
 
-    if (!resultResponse.ok) {
-      let errorData;
-      try {
-        errorData = await resultResponse.json();
-      } catch (e) {
-        errorData = await resultResponse.text();
-      }
+  // Amounts normalized to units are written with the decimals and currency they were normalized to
+  const normalization = parseAmountNormalization(searchParams.get('normalization'));
+  if (normalization.error) {
+    throw new BadRequestError('Invalid normalization parameter', normalization.error);
+  }
+  transformOptions.normalization = normalization.value;
 
-      logger.error(`Error from tagging result API: ${JSON.stringify(errorData)}`, SERVICE_NAME);
+  const inline = searchParams.get('format') === 'ixbrl';
+  let xmlResult;
+  try {
+    xmlResult = inline
+      ? toInlineXbrl(jsonData, transformOptions)
+      : XmlTransformer.toXml(jsonData, transformOptions);
+    logger.debug(`Successfully converted JSON to XML`, SERVICE_NAME);
+  } catch (conversionError) {
+    if (conversionError instanceof XmlTransformError) {
+      logger.warn(`Data cannot be written as an XBRL instance: ${conversionError.message}`, SERVICE_NAME);
       return NextResponse.json(
-        { message: 'Error from tagging result API', error: errorData },
-        { status: resultResponse.status }
+        { message: 'Data cannot be written as an XBRL instance', error: conversionError.details },
+        { status: 422 }
       );
     }
+    logger.error(`Error converting JSON to XML: ${String(conversionError)}`, SERVICE_NAME);
+    return NextResponse.json(
+      { message: 'Error converting JSON to XML', error: String(conversionError) },
+      { status: 500 }
+    );
+  }
 
-    // Get the response body as text first
-    let responseBody;
-    try {
-      responseBody = await resultResponse.text();
-      logger.debug(`Received text response from tagging API, length: ${responseBody.length} bytes`, SERVICE_NAME);
-    } catch (textError) {
-      logger.error(`Error reading response text: ${String(textError)}`, SERVICE_NAME);
-      return NextResponse.json(
-        { message: 'Error reading response from tagging API', error: String(textError) },
-        { status: 500 }
-      );
+  return new NextResponse(xmlResult, {
+    headers: {
+      'Content-Type': inline ? 'application/xhtml+xml' : 'application/xml',
+      'X-Request-ID': requestId
     }
+  });
+}
 
-    // Try to parse the JSON
-    let jsonData;
-    try {
-      jsonData = JSON.parse(responseBody);
-      logger.debug(`Successfully parsed JSON data from tagging API`, SERVICE_NAME);
-
-      // Check if the API returned a success response
-      if (!jsonData.success) {
-        logger.error(`Tagging API returned error: ${jsonData.message || 'Unknown error'}`, SERVICE_NAME);
-        return NextResponse.json(
-          { message: 'Error from tagging API', error: jsonData.message || 'Unknown error' },
-          { status: 400 }
-        );
-      }
+/**
+ * Handles GET requests to convert tagged JSON data to XML
+ * 
+ * @param request The incoming NextRequest object
+ * @returns XML response or error in appropriate format
+ */
+export const GET = withErrorHandler(SERVICE_NAME, async (request: NextRequest) => {
+  const requestId = crypto.randomUUID();
+  logger.info(`Processing GET request [${requestId}] to convert JSON to XML`, SERVICE_NAME);
 
-      // Extract the actual data if it's wrapped in a response structure
-      if (jsonData.data && typeof jsonData.data === 'object') {
-        logger.debug(`Found data property in response, using it for conversion`, SERVICE_NAME);
-        jsonData = jsonData.data;
-      }
-    } catch (parseError) {
-      logger.error(`Error parsing JSON from tagging API: ${String(parseError)}`, SERVICE_NAME);
+  // Get documentId from query parameter
+  const { searchParams } = new URL(request.url);
+  const documentId = searchParams.get('documentId');
 
-      // If parsing fails, try to return a meaningful error
-      let errorMessage = `Failed to parse JSON: ${String(parseError)}`;
-      let errorDetails = "Response could not be parsed as valid JSON";
+  if (!documentId) {
+    throw new BadRequestError('Bad request', 'documentId is required as a query parameter');
+  }
 
-      // Show a snippet of the response for debugging
-      const previewLength = Math.min(200, responseBody.length);
-      errorDetails += `\nResponse preview: ${responseBody.substring(0, previewLength)}${previewLength < responseBody.length ? '...' : ''}`;
+  logger.debug(`Converting JSON to XML for documentId: ${documentId}`, SERVICE_NAME);
 
-      return NextResponse.json(
-        { message: errorMessage, error: errorDetails },
-        { status: 500 }
-      );
-    }
+  // Construct URL for the tagging result API
+  const API_URL = new URL('/api/tag/result', request.url);
+  API_URL.searchParams.set('documentId', documentId);
 
-    // Convert JSON to XML using our specialized transformer
-    let xmlResult;
-    try {
-      // Define transformation options
-      const transformOptions: TransformOptions = {
-        compact,
-        spaces,
-        fullTagEmptyElement: true,
-        detectXbrl: true,
-        indentAttributes: searchParams.get('indentAttributes') === 'true',
-        includeDeclaration: searchParams.get('includeDeclaration') !== 'false'
-      };
-
-      // Add custom namespaces if provided
-      const customNamespaces = searchParams.get('namespaces');
-      if (customNamespaces) {
-        try {
-          transformOptions.customNamespaces = JSON.parse(customNamespaces);
-        } catch (parseError) {
-          logger.warn(`Invalid namespaces parameter: ${String(parseError)}`, SERVICE_NAME);
-        }
-      }
+  logger.debug(`Fetching data from tagging result API: ${API_URL.toString()}`, SERVICE_NAME);
 
-      // Use the specialized transformer
-      xmlResult = XmlTransformer.toXml(jsonData, transformOptions);
-      logger.debug(`Successfully converted JSON to XML`, SERVICE_NAME);
-    } catch (conversionError) {
-      logger.error(`Error converting JSON to XML: ${String(conversionError)}`, SERVICE_NAME);
-      return NextResponse.json(
-        { message: 'Error converting JSON to XML', error: String(conversionError) },
-        { status: 500 }
-      );
-    }
-
-    // Return the XML result
-    return new NextResponse(xmlResult, {
+  // Fetch tagged data from the existing API
+  let resultResponse;
+  try {
+    resultResponse = await fetch(API_URL, {
+      method: 'GET',
       headers: {
-        'Content-Type': 'application/xml',
-        'X-Request-ID': requestId
+        'X-Request-ID': requestId,
+        'Content-Type': 'application/json',
       }
     });
-  } catch (error) {
-    logger.error(`Internal server error: ${String(error)}`, SERVICE_NAME);
+    logger.debug(`Received response from tagging result API with status: ${resultResponse.status}`, SERVICE_NAME);
+  } catch (fetchError) {
+    throw new ServiceUnavailableError('Failed to connect to tagging result API', String(fetchError));
+  }
+
+  const responseBody = await resultResponse.text();
+  logger.debug(`Received text response from tagging API, length: ${responseBody.length} bytes`, SERVICE_NAME);
+  const parsed = safeJsonParse<TaggingResultResponse>(responseBody);
+
+  if (!resultResponse.ok) {
+    const errorData = parsed.ok ? parsed.value : responseBody;
+    logger.error(`Error from tagging result API: ${JSON.stringify(errorData)}`, SERVICE_NAME);
     return NextResponse.json(
-      { message: 'Internal server error', error: String(error) },
+      { message: 'Error from tagging result API', error: errorData },
+      { status: resultResponse.status }
+    );
+  }
+
+  if (!parsed.ok) {
+    logger.error(`Error parsing JSON from tagging API: ${parsed.error}`, SERVICE_NAME);
+
+    // Show a snippet of the response for debugging
+    const previewLength = Math.min(200, responseBody.length);
+    const errorDetails = 'Response could not be parsed as valid JSON' +
+      `\nResponse preview: ${responseBody.substring(0, previewLength)}${previewLength < responseBody.length ? '...' : ''}`;
+
+    return NextResponse.json(
+      { message: `Failed to parse JSON: ${parsed.error}`, error: errorDetails },
       { status: 500 }
     );
   }
-}
+
+  // Check if the API returned a success response
+  const result = parsed.value;
+  if (!result.success) {
+    logger.error(`Tagging API returned error: ${result.message || 'Unknown error'}`, SERVICE_NAME);
+    return NextResponse.json(
+      { message: 'Error from tagging API', error: result.message || 'Unknown error' },
+      { status: 400 }
+    );
+  }
+
+  // Extract the actual data if it's wrapped in a response structure
+  let jsonData: unknown = result;
+  if (result.data && typeof result.data === 'object') {
+    logger.debug(`Found data property in response, using it for conversion`, SERVICE_NAME);
+    jsonData = result.data;
+  }
+
+  return convertToXmlResponse(jsonData, searchParams, requestId);
+});
 
 /**
  * Utility functions for analyzing and describing the content of JSON data
@@ -258,73 +260,14 @@ const JsonAnalyzer = {
  * Handles POST requests to convert provided JSON data to XML
  * Allows clients to directly post JSON data for conversion
  */
-export async function POST(request: NextRequest) {
+export const POST = withErrorHandler(SERVICE_NAME, async (request: NextRequest) => {
   const requestId = crypto.randomUUID();
   logger.info(`Processing POST request [${requestId}] to convert JSON to XML`, SERVICE_NAME);
 
-  try {
-    // Get options from query parameters
-    const { searchParams } = new URL(request.url);
-    const compact = searchParams.get('compact') === 'true';
-    const spaces = Number(searchParams.get('spaces') || '2');
-
-    // Parse JSON body
-    let jsonData;
-    try {
-      jsonData = await request.json();
-    } catch (parseError) {
-      logger.error(`Error parsing JSON body: ${String(parseError)}`, SERVICE_NAME);
-      return NextResponse.json(
-        { message: 'Invalid JSON format in request body', error: String(parseError) },
-        { status: 400 }
-      );
-    }
-
-    // Convert JSON to XML using our specialized transformer
-    let xmlResult;
-    try {
-      // Define transformation options
-      const transformOptions: TransformOptions = {
-        compact,
-        spaces,
-        fullTagEmptyElement: true,
-        detectXbrl: true,
-        indentAttributes: searchParams.get('indentAttributes') === 'true',
-        includeDeclaration: searchParams.get('includeDeclaration') !== 'false'
-      };
-
-      // Add custom namespaces if provided
-      const customNamespaces = searchParams.get('namespaces');
-      if (customNamespaces) {
-        try {
-          transformOptions.customNamespaces = JSON.parse(customNamespaces);
-        } catch (parseError) {
-          logger.warn(`Invalid namespaces parameter: ${String(parseError)}`, SERVICE_NAME);
-        }
-      }
-
-      // Use the specialized transformer
-      xmlResult = XmlTransformer.toXml(jsonData, transformOptions);
-      logger.debug(`Successfully converted JSON to XML`, SERVICE_NAME);
-    } catch (conversionError) {
-      logger.error(`Error converting JSON to XML: ${String(conversionError)}`, SERVICE_NAME);
-      return NextResponse.json(
-        { message: 'Error converting JSON to XML', error: String(conversionError) },
-        { status: 500 }
-      );
-    }
-
-    return new NextResponse(xmlResult, {
-      headers: {
-        'Content-Type': 'application/xml',
-        'X-Request-ID': requestId
-      }
-    });
-  } catch (error) {
-    logger.error(`Internal server error: ${String(error)}`, SERVICE_NAME);
-    return NextResponse.json(
-      { message: 'Internal server error', error: String(error) },
-      { status: 500 }
-    );
+  const parsed = safeJsonParse(await request.text());
+  if (!parsed.ok) {
+    throw new BadRequestError('Invalid JSON format in request body', parsed.error);
   }
-}
\ No newline at end of file
+
+  return convertToXmlResponse(parsed.value, new URL(request.url).searchParams, requestId);
+});
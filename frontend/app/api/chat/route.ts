@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/langgraph-server';
 import { createClient } from '@supabase/supabase-js';
+import { getAuthenticatedUserId } from '@/lib/auth';
 import { retrievalAssistantStreamConfig } from '@/constants/graphConfigs';
+import { XBRLFilingType } from '@/types/graphTypes';
 
 export const runtime = 'edge';
 
@@ -10,16 +12,22 @@ const ERROR_MESSAGES = {
   MISSING_SUPABASE_CONFIG: 'Supabase configuration is incomplete',
   INVALID_THREAD_ID: 'Valid thread ID is required',
   MISSING_MESSAGE: 'Message content is required',
+  INVALID_FILING_TYPE: 'xbrlFilingType must be either "Full" or "Partial"',
   MISSING_ASSISTANT_ID: 'Assistant ID not configured',
   SERVER_ERROR: 'Internal server error',
   FETCH_MESSAGES_ERROR: 'Error fetching messages',
   STREAM_ERROR: 'Streaming error occurred',
   SUPABASE_INSERT_ERROR: 'Error inserting message into database',
+  MISSING_SESSION_DOCUMENT: 'No ingested document found for this thread',
+  INVALID_ACCESS_TOKEN: 'Invalid or expired access token',
+  FORBIDDEN_THREAD: 'This thread belongs to another user',
   REQUEST_TIMEOUT: 'Request timed out'
 };
 
 const TIMEOUT_MS = 30000; // 30 seconds timeout
 
+const XBRL_FILING_TYPES: XBRLFilingType[] = ['Full', 'Partial'];
+
 /**
  * Creates and returns a Supabase client with error handling
  */
@@ -233,11 +241,13 @@ export async function POST(req: Request) {
 
   try {
     // Parse request body with error handling
-    let message, threadId;
+    let message, threadId, sessionId, requestedFilingType;
     try {
       const body = await req.json();
       message = body.message;
       threadId = body.threadId;
+      sessionId = body.sessionId;
+      requestedFilingType = body.xbrlFilingType;
 
       console.log(`[API][${requestId}] Message received for threadId: ${threadId}`);
     } catch (parseError) {
@@ -265,6 +275,14 @@ export async function POST(req: Request) {
       );
     }
 
+    if (requestedFilingType !== undefined && !XBRL_FILING_TYPES.includes(requestedFilingType)) {
+      console.error(`[API][${requestId}] Invalid XBRL filing type: ${requestedFilingType}`);
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.INVALID_FILING_TYPE, requestId },
+        { status: 400 }
+      );
+    }
+
     // Get and validate assistant ID
     let assistantId: string;
     try {
@@ -292,6 +310,42 @@ export async function POST(req: Request) {
       );
     }
 
+    // Only the user who uploaded the thread's document may chat with it
+    const { userId, error: authError } = await getAuthenticatedUserId(req, supabase);
+    if (authError) {
+      console.error(`[API][${requestId}] Rejected access token: ${authError}`);
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.INVALID_ACCESS_TOKEN, requestId },
+        { status: 401 }
+      );
+    }
+
+    // Scope retrieval to the document ingested for this thread and the user who uploaded it
+    const { data: session, error: sessionLookupError } = await supabase
+      .from('session_thread')
+      .select('document_id, user_id, xbrl_filing_type')
+      .eq('thread_id', threadId)
+      .not('document_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (sessionLookupError || !session?.document_id) {
+      console.error(`[API][${requestId}] No document for thread ${threadId}:`, sessionLookupError);
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.MISSING_SESSION_DOCUMENT, requestId },
+        { status: 404 }
+      );
+    }
+
+    if (session.user_id && session.user_id !== userId) {
+      console.error(`[API][${requestId}] Thread ${threadId} belongs to another user`);
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.FORBIDDEN_THREAD, requestId },
+        { status: 403 }
+      );
+    }
+
     // Save user message to database
     try {
       const { error: insertError } = await supabase
@@ -315,6 +369,24 @@ export async function POST(req: Request) {
       // Log but don't fail the request
     }
 
+    // Persist a filing type chosen by the client on the session so later steps use the same schema
+    if (sessionId && requestedFilingType !== undefined) {
+      const { error: sessionError } = await supabase
+        .from('session_thread')
+        .update({ xbrl_filing_type: requestedFilingType })
+        .eq('session_id', sessionId)
+        .eq('thread_id', threadId);
+
+      if (sessionError) {
+        console.error(`[API][${requestId}] Error saving filing type on session:`, sessionError);
+        // Log but don't fail the request
+      }
+    }
+
+    // A message without a filing type keeps the one stored on the session
+    const xbrlFilingType: XBRLFilingType =
+      requestedFilingType ?? session.xbrl_filing_type ?? retrievalAssistantStreamConfig.xbrlFilingType;
+
     // Stream the response with error handling
     console.log(`[API][${requestId}] Starting stream`);
     let stream;
@@ -328,6 +400,9 @@ export async function POST(req: Request) {
           config: {
             configurable: {
               ...retrievalAssistantStreamConfig,
+              xbrlFilingType,
+              documentIds: [session.document_id],
+              ...(session.user_id && { userId: session.user_id }),
             },
           },
         }
@@ -42,6 +42,28 @@ const dataSchema = z.object({
   threadId: z.string(),
   data: z.record(z.any()).or(z.array(z.any())),
   pdfId: z.string().optional(),
+  provenance: z.record(z.object({
+    chunkId: z.string(),
+    pageNumber: z.number().optional(),
+    snippet: z.string(),
+    verified: z.boolean(),
+    batch: z.number(),
+  })).optional(),
+  normalization: z.object({
+    presentationCurrency: z.string(),
+    roundingLevel: z.enum(['Units', 'Thousands', 'Millions']),
+    scale: z.number(),
+    decimals: z.number(),
+    currency: z.string(),
+    exchangeRate: z.object({
+      rate: z.number(),
+      date: z.string(),
+      source: z.string().optional(),
+      from: z.string(),
+      to: z.string(),
+    }).optional(),
+    warnings: z.array(z.string()),
+  }).optional(),
 }).strict();
 
 const getSupabaseClient = () => {
@@ -105,6 +127,8 @@ export async function GET(req: Request) {
         threadId: item.thread_id,
         data: item.data,
         pdfId: item.pdf_id,
+        provenance: item.provenance ?? {},
+        normalization: item.normalization ?? {},
         createdAt: item.created_at,
         updatedAt: item.updated_at
       }));
@@ -193,7 +217,7 @@ export async function POST(req: Request) {
       );
     }
 
-    const { threadId, data, pdfId } = validationResult.data;
+    const { threadId, data, pdfId, provenance, normalization } = validationResult.data;
 
     const supabase = getSupabaseClient();
 
@@ -207,6 +231,8 @@ export async function POST(req: Request) {
           thread_id: threadId,
           data: data,
           pdf_id: pdfId,
+          provenance: provenance ?? {},
+          normalization: normalization ?? {},
         })
         .select()
         .abortSignal(abortController.signal);
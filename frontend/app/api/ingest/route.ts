@@ -1,18 +1,21 @@
 import { indexConfig } from '@/constants/graphConfigs';
 import { langGraphServerClient } from '@/lib/langgraph-server';
-import { processPDF } from '@/lib/pdf';
+import { processFile } from '@/lib/documents';
+import { detectFileType } from '@/lib/file-types';
 import { Document } from '@langchain/core/documents';
 import { NextRequest, NextResponse } from 'next/server';
 import { PartialXBRLSchema } from '../../../../backend/src/retrieval_graph/schema';
+import { FILE_ROLES, FileRole, inferFileRole, isFileRole } from '../../../../backend/src/shared/bundle';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { getAuthenticatedUserId } from '@/lib/auth';
 import { createClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 
 // Configuration constants
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
-const MAX_FILES = 1;
-const ALLOWED_FILE_TYPES = ['application/pdf'];
+const MAX_FILES = 5;
 const REQUIRED_ENV_VARS = [
   'LANGGRAPH_INGESTION_ASSISTANT_ID',
   'LANGGRAPH_RETRIEVAL_ASSISTANT_ID',
@@ -25,6 +28,7 @@ const ERROR_MESSAGES = {
   SERVER_ERROR: 'Internal server error',
   SESSION_CREATION_ERROR: 'Failed to create session',
   DOCUMENT_CREATION_ERROR: 'Failed to create document record',
+  DOCUMENT_LOOKUP_ERROR: 'Failed to look up existing documents',
   THREAD_CREATION_ERROR: 'Failed to create ingestion thread',
   THREAD_CREATION_TIMEOUT: 'Thread creation timed out after 10 seconds',
   INGESTION_TIMEOUT: 'Ingestion run timed out after 60 seconds',
@@ -34,8 +38,10 @@ const ERROR_MESSAGES = {
   INVALID_CONTENT_TYPE: 'Request must be multipart/form-data',
   NO_FILES_PROVIDED: 'No files provided',
   TOO_MANY_FILES: `Too many files. Maximum ${MAX_FILES} file(s) allowed.`,
-  INVALID_FILE_TYPE: 'Invalid file type. Only PDF files are allowed.',
-  FILE_TOO_LARGE: `File size exceeds maximum allowed (${MAX_FILE_SIZE / (1024 * 1024)}MB).`
+  INVALID_FILE_TYPE: 'Invalid file type. Only PDF, Word (.docx), Excel (.xlsx) and HTML files are allowed.',
+  INVALID_FILE_ROLE: `Invalid file role. Allowed roles: ${FILE_ROLES.join(', ')}.`,
+  FILE_TOO_LARGE: `File size exceeds maximum allowed (${MAX_FILE_SIZE / (1024 * 1024)}MB).`,
+  INVALID_ACCESS_TOKEN: 'Invalid or expired access token'
 };
 
 interface IngestionRunResult {
@@ -87,7 +93,7 @@ function validateFile(file: File): { valid: boolean; error?: string } {
     return { valid: false, error: 'File is undefined or null' };
   }
 
-  if (!ALLOWED_FILE_TYPES.includes(file.type)) {
+  if (!detectFileType(file)) {
     return {
       valid: false,
       error: ERROR_MESSAGES.INVALID_FILE_TYPE
@@ -105,11 +111,21 @@ function validateFile(file: File): { valid: boolean; error?: string } {
 }
 
 /**
- * Extracts files from form data with validation
+ * A file of a filing bundle, with the part of the filing it holds
+ */
+interface BundleFile {
+  file: File;
+  role: FileRole;
+}
+
+/**
+ * Extracts the bundle's files from form data with validation. Each `files` entry may be
+ * matched by a `roles` entry in the same position; files without one get a role inferred
+ * from their name.
  * @param formData The request form data
- * @returns Object containing files array and any validation errors
+ * @returns Object containing the bundle files and any validation errors
  */
-async function extractFiles(formData: FormData): Promise<{ files: File[], error?: string }> {
+async function extractFiles(formData: FormData): Promise<{ files: BundleFile[], error?: string }> {
   const files: File[] = [];
 
   // Extract files from form data
@@ -128,17 +144,35 @@ async function extractFiles(formData: FormData): Promise<{ files: File[], error?
     return { files: [], error: ERROR_MESSAGES.TOO_MANY_FILES };
   }
 
-  return { files };
+  const roles = formData.getAll('roles');
+  if (roles.length > files.length || !roles.every(isFileRole)) {
+    return { files: [], error: ERROR_MESSAGES.INVALID_FILE_ROLE };
+  }
+
+  return {
+    files: files.map((file, index) => ({
+      file,
+      role: (roles[index] as FileRole | undefined) ?? inferFileRole(file.name)
+    }))
+  };
 }
 
 /**
  * Creates a new session in the database
  * @param supabase Supabase client
  * @param threadId Thread ID to associate with the session
+ * @param documentId Document the session extracts from; retrieval is scoped to it
+ * @param userId User who uploaded the document, if known
  * @param requestId Request ID for tracking
  * @returns The created session ID
  */
-async function createSession(supabase: any, threadId: string, requestId: string): Promise<string> {
+async function createSession(
+  supabase: any,
+  threadId: string,
+  documentId: string,
+  userId: string | undefined,
+  requestId: string
+): Promise<string> {
   const sessionId = uuidv4();
   logger.info(`[${requestId}] Creating new session: ${sessionId}`);
 
@@ -148,6 +182,8 @@ async function createSession(supabase: any, threadId: string, requestId: string)
       .insert({
         session_id: sessionId,
         thread_id: threadId,
+        document_id: documentId,
+        user_id: userId ?? null,
         status: 'upload_complete',
         current_step: 'extracting',
         metadata: { requestId }
@@ -167,18 +203,72 @@ async function createSession(supabase: any, threadId: string, requestId: string)
 }
 
 /**
- * Creates a document record in the database
+ * SHA-256 hash identifying the bundle's content: the hashes of its files and their roles,
+ * in a fixed order so the same files uploaded in another order match
+ * @param files The validated bundle files
+ * @returns The hex digest identifying the upload's content
+ */
+async function hashFiles(files: BundleFile[]): Promise<string> {
+  const fileHashes: string[] = [];
+  for (const { file, role } of files) {
+    const fileHash = createHash('sha256').update(Buffer.from(await file.arrayBuffer())).digest('hex');
+    fileHashes.push(`${fileHash}:${role}`);
+  }
+  return createHash('sha256').update(fileHashes.sort().join('\n')).digest('hex');
+}
+
+/**
+ * Finds a document the same user already uploaded with identical content
  * @param supabase Supabase client
+ * @param contentHash SHA-256 hash of the uploaded files
+ * @param userId User who uploaded the document, if known
+ * @param requestId Request ID for tracking
+ * @returns The existing document ID, or null when the content is new
+ */
+async function findDocumentByHash(
+  supabase: any,
+  contentHash: string,
+  userId: string | undefined,
+  requestId: string
+): Promise<string | null> {
+  let query = supabase
+    .from('documents')
+    .select('id')
+    .eq('content_hash', contentHash);
+  query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) {
+    logger.error(`[${requestId}] Failed to look up document by content hash: ${error.message}`);
+    throw new Error(`${ERROR_MESSAGES.DOCUMENT_LOOKUP_ERROR}: ${error.message}`);
+  }
+  return data?.id ?? null;
+}
+
+/**
+ * Creates a document record in the database. The record gets its content hash only once
+ * the document is ingested, so a failed upload is not mistaken for one already ingested
+ * @param supabase Supabase client
+ * @param files The files of the bundle the document is made of
+ * @param userId User who uploaded the document, if known
  * @param requestId Request ID for tracking
  * @returns The created document ID
  */
-async function createDocument(supabase: any, requestId: string): Promise<string> {
+async function createDocument(
+  supabase: any,
+  files: BundleFile[],
+  userId: string | undefined,
+  requestId: string
+): Promise<string> {
   logger.info(`[${requestId}] Creating new document record`);
 
   try {
     const { data, error } = await supabase
       .from('documents')
-      .insert({})
+      .insert({
+        files: files.map(({ file, role }) => ({ name: file.name, role, size: file.size })),
+        user_id: userId ?? null
+      })
       .select();
 
     if (error) {
@@ -198,6 +288,50 @@ async function createDocument(supabase: any, requestId: string): Promise<string>
   }
 }
 
+/**
+ * Records the content hash of an ingested document, so re-uploads of the same files reuse it
+ * @param supabase Supabase client
+ * @param documentId The ingested document
+ * @param contentHash SHA-256 hash of the uploaded files
+ * @param requestId Request ID for tracking
+ */
+async function recordContentHash(
+  supabase: any,
+  documentId: string,
+  contentHash: string,
+  requestId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('documents')
+    .update({ content_hash: contentHash })
+    .eq('id', documentId);
+
+  if (error) {
+    logger.error(`[${requestId}] Failed to record content hash: ${error.message}`);
+    throw new Error(`Failed to record content hash: ${error.message}`);
+  }
+}
+
+/**
+ * Deletes the chunks saved for a document, before it is ingested again
+ * @param supabase Supabase client
+ * @param documentId Document whose chunks are removed
+ * @param requestId Request ID for tracking
+ */
+async function deleteDocumentChunks(supabase: any, documentId: string, requestId: string): Promise<void> {
+  logger.info(`[${requestId}] Deleting saved chunks of document ID: ${documentId}`);
+
+  const { error } = await supabase
+    .from('document_chunks')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (error) {
+    logger.error(`[${requestId}] Failed to delete document chunks: ${error.message}`);
+    throw new Error(`Failed to delete document chunks: ${error.message}`);
+  }
+}
+
 /**
  * Saves document chunks to the database
  * @param supabase Supabase client
@@ -323,10 +457,16 @@ async function updateSessionStatus(
  * Run ingestion process with retry logic
  * @param threadId ID of the thread to run ingestion on
  * @param docs Document chunks to process
+ * @param forceReingest Whether the graph replaces chunks it already stored for the document
  * @param requestId Request ID for tracking
  * @returns Result of the ingestion run
  */
-async function runIngestionWithRetries(threadId: string, docs: Document[], requestId: string): Promise<IngestionRunResult> {
+async function runIngestionWithRetries(
+  threadId: string,
+  docs: Document[],
+  forceReingest: boolean,
+  requestId: string
+): Promise<IngestionRunResult> {
   let retryCount = 0;
   const maxRetries = 2;
 
@@ -344,6 +484,7 @@ async function runIngestionWithRetries(threadId: string, docs: Document[], reque
               configurable: {
                 ...indexConfig,
                 queryModel: 'openai/gpt-4o',
+                forceReingest,
               },
             },
           },
@@ -432,6 +573,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The authenticated user, if any, owns the document's chunks; anonymous uploads have no owner
+    const { userId, error: authError } = await getAuthenticatedUserId(request, supabase);
+    if (authError) {
+      logger.warn(`[${requestId}] Rejected access token: ${authError}`);
+      return NextResponse.json({ error: ERROR_MESSAGES.INVALID_ACCESS_TOKEN, requestId }, { status: 401 });
+    }
+
+    // A re-upload of known content reuses its document unless the caller forces a fresh ingest
+    const forceReingestField = formData.get('forceReingest');
+    const forceReingest = forceReingestField === 'true' || forceReingestField === '1';
+
     // Extract and validate files
     logger.info(`[${requestId}] Extracting files from request`);
     const { files, error: extractionError } = await extractFiles(formData);
@@ -443,14 +595,14 @@ export async function POST(request: NextRequest) {
     // Validate individual files
     logger.info(`[${requestId}] Validating ${files.length} file(s)`);
     const invalidFiles: { name: string; error: string }[] = [];
-    const validFiles: File[] = [];
+    const validFiles: BundleFile[] = [];
 
-    for (const file of files) {
-      const validation = validateFile(file);
+    for (const bundleFile of files) {
+      const validation = validateFile(bundleFile.file);
       if (!validation.valid) {
-        invalidFiles.push({ name: file.name, error: validation.error || 'Unknown validation error' });
+        invalidFiles.push({ name: bundleFile.file.name, error: validation.error || 'Unknown validation error' });
       } else {
-        validFiles.push(file);
+        validFiles.push(bundleFile);
       }
     }
 
@@ -465,60 +617,113 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create a document record
+    // Identical content from the same user is the document they already uploaded
+    let existingDocumentId: string | null;
+    let contentHash: string;
     try {
-      documentId = await createDocument(supabase, requestId);
+      contentHash = await hashFiles(validFiles);
+      existingDocumentId = await findDocumentByHash(supabase, contentHash, userId, requestId);
     } catch (error) {
-      logger.error(`[${requestId}] Failed to create document record:`, error);
+      logger.error(
+        `[${requestId}] Failed to look up existing documents: ${error instanceof Error ? error.message : String(error)}`
+      );
       return NextResponse.json({
-        error: ERROR_MESSAGES.DOCUMENT_CREATION_ERROR,
+        error: ERROR_MESSAGES.DOCUMENT_LOOKUP_ERROR,
         details: error instanceof Error ? error.message : String(error),
         requestId
       }, { status: 500 });
     }
+    const alreadyIngested = existingDocumentId !== null && !forceReingest;
+
+    // Create a document record, unless the content was uploaded before
+    if (existingDocumentId) {
+      documentId = existingDocumentId;
+      logger.info(
+        `[${requestId}] Content already uploaded as document ${documentId}` +
+        (forceReingest ? '; re-ingesting it' : '; reusing its chunks and embeddings')
+      );
+    } else {
+      try {
+        documentId = await createDocument(supabase, validFiles, userId, requestId);
+      } catch (error) {
+        logger.error(`[${requestId}] Failed to create document record:`, error);
+        return NextResponse.json({
+          error: ERROR_MESSAGES.DOCUMENT_CREATION_ERROR,
+          details: error instanceof Error ? error.message : String(error),
+          requestId
+        }, { status: 500 });
+      }
+    }
 
-    // Process valid files
-    logger.info(`[${requestId}] Processing ${validFiles.length} valid file(s)`);
+    // Process valid files, unless their chunks are already stored
     const allDocs: Document[] = [];
     const failedFiles: { name: string; error: string }[] = [];
 
-    for (const file of validFiles) {
-      try {
-        logger.info(`[${requestId}] Processing file: ${file.name} (${file.size} bytes)`);
-        const docs = await processPDF(file);
-
-        if (!docs || docs.length === 0) {
-          logger.warn(`[${requestId}] No documents extracted from file: ${file.name}`);
-          failedFiles.push({ name: file.name, error: 'No documents extracted' });
-          continue;
+    if (!alreadyIngested) {
+      logger.info(`[${requestId}] Processing ${validFiles.length} valid file(s)`);
+
+      for (const { file, role } of validFiles) {
+        try {
+          logger.info(`[${requestId}] Processing ${role} file: ${file.name} (${file.size} bytes)`);
+          const docs = await processFile(file);
+
+          if (!docs || docs.length === 0) {
+            logger.warn(`[${requestId}] No documents extracted from file: ${file.name}`);
+            failedFiles.push({ name: file.name, error: 'No documents extracted' });
+            continue;
+          }
+
+          logger.info(`[${requestId}] Successfully extracted ${docs.length} documents from ${file.name}`);
+          // Every page records the part of the filing its file holds
+          docs.forEach((doc) => {
+            doc.metadata.fileRole = role;
+          });
+          allDocs.push(...docs);
+        } catch (error: any) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.error(`[${requestId}] Error processing file ${file.name}: ${errorMessage}`);
+          failedFiles.push({ name: file.name, error: errorMessage });
         }
+      }
 
-        logger.info(`[${requestId}] Successfully extracted ${docs.length} documents from ${file.name}`);
-        allDocs.push(...docs);
-      } catch (error: any) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error(`[${requestId}] Error processing file ${file.name}: ${errorMessage}`);
-        failedFiles.push({ name: file.name, error: errorMessage });
+      if (!allDocs.length) {
+        logger.error(`[${requestId}] No valid documents extracted from any files`);
+        return NextResponse.json(
+          {
+            error: ERROR_MESSAGES.NO_DOCUMENTS_EXTRACTED,
+            failedFiles: failedFiles.length > 0 ? failedFiles : undefined
+          },
+          { status: 422 }
+        );
       }
-    }
 
-    if (!allDocs.length) {
-      logger.error(`[${requestId}] No valid documents extracted from any files`);
-      return NextResponse.json(
-        {
-          error: ERROR_MESSAGES.NO_DOCUMENTS_EXTRACTED,
-          failedFiles: failedFiles.length > 0 ? failedFiles : undefined
-        },
-        { status: 422 }
-      );
-    }
+      // Tag every chunk with its upload and owner, which retrieval is scoped to
+      allDocs.forEach((doc) => {
+        doc.metadata.documentId = documentId;
+        if (userId) {
+          doc.metadata.userId = userId;
+        }
+      });
 
-    // Save document chunks (continue even if this fails)
-    try {
-      await saveDocumentChunks(supabase, documentId, allDocs, requestId);
-    } catch (error) {
-      logger.error(`[${requestId}] Failed to save document chunks:`, error);
-      // Non-fatal error, continue with the process
+      // A forced re-ingest replaces the chunks saved for the earlier upload
+      if (existingDocumentId) {
+        try {
+          await deleteDocumentChunks(supabase, documentId, requestId);
+        } catch (error) {
+          logger.error(
+            `[${requestId}] Failed to delete earlier document chunks: ${error instanceof Error ? error.message : String(error)}`
+          );
+          // Non-fatal error, continue with the process
+        }
+      }
+
+      // Save document chunks (continue even if this fails)
+      try {
+        await saveDocumentChunks(supabase, documentId, allDocs, requestId);
+      } catch (error) {
+        logger.error(`[${requestId}] Failed to save document chunks:`, error);
+        // Non-fatal error, continue with the process
+      }
     }
 
     // Create ingestion thread with timeout handling
@@ -556,7 +761,7 @@ export async function POST(request: NextRequest) {
 
     // Create session in database
     try {
-      sessionId = await createSession(supabase, threadId, requestId);
+      sessionId = await createSession(supabase, threadId, documentId, userId, requestId);
     } catch (error) {
       logger.error(`[${requestId}] Failed to create session:`, error);
       return NextResponse.json({
@@ -568,33 +773,47 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    // Run ingestion with retry logic
-    let ingestionRun: IngestionRunResult;
-    try {
-      ingestionRun = await runIngestionWithRetries(threadId, allDocs, requestId);
-    } catch (error) {
-      // If ingestion fails, update session status and return error
-      if (sessionId) {
-        await updateSessionStatus(
-          supabase,
-          sessionId,
-          'upload_failed',
-          'uploading',
-          { failReason: error instanceof Error ? error.message : String(error) },
-          requestId
+    // Run ingestion with retry logic; a known document keeps its stored chunks
+    let ingestionRun: IngestionRunResult | undefined;
+    if (!alreadyIngested) {
+      try {
+        ingestionRun = await runIngestionWithRetries(threadId, allDocs, forceReingest, requestId);
+      } catch (error) {
+        // If ingestion fails, update session status and return error
+        if (sessionId) {
+          await updateSessionStatus(
+            supabase,
+            sessionId,
+            'upload_failed',
+            'uploading',
+            { failReason: error instanceof Error ? error.message : String(error) },
+            requestId
+          );
+        }
+
+        return NextResponse.json(
+          {
+            error: ERROR_MESSAGES.INGESTION_FAILED,
+            sessionId,
+            threadId,
+            documentId,
+            details: error instanceof Error ? error.message : String(error)
+          },
+          { status: 500 }
         );
       }
+    }
 
-      return NextResponse.json(
-        {
-          error: ERROR_MESSAGES.INGESTION_FAILED,
-          sessionId,
-          threadId,
-          documentId,
-          details: error instanceof Error ? error.message : String(error)
-        },
-        { status: 500 }
-      );
+    // Only an ingested document is reused by later uploads of the same files
+    if (!existingDocumentId) {
+      try {
+        await recordContentHash(supabase, documentId, contentHash, requestId);
+      } catch (error) {
+        logger.error(
+          `[${requestId}] Failed to record content hash: ${error instanceof Error ? error.message : String(error)}`
+        );
+        // Non-fatal error, the next upload of the same files is ingested again
+      }
     }
 
     // Extract structured data from ingestion result
@@ -622,19 +841,41 @@ export async function POST(request: NextRequest) {
       {
         documentsProcessed: allDocs.length,
         documentId,
+        alreadyIngested,
         hasStructuredData: !!structuredData
       },
       requestId
     );
 
+    // Report the scanned pages that were read with OCR, so low confidence is visible to the user
+    const ocrPages = allDocs
+      .filter((doc) => doc.metadata.textSource === 'ocr')
+      .map((doc) => ({
+        filename: doc.metadata.filename,
+        pageNumber: doc.metadata.loc?.pageNumber,
+        confidence: doc.metadata.ocrConfidence,
+      }));
+    if (ocrPages.length > 0) {
+      logger.info(`[${requestId}] Read ${ocrPages.length} scanned page(s) with OCR`);
+    }
+
     // Prepare response with detailed information
     const response = {
-      message: 'Documents ingested successfully',
+      message: alreadyIngested
+        ? 'Document was already ingested; reusing its chunks and embeddings'
+        : 'Documents ingested successfully',
       sessionId,
       threadId,
       documentId,
+      alreadyIngested,
+      files: validFiles.map(({ file, role }) => ({
+        name: file.name,
+        role,
+        documentsProcessed: allDocs.filter((doc) => doc.metadata.filename === file.name).length
+      })),
       documentsProcessed: allDocs.length,
       ...(structuredData && { structuredData }),
+      ...(ocrPages.length > 0 && { ocrPages }),
       ...(failedFiles.length > 0 && {
         warning: 'Some files were processed with warnings',
         failedFiles
@@ -3,8 +3,12 @@
 import { useToast } from '@/hooks/use-toast';
 import { useRef, useState, useEffect, FormEvent, ChangeEvent } from 'react';
 import { client } from '@/lib/langgraph-client';
-import { PDFDocument } from '@/types/graphTypes';
+import { getAuthHeaders } from '@/lib/auth';
+import { detectFileType } from '@/lib/file-types';
+import { FileRole, inferFileRole } from '../../backend/src/shared/bundle';
+import { NormalizationRecord, PDFDocument, ProvenanceMap, XBRLFilingType } from '@/types/graphTypes';
 import { partialXBRLMessage } from '@/constants/prompts/partial-xbrl';
+import { fullXBRLMessage } from '@/constants/prompts/full-xbrl';
 import { SESSION_THREAD_STATUS } from '@/constants/session-thread/state';
 import { FileText, Loader2, CheckCircle2, ArrowLeft, ArrowRight } from 'lucide-react';
 import { ErrorDisplay } from '@/components/home/error-display';
@@ -30,6 +34,12 @@ interface FileData {
   bytes: Uint8Array;
 }
 
+/** A selected file waiting to be uploaded, with the part of the filing it holds. */
+interface PendingFile {
+  file: File;
+  role: FileRole;
+}
+
 interface FormErrors {
   file?: string;
 }
@@ -41,6 +51,8 @@ interface Message {
   processingStatus?: string;
   isJson?: boolean;
   hideFromChat?: boolean;
+  /** How the amounts of an extraction were normalized. */
+  normalization?: NormalizationRecord;
 }
 
 interface ProcessingState {
@@ -53,14 +65,21 @@ interface ProcessingState {
 type ActiveStep = 'extracted' | 'mapped' | 'validated' | 'tagged' | 'output' | null;
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024;
+// Files of one filing bundle the ingest route accepts
+const MAX_FILES = 5;
+const UPLOAD_TIMEOUT_MS = 120000;
+// Tesseract confidence (0-100) below which a scanned page is flagged for review
+const LOW_OCR_CONFIDENCE = 70;
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
 
 export default function Home() {
   const { toast } = useToast();
   const [viewType, setViewType] = useState<'json' | 'table' | 'card'>('table');
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [xbrlFilingType, setXbrlFilingType] = useState<XBRLFilingType>('Partial');
   const [messages, setMessages] = useState<Message[]>([]);
   const [files, setFiles] = useState<FileData[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [threadId, setThreadId] = useState<string | null>(null);
@@ -1034,7 +1053,7 @@ export default function Home() {
   const validateForm = () => {
     const errors: FormErrors = {};
     if (files.length === 0) {
-      errors.file = 'Please upload a PDF file';
+      errors.file = 'Please upload a file';
     }
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
@@ -1045,6 +1064,20 @@ export default function Home() {
       start: 'Initializing process...',
       parse_input: 'Understanding your question...',
       retrieveDocuments: 'Searching through documents...',
+      extractFilingInformation: 'Extracting filing information...',
+      extractDirectorsStatement: "Extracting the directors' statement...",
+      extractAuditReport: 'Extracting the audit report...',
+      extractFinancialPosition: 'Extracting the statement of financial position...',
+      extractIncomeStatement: 'Extracting the income statement...',
+      extractNotes: 'Extracting the notes...',
+      extractCashFlows: 'Extracting the statement of cash flows...',
+      extractComparatives: 'Extracting prior-period comparatives...',
+      reduceExtractions: 'Merging extracted sections...',
+      validateExtractedData: 'Validating extracted data against the schema...',
+      repairExtraction: 'Repairing schema validation issues...',
+      reconcileStatements: 'Checking the statements add up...',
+      rereadLineItems: 'Re-reading line items that do not reconcile...',
+      normalizeAmounts: 'Normalizing currency and rounding...',
       generate_answer: 'Generating response...',
       format_response: 'Formatting final answer...',
     };
@@ -1356,54 +1389,92 @@ export default function Home() {
     }
   };
 
-  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
-    const newSessionId = await createSession();
-    if (!newSessionId) {
-      toast({
-        title: 'Session Error',
-        description: 'Failed to create session. Please try again.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
+  const handleFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
     if (!selectedFiles.length) return;
 
-    if (selectedFiles.length > 1) {
+    if (pendingFiles.length + selectedFiles.length > MAX_FILES) {
       toast({
-        title: 'Only one PDF allowed',
-        description: 'Please select only one PDF file. Only one document can be processed at a time.',
+        title: 'Too many files',
+        description: `A filing can be uploaded as up to ${MAX_FILES} files.`,
         variant: 'destructive',
       });
-      if (fileInputRef.current) fileInputRef.current.value = '';
       return;
     }
 
-    const file = selectedFiles[0];
-    if (file.size > MAX_FILE_SIZE) {
+    const tooLarge = selectedFiles.find((file) => file.size > MAX_FILE_SIZE);
+    if (tooLarge) {
       toast({
         title: 'File too large',
-        description: 'Maximum file size is 50MB',
+        description: `${tooLarge.name} is larger than the maximum file size of 50MB`,
         variant: 'destructive',
       });
-      if (fileInputRef.current) fileInputRef.current.value = '';
       return;
     }
-    if (file.type !== 'application/pdf') {
+    const unsupported = selectedFiles.find((file) => !detectFileType(file));
+    if (unsupported) {
       toast({
         title: 'Invalid file type',
-        description: 'Please upload a PDF file only',
+        description: `${unsupported.name} is not a PDF, Word (.docx), Excel (.xlsx) or HTML file`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Each file starts with the role its name suggests, which the user can change before uploading
+    setPendingFiles(prev => [
+      ...prev,
+      ...selectedFiles.map((file) => ({ file, role: inferFileRole(file.name) })),
+    ]);
+  };
+
+  const setPendingFileRole = (index: number, role: FileRole) => {
+    setPendingFiles(prev => prev.map((pending, i) => (i === index ? { ...pending, role } : pending)));
+  };
+
+  const removePendingFile = (index: number) => {
+    setPendingFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const toFileData = async (file: File): Promise<FileData> => {
+    let bytes = new Uint8Array();
+    try {
+      bytes = new Uint8Array(await file.arrayBuffer());
+    } catch (fileError) {
+      console.error('Error processing file buffer:', fileError);
+    }
+    return {
+      name: file.name,
+      size: file.size,
+      lastModified: file.lastModified,
+      webkitRelativePath: file.webkitRelativePath,
+      type: file.type,
+      bytes,
+    };
+  };
+
+  const uploadFiles = async () => {
+    if (!pendingFiles.length) return;
+
+    const newSessionId = await createSession();
+    if (!newSessionId) {
+      toast({
+        title: 'Session Error',
+        description: 'Failed to create session. Please try again.',
         variant: 'destructive',
       });
-      if (fileInputRef.current) fileInputRef.current.value = '';
       return;
     }
 
     setIsUploading(true);
     setError(null);
     const formData = new FormData();
-    formData.append('files', file);
+    // The route matches each role to the file in the same position
+    for (const { file, role } of pendingFiles) {
+      formData.append('files', file);
+      formData.append('roles', role);
+    }
 
     if (threadId) {
       formData.append('threadId', threadId);
@@ -1415,10 +1486,12 @@ export default function Home() {
 
     try {
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000);
+      // Scanned pages are read with OCR during the upload, which takes a few seconds per page
+      const timeoutId = setTimeout(() => controller.abort(), UPLOAD_TIMEOUT_MS);
 
       const response = await fetch(`${API_BASE_URL}/api/ingest`, {
         method: 'POST',
+        headers: await getAuthHeaders(),
         body: formData,
         signal: controller.signal,
       });
@@ -1442,31 +1515,25 @@ export default function Home() {
         await updateSessionStatus(SESSION_THREAD_STATUS.UPLOAD_COMPLETE);
       }
 
-      try {
-        const bytes = new Uint8Array(await file.arrayBuffer());
-        setFiles([{
-          name: file.name,
-          size: file.size,
-          lastModified: file.lastModified,
-          webkitRelativePath: file.webkitRelativePath,
-          type: file.type,
-          bytes,
-        }]);
-      } catch (fileError) {
-        console.error('Error processing file buffer:', fileError);
-        setFiles([{
-          name: file.name,
-          size: file.size,
-          lastModified: file.lastModified,
-          webkitRelativePath: file.webkitRelativePath,
-          type: file.type,
-          bytes: new Uint8Array(),
-        }]);
-      }
+      setFiles(await Promise.all(pendingFiles.map(({ file }) => toFileData(file))));
+      setPendingFiles([]);
 
+      const ocrPages: { pageNumber: number; confidence: number }[] = responseData.ocrPages ?? [];
+      const lowConfidencePages = ocrPages
+        .filter(({ confidence }) => confidence < LOW_OCR_CONFIDENCE)
+        .map(({ pageNumber }) => pageNumber);
       toast({
         title: 'Success',
-        description: 'File uploaded successfully',
+        description: responseData.alreadyIngested
+          ? 'These files were uploaded before; their existing pages are reused.'
+          : ocrPages.length > 0
+          ? `Files uploaded. ${ocrPages.length} scanned page(s) were read with OCR` +
+            (lowConfidencePages.length > 0
+              ? `; please check page(s) ${lowConfidencePages.join(', ')}, which were hard to read.`
+              : '.')
+          : pendingFiles.length > 1
+          ? `${pendingFiles.length} files uploaded successfully`
+          : 'File uploaded successfully',
         variant: 'default',
       });
     } catch (err: any) {
@@ -1489,7 +1556,6 @@ export default function Home() {
       }
     } finally {
       setIsUploading(false);
-      if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
@@ -1504,7 +1570,7 @@ export default function Home() {
     if (!files.length) {
       toast({
         title: 'Missing File',
-        description: 'Please upload a PDF file first',
+        description: 'Please upload a file first',
         variant: 'destructive',
       });
       return;
@@ -1548,10 +1614,13 @@ export default function Home() {
     try {
       const response = await fetch(`${API_BASE_URL}/api/chat`, {
         method: 'POST',
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
-          message: "Extract all data and map it to this zod schema " + partialXBRLMessage,
+          message: "Extract all data and map it to this zod schema " +
+            (xbrlFilingType === 'Full' ? fullXBRLMessage : partialXBRLMessage),
           threadId: threadId,
           sessionId: sessionId,
+          xbrlFilingType,
         }),
         signal: abortController.signal,
       });
@@ -1568,6 +1637,10 @@ export default function Home() {
       const decoder = new TextDecoder();
       let finalContent = '';
       let retrievedDocs: PDFDocument[] = [];
+      let validationIssues: any[] = [];
+      let identityViolations: any[] = [];
+      let provenance: ProvenanceMap = {};
+      let normalization: NormalizationRecord | undefined;
       let isJsonResponse = false;
 
       while (true) {
@@ -1607,6 +1680,18 @@ export default function Home() {
               if (data.retrieveDocuments?.documents) {
                 retrievedDocs = data.retrieveDocuments.documents;
               }
+              if (data.reduceExtractions?.provenance) {
+                provenance = data.reduceExtractions.provenance;
+              }
+              if (data.validateExtractedData?.validationIssues) {
+                validationIssues = data.validateExtractedData.validationIssues;
+              }
+              if (data.reconcileStatements?.identityViolations) {
+                identityViolations = data.reconcileStatements.identityViolations;
+              }
+              if (data.normalizeAmounts?.normalization) {
+                normalization = data.normalizeAmounts.normalization;
+              }
               if (data.graph_status) {
                 setCurrentStep(getNodeDescription(data.graph_status.current_node));
                 setTotalSteps(data.graph_status.total_steps || 0);
@@ -1642,6 +1727,7 @@ export default function Home() {
         sources: retrievedDocs,
         isJson: isJsonResponse,
         hideFromChat: false,
+        normalization,
       }]);
 
       if (parsedData) {
@@ -1651,6 +1737,8 @@ export default function Home() {
           body: JSON.stringify({
             threadId,
             data: parsedData,
+            provenance,
+            normalization,
           }),
         });
 
@@ -1670,10 +1758,24 @@ export default function Home() {
         }
         await updateSessionStatus(SESSION_THREAD_STATUS.EXTRACTING_COMPLETE);
 
-        toast({
-          title: 'Success!',
-          description: 'Data extracted and saved successfully',
-        });
+        if (validationIssues.length > 0) {
+          toast({
+            title: 'Extraction needs review',
+            description: `${validationIssues.length} schema issue(s) could not be resolved automatically. Please review the data before mapping.`,
+            variant: 'destructive',
+          });
+        } else if (identityViolations.length > 0) {
+          toast({
+            title: 'Extraction needs review',
+            description: `${identityViolations.length} accounting check(s) do not reconcile, e.g. ${identityViolations[0].description}. Please review the amounts before mapping.`,
+            variant: 'destructive',
+          });
+        } else {
+          toast({
+            title: 'Success!',
+            description: 'Data extracted and saved successfully',
+          });
+        }
 
         setExtractionComplete(true);
       } else {
@@ -1830,10 +1932,16 @@ export default function Home() {
             {messages.length === 0 ? (
               <UploadForm
                 files={files}
+                pendingFiles={pendingFiles}
                 isUploading={isUploading}
                 formErrors={formErrors}
                 submissionAttempted={submissionAttempted}
+                xbrlFilingType={xbrlFilingType}
+                setXbrlFilingType={setXbrlFilingType}
                 handleFileUpload={handleFileUpload}
+                setPendingFileRole={setPendingFileRole}
+                removePendingFile={removePendingFile}
+                uploadFiles={uploadFiles}
                 handleFormSubmit={handleFormSubmit}
                 fileInputRef={fileInputRef}
               />
@@ -1869,6 +1977,7 @@ export default function Home() {
                                   viewType={viewType}
                                   initialView={viewType}
                                   activeStep={activeStep}
+                                  normalization={message.normalization}
                                 />
                               )}
                             </div>
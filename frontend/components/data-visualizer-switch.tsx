@@ -16,9 +16,13 @@ import {
   Loader2,
   AlertTriangle,
   Check,
-  RefreshCw
+  Upload,
+  X
 } from 'lucide-react';
 import { processDataByFramework } from '@/lib/acra-data-processor';
+import { parseXbrlInstance, toBaseline } from '@/lib/xbrl-import';
+import { toXbrlCsv, toXbrlJson } from '@/lib/xbrl-oim';
+import { NormalizationRecord } from '@/types/graphTypes';
 import FrameworkSelector from './framework-view/framework-selector';
 import TableView from './table-viewer';
 import JsonViewer from './json-viewer';
@@ -36,11 +40,15 @@ interface EditableDataVisualizerProps {
   baseUrl?: string;
   onDataUpdate?: (newData: any) => void;
   activeStep?: string | null;
+  /** How the extracted amounts were normalized, which sets the decimals and unit of exports. */
+  normalization?: NormalizationRecord;
 }
 
 interface SaveStatus {
   type: 'success' | 'error' | 'info' | 'none';
   message: string;
+  /** Items the message refers to, listed below it until the banner is dismissed. */
+  details?: string[];
 }
 
 /**
@@ -109,6 +117,20 @@ const usesSnakeCase = (data: any): boolean => {
   return snakeCaseCount > camelCaseCount;
 };
 
+/**
+ * Saves content as a file through a temporary download link
+ */
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
   data,
   title = "",
@@ -119,7 +141,8 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
   pdfId,
   baseUrl = "",
   onDataUpdate,
-  activeStep
+  activeStep,
+  normalization
 }) => {
   // Core state management
   const [activeView, setActiveView] = useState<'json' | 'table' | 'card'>(viewType || initialView);
@@ -146,6 +169,7 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
   const processingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const dataRef = useRef<any>(null);
   const frameworkRef = useRef<string>('sfrs-full');
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Track if data is primarily in snake_case format
   const [isSnakeCaseData, setIsSnakeCaseData] = useState<boolean>(false);
@@ -389,6 +413,41 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
     setSaveStatus({ type: 'none', message: '' });
   }, []);
 
+  // Load last year's XBRL instance into the editor as the baseline of this year's filing
+  const handleImportXbrl = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseXbrlInstance(await file.text());
+
+      setEditableData(toBaseline(imported.data));
+      setIsEditing(true);
+      const skipped = [
+        ...imported.warnings,
+        ...imported.unmappedElements.map((name) => `${name}: no field of the filing takes this element`)
+      ];
+      setSaveStatus({
+        type: 'success',
+        message: `Imported ${imported.factCount} facts from ${file.name} as the prior period` +
+          (skipped.length > 0 ? `; ${skipped.length} could not be imported:` : ''),
+        details: skipped
+      });
+      // What was skipped stays listed until the user dismisses it
+      if (skipped.length === 0) {
+        setTimeout(() => setSaveStatus({ type: 'none', message: '' }), 5000);
+      }
+    } catch (error) {
+      console.error('XBRL import failed:', error);
+      setSaveStatus({
+        type: 'error',
+        message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+      setTimeout(() => setSaveStatus({ type: 'none', message: '' }), 5000);
+    }
+  }, []);
+
   // Handle data changes in the form editor
   const handleDataChange = useCallback((path: string[], value: any, event?: React.FormEvent) => {
     if (event) {
@@ -504,17 +563,11 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
         throw new Error('No data available to export');
       }
 
-      const jsonString = JSON.stringify(dataToExport, null, 2);
-      const dataBlob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(dataBlob);
-
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${title.replace(/\s+/g, '-').toLowerCase()}-${selectedFramework}-${uuid}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadFile(
+        `${title.replace(/\s+/g, '-').toLowerCase()}-${selectedFramework}-${uuid}.json`,
+        JSON.stringify(dataToExport, null, 2),
+        'application/json'
+      );
     } catch (error) {
       console.error('Export failed:', error);
       setSaveStatus({
@@ -526,6 +579,36 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
     }
   }, [isEditing, editableData, processedData, title, selectedFramework, uuid]);
 
+  // Export the filing in an Open Information Model format: xBRL-JSON as one file, or
+  // xBRL-CSV as its metadata file and a table per section
+  const handleExportOim = useCallback((format: 'xbrl-json' | 'xbrl-csv') => {
+    try {
+      if (!originalData) {
+        throw new Error('No data available to export');
+      }
+
+      const baseName = `${title.replace(/\s+/g, '-').toLowerCase() || 'filing'}-${uuid}`;
+      if (format === 'xbrl-json') {
+        downloadFile(
+          `${baseName}.xbrl.json`,
+          JSON.stringify(toXbrlJson(originalData, { normalization }), null, 2),
+          'application/json'
+        );
+      } else {
+        Object.entries(toXbrlCsv(originalData, baseName, { normalization })).forEach(([fileName, content]) =>
+          downloadFile(fileName, content, fileName.endsWith('.csv') ? 'text/csv' : 'application/json')
+        );
+      }
+    } catch (error) {
+      console.error('OIM export failed:', error);
+      setSaveStatus({
+        type: 'error',
+        message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+      setTimeout(() => setSaveStatus({ type: 'none', message: '' }), 5000);
+    }
+  }, [originalData, normalization, title, uuid]);
+
   // Get the framework title for display
   const getFrameworkTitle = useMemo(() => {
     const frameworkMetadata = processedData?._frameworkMetadata;
@@ -634,6 +717,21 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
             </button>
           </div>
 
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="text-lg flex items-center gap-2 rounded-lg bg-amber-50 px-3 py-1.5 font-medium text-amber-700 transition-all hover:bg-amber-100 dark:bg-amber-900/20 dark:text-amber-300 dark:hover:bg-amber-900/30"
+          >
+            <Upload size={16} />
+            <span>Import XBRL</span>
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".xml,.xbrl"
+            className="hidden"
+            onChange={handleImportXbrl}
+          />
+
           <button
             onClick={handleExportData}
             className="text-lg flex items-center gap-2 rounded-lg bg-emerald-50 px-3 py-1.5 font-medium text-emerald-700 transition-all hover:bg-emerald-100 dark:bg-emerald-900/20 dark:text-emerald-300 dark:hover:bg-emerald-900/30"
@@ -641,6 +739,25 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
             <Download size={16} />
             <span>Export</span>
           </button>
+
+          {activeStep === 'output' && (
+            <>
+              <button
+                onClick={() => handleExportOim('xbrl-json')}
+                className="text-lg flex items-center gap-2 rounded-lg bg-emerald-50 px-3 py-1.5 font-medium text-emerald-700 transition-all hover:bg-emerald-100 dark:bg-emerald-900/20 dark:text-emerald-300 dark:hover:bg-emerald-900/30"
+              >
+                <Download size={16} />
+                <span>xBRL-JSON</span>
+              </button>
+              <button
+                onClick={() => handleExportOim('xbrl-csv')}
+                className="text-lg flex items-center gap-2 rounded-lg bg-emerald-50 px-3 py-1.5 font-medium text-emerald-700 transition-all hover:bg-emerald-100 dark:bg-emerald-900/20 dark:text-emerald-300 dark:hover:bg-emerald-900/30"
+              >
+                <Download size={16} />
+                <span>xBRL-CSV</span>
+              </button>
+            </>
+          )}
         </>
       ) : (
         <>
@@ -676,7 +793,7 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
         </>
       )}
     </div>
-  ), [isEditing, isSaving, isFetching, showFrameworkSelector, getFrameworkIcon, getFrameworkTitle, handleEdit, toggleFrameworkSelector, handleExportData, handleCancel, handleSave]);
+  ), [isEditing, isSaving, isFetching, showFrameworkSelector, getFrameworkIcon, getFrameworkTitle, handleEdit, toggleFrameworkSelector, handleImportXbrl, handleExportData, handleExportOim, activeStep, handleCancel, handleSave]);
 
   // Render status message banner
   const renderStatusMessage = useCallback(() => {
@@ -695,9 +812,27 @@ const EditableDataVisualizer: React.FC<EditableDataVisualizerProps> = ({
     };
 
     return (
-      <div className={`mx-5 mt-4 p-3 mb-0 rounded-md flex items-center ${statusClasses[saveStatus.type as keyof typeof statusClasses]}`}>
-        {statusIcons[saveStatus.type as keyof typeof statusIcons]}
-        {saveStatus.message}
+      <div className={`mx-5 mt-4 p-3 mb-0 rounded-md ${statusClasses[saveStatus.type as keyof typeof statusClasses]}`}>
+        <div className="flex items-center">
+          {statusIcons[saveStatus.type as keyof typeof statusIcons]}
+          <span className="flex-1">{saveStatus.message}</span>
+          {saveStatus.details && saveStatus.details.length > 0 && (
+            <button
+              onClick={() => setSaveStatus({ type: 'none', message: '' })}
+              className="ml-2 rounded p-1 hover:bg-black/5 dark:hover:bg-white/10"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {saveStatus.details && saveStatus.details.length > 0 && (
+          <ul className="mt-2 ml-7 max-h-40 list-disc overflow-y-auto pl-4 text-sm">
+            {saveStatus.details.map((detail, index) => (
+              <li key={index}>{detail}</li>
+            ))}
+          </ul>
+        )}
       </div>
     );
   }, [saveStatus]);
@@ -1,5 +1,6 @@
 import { FileIcon, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { detectFileType } from "@/lib/file-types"
 
 interface FilePreviewProps {
   file: File
@@ -14,7 +15,7 @@ export function FilePreview({ file, onRemove }: FilePreviewProps) {
       </div>
       <div className="flex-1 min-w-0">
         <p className="text-lg font-medium truncate text-gray-700">{file.name}</p>
-        <p className="text-lg text-gray-500">PDF</p>
+        <p className="text-lg text-gray-500">{detectFileType(file)?.toUpperCase() ?? "File"}</p>
       </div>
       <Button
         variant="ghost"
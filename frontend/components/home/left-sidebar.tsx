@@ -3,6 +3,7 @@ import { Avatar, AvatarFallback } from '../ui/avatar';
 import { FileText, ChevronLeft, Search, Upload, Trash, Plus } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
+import { ACCEPTED_FILE_EXTENSIONS } from '@/lib/file-types';
 
 interface FileData {
   name: string;
@@ -92,7 +93,7 @@ export const LeftSidebar = ({
             <input
               id="fileInput"
               type="file"
-              accept=".pdf"
+              accept={ACCEPTED_FILE_EXTENSIONS}
               multiple
               style={{ display: 'none' }}
               onChange={handleFileUpload}
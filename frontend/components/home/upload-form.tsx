@@ -4,21 +4,49 @@ import { Paperclip, ArrowUp, Loader2, FileText, CheckCircle, AlertCircle, X } fr
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useState, useEffect } from 'react';
+import { ACCEPTED_FILE_EXTENSIONS } from '@/lib/file-types';
+import { XBRLFilingType } from '@/types/graphTypes';
+import { FILE_ROLES, FileRole } from '../../../backend/src/shared/bundle';
+
+const FILING_TYPE_OPTIONS: { value: XBRLFilingType; label: string }[] = [
+  { value: 'Partial', label: 'Partial XBRL' },
+  { value: 'Full', label: 'Full XBRL' },
+];
+
+const FILE_ROLE_LABELS: Record<FileRole, string> = {
+  'financial-statements': 'Financial statements',
+  'directors-statement': "Directors' statement",
+  'auditors-report': "Auditor's report",
+  'trial-balance': 'Trial balance',
+  other: 'Other',
+};
 
 export const UploadForm = ({
   files,
+  pendingFiles,
   isUploading,
   formErrors,
   submissionAttempted,
+  xbrlFilingType,
+  setXbrlFilingType,
   handleFileUpload,
+  setPendingFileRole,
+  removePendingFile,
+  uploadFiles,
   handleFormSubmit,
   fileInputRef
 }: {
   files: File[];
+  pendingFiles: { file: File; role: FileRole }[];
   isUploading: boolean;
   formErrors: { file?: string };
   submissionAttempted: boolean;
+  xbrlFilingType: XBRLFilingType;
+  setXbrlFilingType: (filingType: XBRLFilingType) => void;
   handleFileUpload: (e: React.ChangeEvent) => void;
+  setPendingFileRole: (index: number, role: FileRole) => void;
+  removePendingFile: (index: number) => void;
+  uploadFiles: () => void;
   handleFormSubmit: (e: React.FormEvent) => void;
   fileInputRef: React.RefObject<HTMLInputElement>;
 }) => {
@@ -54,19 +82,37 @@ export const UploadForm = ({
         </p>
 
         <form onSubmit={handleFormSubmit} className="space-y-6">
+          <div className="space-y-3">
+            <label className="text-lg font-semibold text-gray-700">Filing Type</label>
+            <div className="grid grid-cols-2 gap-2">
+              {FILING_TYPE_OPTIONS.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  type="button"
+                  variant={xbrlFilingType === value ? 'default' : 'outline'}
+                  onClick={() => setXbrlFilingType(value)}
+                  disabled={isUploading}
+                  aria-pressed={xbrlFilingType === value}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
           <div className="space-y-3">
             <div className="flex flex-col">
               <div className="flex items-center justify-between mb-2">
                 <label className="text-lg font-semibold text-gray-700 flex items-center">
                   <FileText className="h-4 w-4 mr-2 text-blue-500" />
-                  Upload Annual Report PDF
+                  Upload Annual Report
                 </label>
                 <span className="text-lg bg-blue-100 text-blue-700 px-2 py-1 rounded-full font-medium">Required</span>
               </div>
 
               <p className="text-lg text-gray-500 mb-4 flex items-center">
                 <AlertCircle className="h-3 w-3 mr-1 text-gray-400" />
-                Supported format: PDF (Max 10MB)
+                Supported formats: PDF, Word (.docx), Excel (.xlsx), HTML (Max 10MB each, up to 5 files)
               </p>
 
               <input
@@ -74,7 +120,8 @@ export const UploadForm = ({
                 onChange={handleFileUpload}
                 ref={fileInputRef}
                 className="hidden"
-                accept=".pdf"
+                accept={ACCEPTED_FILE_EXTENSIONS}
+                multiple
               />
 
               <Button
@@ -92,17 +139,79 @@ export const UploadForm = ({
                 ) : (
                   <>
                     <Paperclip className="h-5 w-5 text-blue-500 group-hover:rotate-12 transition-transform duration-300" />
-                    {files.length > 0 ? 'Change PDF File' : 'Select PDF File'}
+                    {pendingFiles.length > 0 ? 'Add Files' : files.length > 0 ? 'Change Files' : 'Select Files'}
                   </>
                 )}
               </Button>
 
-              {files.length > 0 && (
-                <div className="mt-3 p-4 bg-green-50 rounded-lg text-lg text-gray-700 border border-green-200 flex items-center justify-between animate-fadeIn">
-                  <div className="flex items-center overflow-hidden">
-                    <CheckCircle className="h-5 w-5 mr-2 text-green-500 animate-pulse" />
-                    <span className="truncate">{files[0].name}</span>
-                  </div>
+              {pendingFiles.length > 0 && (
+                <div className="mt-3 space-y-2 animate-fadeIn">
+                  {pendingFiles.map(({ file, role }, index) => (
+                    <div
+                      key={`${file.name}-${index}`}
+                      className="p-3 bg-blue-50 rounded-lg text-lg text-gray-700 border border-blue-200 flex items-center gap-2"
+                    >
+                      <FileText className="h-5 w-5 shrink-0 text-blue-500" />
+                      <span className="flex-1 truncate">{file.name}</span>
+                      <select
+                        aria-label={`Role of ${file.name}`}
+                        value={role}
+                        onChange={(e) => setPendingFileRole(index, e.target.value as FileRole)}
+                        disabled={isUploading}
+                        className="py-1 pl-2 pr-8 text-base border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+                      >
+                        {FILE_ROLES.map((fileRole) => (
+                          <option key={fileRole} value={fileRole}>
+                            {FILE_ROLE_LABELS[fileRole]}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removePendingFile(index)}
+                        disabled={isUploading}
+                        aria-label={`Remove ${file.name}`}
+                        className="h-8 w-8 text-gray-500 hover:text-red-600"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    type="button"
+                    onClick={uploadFiles}
+                    disabled={isUploading}
+                    className="gap-2 py-4 w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-lg"
+                  >
+                    {isUploading ? (
+                      <>
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                        Uploading…
+                      </>
+                    ) : (
+                      <>
+                        <ArrowUp className="h-5 w-5" />
+                        {pendingFiles.length > 1 ? `Upload ${pendingFiles.length} Files` : 'Upload File'}
+                      </>
+                    )}
+                  </Button>
+                </div>
+              )}
+
+              {files.length > 0 && pendingFiles.length === 0 && (
+                <div className="mt-3 space-y-2 animate-fadeIn">
+                  {files.map((file, index) => (
+                    <div
+                      key={`${file.name}-${index}`}
+                      className="p-4 bg-green-50 rounded-lg text-lg text-gray-700 border border-green-200 flex items-center overflow-hidden"
+                    >
+                      <CheckCircle className="h-5 w-5 mr-2 text-green-500 animate-pulse" />
+                      <span className="truncate">{file.name}</span>
+                    </div>
+                  ))}
                 </div>
               )}
 
@@ -1,4 +1,5 @@
 import React, { useMemo, memo, useCallback } from 'react';
+import { getReportingPeriods, hasComparatives, splitByPeriod } from '@/lib/xbrl-periods';
 
 const TableView = memo(({ data, title = "Data Viewer" }) => {
   // Debug log to help diagnose rendering issues
@@ -82,6 +83,15 @@ const TableView = memo(({ data, title = "Data Viewer" }) => {
     return result;
   }, [extractedData, format]);
 
+  // Split out the prior-period comparatives so they can be shown next to the current values
+  const comparatives = useMemo(() => {
+    if (format === 'primitive' || format === 'array' || !filteredData || !hasComparatives(filteredData)) {
+      return null;
+    }
+    const { current, prior } = splitByPeriod(filteredData);
+    return { current, prior, periods: getReportingPeriods(current.filingInformation) };
+  }, [filteredData, format]);
+
   const formatLabel = useCallback((text) => {
     if (!text || typeof text !== 'string') return String(text);
 
@@ -438,7 +448,54 @@ const TableView = memo(({ data, title = "Data Viewer" }) => {
     );
   }, [formatLabel, formatValue, getValueClass]);
 
-  const ProcessSection = useCallback(({ sectionData, sectionKey = '' }) => {
+  // Year-on-year movement of a line item, with the percentage when the prior value is not 0
+  const formatChange = useCallback((current: unknown, prior: unknown) => {
+    if (typeof current !== 'number' || typeof prior !== 'number') return '—';
+    const change = current - prior;
+    const sign = change > 0 ? '+' : '';
+    const percentage = prior !== 0 ? ` (${sign}${((change / Math.abs(prior)) * 100).toFixed(1)}%)` : '';
+    return `${sign}${formatValue(change)}${percentage}`;
+  }, [formatValue]);
+
+  const renderComparativeHeader = useCallback(() => {
+    if (!comparatives) return null;
+    const { current, prior } = comparatives.periods;
+    return (
+      <div className="grid grid-cols-4 gap-6 px-6 py-3 border-b border-gray-200 dark:border-gray-700 text-lg font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+        <div>Line Item</div>
+        <div>Current{current.endDate ? ` (${current.endDate})` : ''}</div>
+        <div>Prior{prior.endDate ? ` (${prior.endDate})` : ''}</div>
+        <div>Change</div>
+      </div>
+    );
+  }, [comparatives]);
+
+  const renderComparativeRow = useCallback((key: string, value: unknown, priorValue: unknown) => (
+    <div
+      key={key}
+      className="grid grid-cols-4 gap-6 px-6 py-4 border-b last:border-0 border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+    >
+      <div className="text-xl font-medium text-gray-700 dark:text-gray-300">
+        {formatLabel(key)}
+      </div>
+      <div className={`text-xl font-mono ${getValueClass(value)}`}>
+        {formatValue(value)}
+      </div>
+      <div className={`text-xl font-mono ${getValueClass(priorValue)}`}>
+        {formatValue(priorValue)}
+      </div>
+      <div className="text-xl font-mono text-gray-600 dark:text-gray-400">
+        {formatChange(value, priorValue)}
+      </div>
+    </div>
+  ), [formatLabel, formatValue, getValueClass, formatChange]);
+
+  // priorData is set for sections that have comparatives, and switches the rows to four columns
+  const ProcessSection = useCallback(({ sectionData, sectionKey = '', priorData }: {
+    sectionData: any;
+    sectionKey?: string;
+    priorData?: Record<string, any>;
+  }) => {
     if (sectionData === null || sectionData === undefined) {
       return (
         <div className="grid grid-cols-2 gap-6 px-6 py-4 border-b last:border-0 border-gray-100 dark:border-gray-800">
@@ -498,7 +555,8 @@ const TableView = memo(({ data, title = "Data Viewer" }) => {
             </div>
           )}
           <div className="bg-white dark:bg-gray-900 rounded-b-lg">
-            {Object.entries(sectionData).map(([key, value]) => (
+            {priorData && renderComparativeHeader()}
+            {Object.entries(sectionData).map(([key, value]) => priorData ? renderComparativeRow(key, value, priorData[key]) : (
               <div
                 key={key}
                 className="grid grid-cols-2 gap-6 px-6 py-4 border-b last:border-0 border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50"
@@ -531,9 +589,14 @@ const TableView = memo(({ data, title = "Data Viewer" }) => {
           </div>
         )}
         <div className={`${sectionKey ? 'bg-white dark:bg-gray-900 rounded-b-lg' : ''} p-4`}>
+          {priorData && Object.values(sectionData).some(value => typeof value !== 'object' || value === null) && renderComparativeHeader()}
           {Object.entries(sectionData).map(([key, value]) => {
             if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-              return <ProcessSection key={key} sectionData={value} sectionKey={key} />;
+              // At the top level only the sections with comparatives get prior values
+              const prior = priorData
+                ? priorData[key] ?? {}
+                : !sectionKey && comparatives?.prior[key];
+              return <ProcessSection key={key} sectionData={value} sectionKey={key} priorData={prior || undefined} />;
             }
 
             // Handle arrays specially
@@ -541,6 +604,10 @@ const TableView = memo(({ data, title = "Data Viewer" }) => {
               return <ProcessSection key={key} sectionData={value} sectionKey={key} />;
             }
 
+            if (priorData) {
+              return renderComparativeRow(key, value, priorData[key]);
+            }
+
             return (
               <div
                 key={key}
@@ -563,7 +630,7 @@ const TableView = memo(({ data, title = "Data Viewer" }) => {
         </div>
       </div>
     );
-  }, [formatLabel, formatValue, getValueClass, renderArrayData, hasNestedObjects]);
+  }, [formatLabel, formatValue, getValueClass, renderArrayData, hasNestedObjects, comparatives, renderComparativeHeader, renderComparativeRow]);
 
   const renderDataContent = useCallback(() => {
     if (!filteredData) {
@@ -594,8 +661,8 @@ const TableView = memo(({ data, title = "Data Viewer" }) => {
       return renderArrayData(filteredData);
     }
 
-    return <ProcessSection sectionData={filteredData} />;
-  }, [filteredData, format, formatValue, getValueClass, renderArrayData, ProcessSection]);
+    return <ProcessSection sectionData={comparatives ? comparatives.current : filteredData} />;
+  }, [filteredData, format, formatValue, getValueClass, renderArrayData, ProcessSection, comparatives]);
 
   return (
     <div className="w-full rounded-xl overflow-hidden bg-white dark:bg-gray-900 shadow-xl">
@@ -7,6 +7,7 @@ export const retrievalAssistantStreamConfig: StreamConfigurables = {
   queryModel: 'openai/gpt-4o-mini',
   retrieverProvider: 'supabase',
   k: 5,
+  xbrlFilingType: 'Partial',
 };
 
 /**
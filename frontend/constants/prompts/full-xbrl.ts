@@ -0,0 +1,78 @@
+import { partialXBRLMessage } from './partial-xbrl';
+
+const partial = JSON.parse(partialXBRLMessage);
+
+export const fullXBRLMessage = JSON.stringify({
+  ...partial,
+  filingInformation: {
+    ...partial.filingInformation,
+    WhetherThereAreChangesToComparativeAmountsDueToRestatementsReclassificationOrOtherReasons: "Boolean - Whether comparative amounts changed due to restatements/reclassifications"
+  },
+
+  auditReport: {
+    ...partial.auditReport,
+    ReasonForModifiedAuditOpinionAbstract: "Object (optional) of booleans: impairmentOfAssets, goingConcern, auditOfOpeningBalance, consolidationOrEquityAccounting, ongoingInvestigationOrLegalCases, others - Reasons for a modified audit opinion",
+    YearOfAppointmentOfSigningAuditor: "Integer (optional, 1900-2100) - Year the signing auditor was first appointed",
+    NumberOfKeyAuditMattersReported: "Integer (optional, min 0) - Number of key audit matters in the independent auditor's report",
+    KeyAuditMatters: "Object (optional) of booleans: valuationOfReceivables, impairmentOfGoodwill, valuationOfInvestmentProperty, valuationOfPPE, revenueRecognition, others - Key audit matters reported"
+  },
+
+  statementOfCashFlows: {
+    ...partial.statementOfCashFlows,
+    CashFlowsFromUsedInOperatingActivities: "Number - Net cash flows from/(used in) operating activities",
+    CashFlowsFromUsedInInvestingActivities: "Number - Net cash flows from/(used in) investing activities",
+    CashFlowsFromUsedInFinancingActivities: "Number - Net cash flows from/(used in) financing activities"
+  },
+
+  notes: {
+    ...partial.notes,
+    propertyPlantAndEquipment: {
+      classes: "Array of Enum: 'LandAndBuilding', 'MotorVehicles', 'Machinery', 'ComputerEquipment', 'LeaseholdImprovements', 'ConstructionInProgress'",
+      movements: {
+        openingBalance: "Number",
+        additions: "Number",
+        disposals: "Number",
+        depreciation: "Number",
+        closingBalance: "Number"
+      }
+    },
+
+    intangibleAssets: {
+      classes: "Array of Enum: 'Software', 'Licenses', 'Patents', 'DevelopmentCosts'",
+      movements: {
+        openingBalance: "Number",
+        additions: "Number",
+        amortization: "Number",
+        disposals: "Number",
+        closingBalance: "Number"
+      }
+    },
+
+    rightOfUseAssets: {
+      propertyPlantEquipment: "Number",
+      intangibleAssets: "Number",
+      otherAssets: "Number"
+    },
+
+    loansAndBorrowings: {
+      bankOverdrafts: "Number (optional, default: 0)",
+      securedBorrowings: "Number (optional, default: 0)",
+      unsecuredBorrowings: "Number (optional, default: 0)",
+      otherBorrowings: "Number (optional, default: 0)"
+    },
+
+    selectedIncomeExpense: {
+      interestIncome: "Number (optional, default: 0)",
+      dividendIncome: "Number (optional, default: 0)",
+      governmentGrants: "Number (optional, default: 0)",
+      rawMaterials: "Number (optional, default: 0)",
+      foreignExchangeGains: "Number (optional, default: 0)"
+    },
+
+    relatedPartyTransactions: {
+      hasOverseasInvestments: "Boolean - Whether the entity has overseas investments",
+      revenueFromRelatedParties: "Number (optional, default: 0)",
+      purchasesFromRelatedParties: "Number (optional, default: 0)"
+    }
+  },
+}, null, 2);
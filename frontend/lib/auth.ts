@@ -0,0 +1,60 @@
+/**
+ * Authentication with Supabase Auth
+ *
+ * The browser sends the access token of the signed-in user's Supabase session with its
+ * API calls (`getAuthHeaders`), and the API routes resolve it to the user on the server
+ * (`getAuthenticatedUserId`). Documents are owned by, and retrieval is scoped to, that
+ * user; the user is never taken from the request body. Without a configured public
+ * Supabase project, or without a signed-in user, calls are anonymous.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let browserClient: SupabaseClient | null | undefined;
+
+/** Supabase client of the browser, or null when no public project is configured. */
+function getBrowserClient(): SupabaseClient | null {
+  if (browserClient === undefined) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    browserClient = url && anonKey ? createClient(url, anonKey) : null;
+  }
+  return browserClient;
+}
+
+/**
+ * Headers authenticating an API call as the signed-in user: `Authorization: Bearer`
+ * with the access token of their Supabase session, or none for an anonymous call.
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const client = getBrowserClient();
+  if (!client) return {};
+
+  const { data } = await client.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Resolves the user a request is authenticated as, from the Supabase access token in its
+ * `Authorization: Bearer` header.
+ * @param request The incoming request
+ * @param supabase Supabase client
+ * @returns The user ID, none for a request without a token, or an error for a token
+ * Supabase does not accept
+ */
+export async function getAuthenticatedUserId(
+  request: Request,
+  supabase: SupabaseClient
+): Promise<{ userId?: string; error?: string }> {
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    return {};
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    return { error: error?.message ?? 'No user for the access token' };
+  }
+  return { userId: data.user.id };
+}
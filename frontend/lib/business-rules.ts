@@ -0,0 +1,202 @@
+/**
+ * Business Rules
+ *
+ * Evaluates the ACRA filing checks that are not arithmetic, such as "a modified audit
+ * opinion must give its reason", over the JSON of a filing. The rules are data, not
+ * code: the catalog in `acra-business-rules.json` is a list of rules, each with a
+ * condition it applies `when`, a condition it must `assert`, a severity and a message,
+ * so rules are added there without touching the engine or the routes.
+ *
+ * Conditions compare the values at dot-separated paths of the filing, where `*` stands
+ * for every child of an object or array:
+ * - `{ "path": "filingInformation.NameOfParentEntity", "op": "present" }`
+ * - `{ "path": "...", "op": "eq", "value": "Full" }`, or `"valueFrom": "<path>"` to compare
+ *   with another field
+ * - `{ "all": [...] }`, `{ "any": [...] }` and `{ "not": {...} }` to combine them
+ * A condition on a path with `*` holds when it holds for any of the values. Comparisons
+ * with an absent field are false, except `ne` and `notIn`.
+ */
+
+import { z } from 'zod';
+import catalog from './acra-business-rules.json';
+
+export const RULE_OPERATORS = [
+  'present',
+  'absent',
+  'eq',
+  'ne',
+  'in',
+  'notIn',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'matches',
+] as const;
+
+export type RuleOperator = (typeof RULE_OPERATORS)[number];
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { path: string; op: RuleOperator; value?: unknown; valueFrom?: string };
+
+export interface BusinessRule {
+  id: string;
+  description: string;
+  severity: RuleSeverity;
+  /** When the rule applies; a rule without it always applies. */
+  when?: RuleCondition;
+  /** What must hold when the rule applies; a rule without it reports whenever it applies. */
+  assert?: RuleCondition;
+  /** Message of a violation. `{path}` is replaced by the value at the path. */
+  message: string;
+}
+
+export interface RuleViolation {
+  rule: string;
+  severity: RuleSeverity;
+  message: string;
+  /** The fields the rule asserts on, to point the user at what to fix. */
+  paths: string[];
+}
+
+const RuleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(RuleConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(RuleConditionSchema).min(1) }).strict(),
+    z.object({ not: RuleConditionSchema }).strict(),
+    z
+      .object({
+        path: z.string().min(1),
+        op: z.enum(RULE_OPERATORS),
+        value: z.unknown().optional(),
+        valueFrom: z.string().min(1).optional(),
+      })
+      .strict(),
+  ])
+);
+
+const BusinessRuleSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Rule ids are kebab-case'),
+    description: z.string().min(1),
+    severity: z.enum(['error', 'warning', 'info']),
+    when: RuleConditionSchema.optional(),
+    assert: RuleConditionSchema.optional(),
+    message: z.string().min(1),
+  })
+  .strict()
+  .refine((rule) => rule.when || rule.assert, 'A rule needs a "when" or an "assert" condition');
+
+const RuleCatalogSchema = z.object({ rules: z.array(BusinessRuleSchema) });
+
+/**
+ * Check a rule catalog, e.g. one read from JSON.
+ * @throws Error listing every problem when the catalog is not valid.
+ */
+export function parseRuleCatalog(json: unknown): BusinessRule[] {
+  const parsed = RuleCatalogSchema.safeParse(json);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid business rule catalog: ${problems.join('; ')}`);
+  }
+
+  const ids = parsed.data.rules.map(({ id }) => id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    throw new Error(`Invalid business rule catalog: duplicate rule ids ${duplicates.join(', ')}`);
+  }
+  return parsed.data.rules;
+}
+
+/** The ACRA filing rules of `acra-business-rules.json`. */
+export const ACRA_BUSINESS_RULES: BusinessRule[] = parseRuleCatalog(catalog);
+
+/** The values at a path; `*` expands to every child. */
+function valuesAt(data: unknown, path: string): unknown[] {
+  return path.split('.').reduce<unknown[]>(
+    (values, key) =>
+      values.flatMap((value) => {
+        if (value === null || typeof value !== 'object') return [];
+        if (key === '*') return Object.values(value);
+        return key in value ? [(value as Record<string, unknown>)[key]] : [];
+      }),
+    [data]
+  );
+}
+
+const isPresent = (value: unknown) => value !== null && value !== undefined && value !== '';
+
+function compare(op: RuleOperator, actual: unknown, expected: unknown): boolean {
+  switch (op) {
+    case 'eq':
+      return actual === expected;
+    case 'ne':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'matches':
+      return typeof actual === 'string' && new RegExp(String(expected)).test(actual);
+    default: {
+      // Numbers compare as numbers, ISO 8601 dates as strings
+      if (typeof actual !== typeof expected || !['number', 'string'].includes(typeof actual)) return false;
+      const [a, b] = [actual, expected] as [number | string, number | string];
+      if (op === 'gt') return a > b;
+      if (op === 'gte') return a >= b;
+      if (op === 'lt') return a < b;
+      return a <= b;
+    }
+  }
+}
+
+function holds(condition: RuleCondition, data: unknown): boolean {
+  if ('all' in condition) return condition.all.every((child) => holds(child, data));
+  if ('any' in condition) return condition.any.some((child) => holds(child, data));
+  if ('not' in condition) return !holds(condition.not, data);
+
+  const { path, op, value, valueFrom } = condition;
+  const present = valuesAt(data, path).filter(isPresent);
+  if (op === 'present') return present.length > 0;
+  if (op === 'absent') return present.length === 0;
+
+  const expected = valueFrom === undefined ? value : valuesAt(data, valueFrom).find(isPresent);
+  if (valueFrom !== undefined && expected === undefined) return false;
+  if (present.length === 0) return op === 'ne' || op === 'notIn';
+  return present.some((actual) => compare(op, actual, expected));
+}
+
+const conditionPaths = (condition?: RuleCondition): string[] => {
+  if (!condition) return [];
+  if ('all' in condition) return condition.all.flatMap(conditionPaths);
+  if ('any' in condition) return condition.any.flatMap(conditionPaths);
+  if ('not' in condition) return conditionPaths(condition.not);
+  return [condition.path, ...(condition.valueFrom ? [condition.valueFrom] : [])];
+};
+
+const formatMessage = (message: string, data: unknown) =>
+  message.replace(/\{([\w.*]+)\}/g, (_, path: string) => {
+    const value = valuesAt(data, path).find(isPresent);
+    return value === undefined ? '(missing)' : String(value);
+  });
+
+/**
+ * Evaluate business rules over the JSON of a filing.
+ * @param data - The filing, e.g. the JSON model with `filingInformation` and `auditReport`.
+ * @param rules - The rules to evaluate. @default ACRA_BUSINESS_RULES
+ * @returns A violation for every rule that applies and does not hold, in catalog order.
+ */
+export function evaluateRules(data: unknown, rules: BusinessRule[] = ACRA_BUSINESS_RULES): RuleViolation[] {
+  return rules
+    .filter((rule) => (!rule.when || holds(rule.when, data)) && !(rule.assert && holds(rule.assert, data)))
+    .map((rule) => ({
+      rule: rule.id,
+      severity: rule.severity,
+      message: formatMessage(rule.message, data),
+      paths: [...new Set(conditionPaths(rule.assert ?? rule.when))],
+    }));
+}
@@ -0,0 +1,27 @@
+import { Document } from '@langchain/core/documents';
+import path from 'path';
+import { processDOCX } from './docx';
+import { detectFileType } from './file-types';
+import { processHTML } from './html';
+import { processPDF } from './pdf';
+import { processXLSX } from './xlsx';
+
+/**
+ * Processes an uploaded PDF, Word, Excel or HTML file into pages with the same metadata.
+ * @param file - The file to process.
+ * @returns An array of Document objects extracted from the file.
+ */
+export async function processFile(file: File): Promise<Document[]> {
+  switch (detectFileType(file)) {
+    case 'pdf':
+      return processPDF(file);
+    case 'docx':
+      return processDOCX(file);
+    case 'xlsx':
+      return processXLSX(file);
+    case 'html':
+      return processHTML(file);
+    default:
+      throw new Error(`Unsupported file type: ${file.type || path.extname(file.name)}`);
+  }
+}
@@ -0,0 +1,19 @@
+import { Document } from '@langchain/core/documents';
+import mammoth from 'mammoth';
+import { addFileMetadata, htmlToBlocks, paginateBlocks } from './html';
+
+/**
+ * Processes a Word document by converting it to HTML, which keeps its headings and
+ * tables, and splitting that into pages.
+ * @param file - The DOCX file to process.
+ * @returns An array of Document objects, one per page of text.
+ */
+export async function processDOCX(file: File): Promise<Document[]> {
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const { value: html, messages } = await mammoth.convertToHtml({ buffer });
+  messages
+    .filter(({ type }) => type === 'error')
+    .forEach(({ message }) => console.warn(`Converting ${file.name}: ${message}`));
+
+  return addFileMetadata(paginateBlocks(htmlToBlocks(html)), file.name, 'docx');
+}
@@ -0,0 +1,43 @@
+/**
+ * The kinds of file the ingest route accepts, recognised by MIME type or extension.
+ *
+ * The upload form runs in the browser, so it checks the selected files against this
+ * table rather than `documents.ts`, which loads the server-side parsers.
+ */
+
+/** Kinds of uploaded file the ingest route accepts. */
+export type UploadFileType = 'pdf' | 'docx' | 'xlsx' | 'html';
+
+/** MIME types of the files the ingest route accepts. */
+export const MIME_FILE_TYPES: Record<string, UploadFileType> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+};
+
+/** Extensions recognised when the browser sends no specific MIME type. */
+const EXTENSION_FILE_TYPES: Record<string, UploadFileType> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.xlsx': 'xlsx',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+/** The `accept` attribute of file inputs for the accepted files, e.g. `.pdf,.docx,...`. */
+export const ACCEPTED_FILE_EXTENSIONS = Object.keys(EXTENSION_FILE_TYPES).join(',');
+
+/**
+ * The kind of an uploaded file, from its MIME type or else its extension.
+ * @param file - The uploaded file, or its name and MIME type.
+ * @returns The file type, or undefined when it is not supported.
+ */
+export function detectFileType(file: Pick<File, 'name' | 'type'>): UploadFileType | undefined {
+  const dot = file.name.lastIndexOf('.');
+  return (
+    MIME_FILE_TYPES[file.type] ??
+    (dot > 0 ? EXTENSION_FILE_TYPES[file.name.slice(dot).toLowerCase()] : undefined)
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * Loading of HTML financial statements, also used for Word documents once converted to
+ * HTML.
+ *
+ * HTML has no pages, so the text is split into pages of about `MAX_PAGE_CHARS` at
+ * paragraph and table boundaries. Tables are kept as pipe-delimited grids, like the
+ * tables rebuilt from PDF pages, so amounts stay in their row and column.
+ */
+
+import { Document } from '@langchain/core/documents';
+import { HTMLElement, Node, parse, TextNode } from 'node-html-parser';
+import { v4 as uuidv4 } from 'uuid';
+import { UploadFileType } from './file-types';
+import { formatTableGrid, StatementTable } from './pdf-tables';
+
+/** A paragraph of text, or a table as rows of cell text. */
+export type HtmlBlock =
+  | { kind: 'text'; text: string }
+  | { kind: 'table'; rows: string[][] };
+
+/** Approximate length of a page of an HTML or Word document. */
+const MAX_PAGE_CHARS = 3000;
+
+/** Elements that start and end a paragraph. */
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BR', 'DD', 'DIV', 'DL', 'DT', 'FOOTER',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE',
+  'SECTION', 'UL',
+]);
+
+/** Elements whose content is not text of the document. */
+const SKIPPED_TAGS = new Set(['HEAD', 'NOSCRIPT', 'SCRIPT', 'STYLE', 'TEMPLATE']);
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Read the rows of a table. A cell spanning several columns is followed by empty cells,
+ * so the cells below it stay in their columns. Rows without any text are dropped.
+ */
+function tableRows(table: HTMLElement): string[][] {
+  return table
+    .querySelectorAll('tr')
+    .map((row) =>
+      row
+        .querySelectorAll('th, td')
+        .flatMap((cell) => [
+          normalizeSpace(cell.text),
+          ...Array<string>(Math.max(Number(cell.getAttribute('colspan')) || 1, 1) - 1).fill(''),
+        ]),
+    )
+    .filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+/**
+ * Split an HTML document into its paragraphs and tables, in document order.
+ */
+export function htmlToBlocks(html: string): HtmlBlock[] {
+  const blocks: HtmlBlock[] = [];
+  let text = '';
+  const flush = () => {
+    const paragraph = normalizeSpace(text);
+    if (paragraph) {
+      blocks.push({ kind: 'text', text: paragraph });
+    }
+    text = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node instanceof TextNode) {
+      text += node.text;
+      return;
+    }
+    if (!(node instanceof HTMLElement)) {
+      return;
+    }
+    const tag = node.tagName;
+    if (tag && SKIPPED_TAGS.has(tag)) {
+      return;
+    }
+    if (tag === 'TABLE') {
+      flush();
+      const rows = tableRows(node);
+      if (rows.length > 0) {
+        blocks.push({ kind: 'table', rows });
+      }
+      return;
+    }
+
+    const isBlock = Boolean(tag) && BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    node.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  walk(parse(html));
+  flush();
+  return blocks;
+}
+
+/**
+ * A table of cell text as a statement table: the first row gives the column headers,
+ * and the first column the row labels.
+ */
+export function toStatementTable(rows: string[][], pageNumber: number): StatementTable {
+  const width = Math.max(...rows.map((row) => row.length));
+  const pad = (row: string[]) => [...row, ...Array<string>(width - row.length).fill('')];
+  const [header, ...body] = rows.map(pad);
+
+  return {
+    pageNumber,
+    columns: header.map((text, index) => ({
+      role: index === 0 ? 'label' : /^notes?$/i.test(text) ? 'note' : 'amount',
+      header: text,
+    })),
+    rows: body.map(([label, ...cells]) => ({ label, cells })),
+  };
+}
+
+/**
+ * Group the blocks of a document into pages of about `MAX_PAGE_CHARS`, with tables
+ * rendered as grids.
+ */
+export function paginateBlocks(blocks: HtmlBlock[]): Document[] {
+  const pages: Document[] = [];
+  let parts: string[] = [];
+  let length = 0;
+  let tableCount = 0;
+
+  const finishPage = () => {
+    if (parts.length === 0) {
+      return;
+    }
+    pages.push(
+      new Document({
+        pageContent: parts.join('\n\n'),
+        metadata: {
+          loc: { pageNumber: pages.length + 1 },
+          ...(tableCount > 0 && { tableCount }),
+        },
+      }),
+    );
+    parts = [];
+    length = 0;
+    tableCount = 0;
+  };
+
+  for (const block of blocks) {
+    const estimate = block.kind === 'text' ? block.text.length : block.rows.flat().join(' | ').length;
+    if (length > 0 && length + estimate > MAX_PAGE_CHARS) {
+      finishPage();
+    }
+    if (block.kind === 'text') {
+      parts.push(block.text);
+    } else {
+      parts.push(formatTableGrid(toStatementTable(block.rows, pages.length + 1)));
+      tableCount += 1;
+    }
+    length += estimate;
+  }
+  finishPage();
+
+  return pages;
+}
+
+/**
+ * Add the metadata every uploaded page carries, whatever its file type, so pages of
+ * Word, Excel and HTML files look like PDF pages to ingestion and retrieval.
+ * @param docs - The pages of one file.
+ * @param filename - Name of the uploaded file.
+ * @param fileType - Kind of file the pages were read from.
+ * @returns The same pages.
+ */
+export function addFileMetadata(
+  docs: Document[],
+  filename: string,
+  fileType: UploadFileType,
+): Document[] {
+  // Named pdfId for every file type, as for the PDF pages the rest of the pipeline was built on
+  const pdfId = uuidv4();
+  const processedAt = new Date().toISOString();
+  docs.forEach((doc) => {
+    doc.metadata.source = doc.metadata.source ?? filename;
+    doc.metadata.filename = filename;
+    doc.metadata.fileType = fileType;
+    doc.metadata.pdfId = pdfId;
+    doc.metadata.processedAt = processedAt;
+    doc.metadata.textSource = doc.metadata.textSource ?? 'document';
+  });
+  return docs;
+}
+
+/**
+ * Processes an HTML file into pages.
+ * @param file - The HTML file to process.
+ * @returns An array of Document objects, one per page of text.
+ */
+export async function processHTML(file: File): Promise<Document[]> {
+  const html = Buffer.from(await file.arrayBuffer()).toString('utf-8');
+  return addFileMetadata(paginateBlocks(htmlToBlocks(html)), file.name, 'html');
+}
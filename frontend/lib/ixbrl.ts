@@ -0,0 +1,288 @@
+/**
+ * Inline XBRL Generation
+ *
+ * Writes a filing as an Inline XBRL (iXBRL 1.1) document: an XHTML report of the
+ * statements that is also an XBRL instance. Every figure in the tables is the fact
+ * itself, wrapped in `ix:nonFraction` or `ix:nonNumeric`, and the facts of the filing
+ * information that the report does not show are kept in the hidden section of the
+ * `ix:header`, with the `schemaRef`, contexts and units.
+ *
+ * The facts, contexts and units are those of the XML instance (`XmlTransformer.toInstance`),
+ * so both documents report the same filing. Monetary amounts are shown at the rounding
+ * level of the filing: with `Thousands`, 8400000 is shown as 8,400 with `scale="3"`.
+ */
+
+import { js2xml, Element } from 'xml-js';
+import {
+  contextElement,
+  namespaceAttributes,
+  TransformOptions,
+  unitElement,
+  XbrlFact,
+  XbrlInstance,
+  XmlTransformer,
+  xmlElement,
+} from './xml-transformer';
+import { PeriodKey } from './xbrl-periods';
+
+export const INLINE_XBRL_NAMESPACES: Record<string, string> = {
+  ix: 'http://www.xbrl.org/2013/inlineXBRL',
+  ixt: 'http://www.xbrl.org/inlineXBRL/transformation/2020-02-12',
+};
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+/** Titles of the sections of the JSON model. Other sections are titled from their key. */
+const SECTION_TITLES: Record<string, string> = {
+  filingInformation: 'Filing information',
+  directorsStatement: "Directors' statement",
+  auditReport: "Independent auditors' report",
+  statementOfFinancialPosition: 'Statement of financial position',
+  incomeStatement: 'Statement of profit or loss',
+  statementOfComprehensiveIncome: 'Statement of comprehensive income',
+  statementOfCashFlows: 'Statement of cash flows',
+  statementOfChangesInEquity: 'Statement of changes in equity',
+  notes: 'Notes to the financial statements',
+};
+
+/** Sections whose facts are not shown, apart from the cover facts. */
+const HIDDEN_SECTIONS = ['filingInformation', 'filing_information'];
+
+/** Facts of the filing information shown under the company name. */
+const COVER_ELEMENTS = [
+  'UniqueEntityNumber',
+  'CurrentPeriodStartDate',
+  'CurrentPeriodEndDate',
+  'DescriptionOfPresentationCurrency',
+  'LevelOfRoundingUsedInFinancialStatements',
+];
+
+const STYLES = [
+  'body { font-family: Arial, sans-serif; font-size: 10pt; margin: 2em; }',
+  'table { border-collapse: collapse; margin-bottom: 2em; min-width: 40em; }',
+  'th, td { padding: 0.2em 0.6em; text-align: left; vertical-align: top; }',
+  'td.amount, th.amount { text-align: right; white-space: nowrap; }',
+  'td.negative::before { content: "("; }',
+  'td.negative::after { content: ")"; }',
+  'tr.heading td { font-weight: bold; padding-top: 0.8em; }',
+].join('\n');
+
+const numberFormat = new Intl.NumberFormat('en-US', { maximumFractionDigits: 10 });
+
+/** `CashAndBankBalances` and `cash_and_bank` as `Cash and bank balances`, keeping acronyms. */
+const humanize = (key: string): string => {
+  const words = key
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .trim()
+    .split(/\s+/)
+    .map((word, index) =>
+      index > 0 && word !== word.toUpperCase() ? word.toLowerCase() : word
+    );
+  const text = words.join(' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const qualifiedName = (fact: XbrlFact) => `${fact.prefix}:${fact.name}`;
+
+/**
+ * A fact as inline XBRL. Amounts are shown scaled to the rounding level, without their
+ * sign, which `sign="-"` carries and the `negative` cell class puts in parentheses.
+ */
+function inlineFact(fact: XbrlFact): Element {
+  const { contextRef, unitRef, decimals, value } = fact;
+  const name = qualifiedName(fact);
+
+  if (unitRef) {
+    if (value === null) {
+      return xmlElement('ix:nonFraction', { name, contextRef, unitRef, 'xsi:nil': 'true' });
+    }
+    const amount = Number(value);
+    const scale = decimals && decimals !== 'INF' && Number(decimals) < 0 ? -Number(decimals) : 0;
+    return xmlElement(
+      'ix:nonFraction',
+      {
+        name,
+        contextRef,
+        unitRef,
+        decimals,
+        scale: String(scale),
+        format: 'ixt:num-dot-decimal',
+        sign: amount < 0 ? '-' : undefined,
+      },
+      numberFormat.format(Math.abs(amount) / 10 ** scale)
+    );
+  }
+
+  if (typeof value === 'boolean') {
+    return xmlElement(
+      'ix:nonNumeric',
+      { name, contextRef, format: value ? 'ixt:fixed-true' : 'ixt:fixed-false' },
+      value ? 'Yes' : 'No'
+    );
+  }
+  // ix:nonNumeric has no nil: a null is reported empty
+  return xmlElement('ix:nonNumeric', { name, contextRef }, value === null ? undefined : String(value));
+}
+
+interface Row {
+  label: string;
+  /** Keys of the subsections the row is in, below its section. */
+  group: string[];
+  facts: Partial<Record<PeriodKey, XbrlFact>>;
+}
+
+/**
+ * A table of the facts of a section, one row per field with a column per period, headed
+ * by the period end dates when given.
+ */
+function sectionTable(rows: Row[], periodHeadings?: Record<PeriodKey, string>): Element {
+  const periods: PeriodKey[] = rows.some(({ facts }) => facts.prior) ? ['current', 'prior'] : ['current'];
+  const cellClass = (fact?: XbrlFact) => {
+    if (!fact?.unitRef) return undefined;
+    return Number(fact.value) < 0 ? 'amount negative' : 'amount';
+  };
+  const amountCell = (fact?: XbrlFact) =>
+    xmlElement('td', { class: cellClass(fact) }, fact ? [inlineFact(fact)] : undefined);
+
+  const body: Element[] = [];
+  let group = '';
+  rows.forEach((row) => {
+    const rowGroup = row.group.join('/');
+    if (row.group.length > 0 && rowGroup !== group) {
+      body.push(
+        xmlElement('tr', { class: 'heading' }, [
+          xmlElement('td', { colspan: String(periods.length + 1) }, row.group.map(humanize).join(' – ')),
+        ])
+      );
+    }
+    group = rowGroup;
+    body.push(
+      xmlElement('tr', {}, [
+        xmlElement('td', {}, row.label),
+        ...periods.map((period) => amountCell(row.facts[period])),
+      ])
+    );
+  });
+
+  const head = periodHeadings && [
+    xmlElement('thead', {}, [
+      xmlElement('tr', {}, [
+        xmlElement('th', {}, ''),
+        ...periods.map((period) => xmlElement('th', { class: 'amount' }, periodHeadings[period])),
+      ]),
+    ]),
+  ];
+  return xmlElement('table', {}, [...(head ?? []), xmlElement('tbody', {}, body)]);
+}
+
+/** The facts of each section, in the order they are reported, as table rows. */
+function sectionRows(facts: XbrlFact[], periodOf: Map<string, PeriodKey>): Map<string, Row[]> {
+  const sections = new Map<string, Map<string, Row>>();
+  facts.forEach((fact) => {
+    const [section, ...rest] = fact.path;
+    const rows = sections.get(section) ?? new Map<string, Row>();
+    sections.set(section, rows);
+    const key = fact.path.join('/');
+    const row = rows.get(key) ?? {
+      label: humanize(rest[rest.length - 1] ?? fact.name),
+      group: rest.slice(0, -1),
+      facts: {},
+    };
+    rows.set(key, row);
+    row.facts[periodOf.get(fact.contextRef) ?? 'current'] = fact;
+  });
+  return new Map([...sections].map(([section, rows]) => [section, [...rows.values()]]));
+}
+
+/**
+ * The `ix:header`, in a hidden `div`: the facts not shown in the report, the `schemaRef`,
+ * and the contexts and units all facts refer to.
+ */
+function inlineHeader(instance: XbrlInstance, hiddenFacts: XbrlFact[]): Element {
+  return xmlElement('div', { style: 'display:none' }, [
+    xmlElement('ix:header', {}, [
+      ...(hiddenFacts.length > 0 ? [xmlElement('ix:hidden', {}, hiddenFacts.map(inlineFact))] : []),
+      xmlElement('ix:references', {}, [
+        xmlElement('link:schemaRef', { 'xlink:type': 'simple', 'xlink:href': instance.schemaRef }),
+      ]),
+      xmlElement('ix:resources', {}, [
+        ...instance.contexts.map((context) => contextElement(context, instance.entity)),
+        ...instance.units.map(unitElement),
+      ]),
+    ]),
+  ]);
+}
+
+/**
+ * Write a filing (the JSON model or tagged data) as an Inline XBRL document.
+ * @throws XmlTransformError when the data cannot be written as a valid instance, as for
+ * `XmlTransformer.toXml`.
+ */
+export function toInlineXbrl(data: unknown, options: TransformOptions = {}): string {
+  const { compact = false, spaces = 2, includeDeclaration = true } = options;
+  const instance = XmlTransformer.toInstance(data, options);
+
+  const periodOf = new Map(instance.contexts.map(({ id, period }) => [id, period]));
+  const periodHeadings = Object.fromEntries(
+    (['current', 'prior'] as const).map((period) => {
+      const context = instance.contexts.find((candidate) => candidate.period === period);
+      return [period, context?.endDate ?? context?.instant ?? humanize(period)];
+    })
+  ) as Record<PeriodKey, string>;
+
+  const isHiddenSection = (fact: XbrlFact) => HIDDEN_SECTIONS.includes(fact.path[0]);
+  const companyName = instance.facts.find(
+    (fact) => fact.name === 'NameOfCompany' && periodOf.get(fact.contextRef) === 'current'
+  );
+  const cover = instance.facts.filter(
+    (fact) => isHiddenSection(fact) && COVER_ELEMENTS.includes(fact.name)
+  );
+  const hidden = instance.facts.filter(
+    (fact) => isHiddenSection(fact) && fact !== companyName && !cover.includes(fact)
+  );
+  const sections = sectionRows(
+    instance.facts.filter((fact) => !isHiddenSection(fact) && fact !== companyName),
+    periodOf
+  );
+
+  const title = String(companyName?.value ?? instance.entity.identifier);
+  const html = xmlElement(
+    'html',
+    {
+      xmlns: XHTML_NAMESPACE,
+      ...namespaceAttributes(instance),
+      ...Object.fromEntries(
+        Object.entries(INLINE_XBRL_NAMESPACES).map(([prefix, uri]) => [`xmlns:${prefix}`, uri])
+      ),
+      'xml:lang': 'en',
+    },
+    [
+      xmlElement('head', {}, [
+        xmlElement('meta', { 'http-equiv': 'Content-Type', content: 'text/html; charset=UTF-8' }),
+        xmlElement('title', {}, `${title} – Financial statements`),
+        xmlElement('style', { type: 'text/css' }, STYLES),
+      ]),
+      xmlElement('body', {}, [
+        inlineHeader(instance, hidden),
+        xmlElement('h1', {}, companyName ? [inlineFact(companyName)] : title),
+        ...(cover.length > 0
+          ? [sectionTable(cover.map((fact) => ({ label: humanize(fact.name), group: [], facts: { current: fact } })))]
+          : []),
+        ...[...sections].flatMap(([section, rows]) => [
+          xmlElement('h2', {}, SECTION_TITLES[section] ?? humanize(section)),
+          sectionTable(rows, periodHeadings),
+        ]),
+      ]),
+    ]
+  );
+
+  return js2xml(
+    {
+      ...(includeDeclaration && { declaration: { attributes: { version: '1.0', encoding: 'UTF-8' } } }),
+      elements: [html],
+    },
+    { spaces: compact ? 0 : spaces }
+  );
+}
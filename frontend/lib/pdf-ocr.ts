@@ -0,0 +1,158 @@
+/**
+ * OCR fallback for scanned PDF pages.
+ *
+ * Scanned annual reports have pages without a text layer, which PDFLoader skips or
+ * returns empty. Those pages are rendered with pdf.js, which draws on @napi-rs/canvas in
+ * Node, and read with tesseract.js, using the English language data bundled with
+ * @tesseract.js-data/eng so nothing is downloaded at runtime.
+ */
+
+import engData from '@tesseract.js-data/eng';
+import { createWorker, type Worker } from 'tesseract.js';
+import { PositionedText, reconstructTables, StatementTable } from './pdf-tables';
+
+/** Pages with fewer non-whitespace characters in their text layer are treated as images. */
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+/** Render scale; 2 gives about 144 DPI, enough for the body text of a statement. */
+const RENDER_SCALE = 2;
+
+export interface OcrPageResult {
+  text: string;
+  /** Mean word confidence reported by Tesseract, 0-100. */
+  confidence: number;
+  tables: StatementTable[];
+}
+
+interface OcrWord {
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+/** Thrown when a PDF has scanned pages but they cannot be rendered for OCR. */
+export class OcrUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrUnavailableError';
+  }
+}
+
+interface CanvasAndContext {
+  canvas: { toBuffer(mimeType: 'image/png'): Buffer };
+  context: unknown;
+}
+
+/**
+ * Whether a page's text layer is too thin to be the page content.
+ */
+export function needsOcr(text: string): boolean {
+  return text.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Convert OCR word boxes, measured in pixels from the top of the rendered image, into
+ * positioned text in PDF units measured from the bottom, so the statement tables can be
+ * rebuilt the same way as for pages with a text layer.
+ */
+export function wordsToPositionedText(
+  words: OcrWord[],
+  imageHeight: number,
+  scale = RENDER_SCALE,
+): PositionedText[] {
+  return words.map(({ text, bbox }) => ({
+    text,
+    x: bbox.x0 / scale,
+    y: (imageHeight - bbox.y1) / scale,
+    width: (bbox.x1 - bbox.x0) / scale,
+    height: (bbox.y1 - bbox.y0) / scale,
+  }));
+}
+
+/**
+ * Load @napi-rs/canvas, which pdf.js otherwise only tries to load once it renders a page.
+ * @throws OcrUnavailableError when it is not installed or does not load on this platform.
+ */
+async function loadCanvas(): Promise<void> {
+  try {
+    await import('@napi-rs/canvas');
+  } catch (error) {
+    throw new OcrUnavailableError(
+      `Scanned pages cannot be read because @napi-rs/canvas, which renders them for OCR, ` +
+        `could not be loaded: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Find the pages without a usable text layer and read them with OCR.
+ *
+ * @param data - The PDF file content.
+ * @returns The OCR result of each image-only page, keyed by 1-based page number. Empty
+ * when every page has a text layer.
+ * @throws OcrUnavailableError when there are scanned pages but no canvas to render them.
+ */
+export async function ocrImageOnlyPages(data: Uint8Array): Promise<Map<number, OcrPageResult>> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({
+    data,
+    useSystemFonts: true,
+    isEvalSupported: false,
+  }).promise;
+
+  const results = new Map<number, OcrPageResult>();
+  let worker: Worker | undefined;
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items.map((item) => ('str' in item ? item.str : '')).join('');
+      if (!needsOcr(text)) {
+        page.cleanup();
+        continue;
+      }
+
+      // The canvas and Tesseract are only loaded once a scanned page is found
+      if (!worker) await loadCanvas();
+      worker ??= await createWorker(engData.code, undefined, {
+        langPath: engData.langPath,
+        gzip: engData.gzip,
+        cacheMethod: 'none',
+      });
+
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const { canvas, context } = (
+        document.canvasFactory as { create(width: number, height: number): CanvasAndContext }
+      ).create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({
+        canvasContext: context as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+
+      const { data: result } = await worker.recognize(
+        canvas.toBuffer('image/png'),
+        {},
+        { text: true, blocks: true },
+      );
+      const words = (result.blocks ?? []).flatMap((block) =>
+        block.paragraphs.flatMap((paragraph) =>
+          paragraph.lines.flatMap((line) => line.words),
+        ),
+      );
+
+      results.set(pageNumber, {
+        text: result.text.trim(),
+        confidence: Math.round(result.confidence),
+        tables: reconstructTables(
+          wordsToPositionedText(words, Math.ceil(viewport.height)),
+          pageNumber,
+        ),
+      });
+      page.cleanup();
+    }
+  } finally {
+    await worker?.terminate();
+    await document.destroy();
+  }
+
+  return results;
+}
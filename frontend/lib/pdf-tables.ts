@@ -0,0 +1,299 @@
+/**
+ * Layout-aware table reconstruction for PDF pages.
+ *
+ * PDFLoader flattens a page to plain text, which loses the column alignment of the
+ * primary statements. This module reads the position of every text item with pdf.js and
+ * rebuilds the statement tables as grids of label, note reference and one column per
+ * period, so amounts stay attached to the right line and year.
+ */
+
+/** A run of text on the page with the position of its left edge and baseline. */
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ColumnRole = 'label' | 'note' | 'amount';
+
+export interface TableColumn {
+  role: ColumnRole;
+  header: string;
+}
+
+export interface TableRow {
+  label: string;
+  /** One cell per non-label column, empty when the line has no value in that column. */
+  cells: string[];
+}
+
+export interface StatementTable {
+  pageNumber: number;
+  columns: TableColumn[];
+  rows: TableRow[];
+}
+
+interface Cell {
+  text: string;
+  left: number;
+  right: number;
+}
+
+interface Line {
+  y: number;
+  cells: Cell[];
+}
+
+const AMOUNT_PATTERN = /^\(?-?\$?[\d,]+(\.\d+)?\)?$|^[-–—]$/;
+const NOTE_PATTERN = /^\d{1,2}(\.\d{1,2})?(\([a-z]\))?$/i;
+const YEAR_PATTERN = /^(19|20)\d{2}$/;
+
+/** Fewest lines with amounts for a run of lines to count as a table. */
+const MIN_AMOUNT_LINES = 3;
+/** Label-only lines, such as "Current assets", allowed inside a table. */
+const MAX_LABEL_LINES = 3;
+/** Distance, in PDF units, within which right edges belong to the same column. */
+const COLUMN_TOLERANCE = 12;
+
+const isAmount = (text: string) => AMOUNT_PATTERN.test(text) && !YEAR_PATTERN.test(text);
+
+/**
+ * Group text items into lines by baseline, then merge items that sit next to each other
+ * into cells. pdf.js often splits one word or number into several items.
+ */
+export function groupIntoLines(items: PositionedText[]): Line[] {
+  const sorted = items
+    .filter((item) => item.text.trim() !== '')
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: { y: number; items: PositionedText[] }[] = [];
+  for (const item of sorted) {
+    const tolerance = Math.max(item.height, 4) / 2;
+    const line = lines.find((candidate) => Math.abs(candidate.y - item.y) <= tolerance);
+    if (line) {
+      line.items.push(item);
+    } else {
+      lines.push({ y: item.y, items: [item] });
+    }
+  }
+
+  return lines.map(({ y, items: lineItems }) => {
+    const cells: Cell[] = [];
+    for (const item of lineItems.sort((a, b) => a.x - b.x)) {
+      const previous = cells[cells.length - 1];
+      // Items closer than about a character apart belong to the same cell
+      const gap = previous ? item.x - previous.right : Infinity;
+      if (previous && gap < Math.max(item.height, 4) * 0.6) {
+        previous.text += gap > 0.5 ? ` ${item.text.trim()}` : item.text.trim();
+        previous.right = item.x + item.width;
+      } else {
+        cells.push({ text: item.text.trim(), left: item.x, right: item.x + item.width });
+      }
+    }
+    return { y, cells };
+  });
+}
+
+/**
+ * Cluster right edges, since numbers in a statement are right aligned.
+ */
+function clusterRightEdges(cells: Cell[]): { right: number; cells: Cell[] }[] {
+  const clusters: { right: number; cells: Cell[] }[] = [];
+  for (const cell of [...cells].sort((a, b) => a.right - b.right)) {
+    const cluster = clusters.find(
+      (candidate) => Math.abs(candidate.right - cell.right) <= COLUMN_TOLERANCE,
+    );
+    if (cluster) {
+      cluster.cells.push(cell);
+      cluster.right =
+        cluster.cells.reduce((sum, { right }) => sum + right, 0) / cluster.cells.length;
+    } else {
+      clusters.push({ right: cell.right, cells: [cell] });
+    }
+  }
+  return clusters.sort((a, b) => a.right - b.right);
+}
+
+const nearestColumn = (anchors: number[], right: number) =>
+  anchors.reduce(
+    (best, anchor, index) =>
+      Math.abs(anchor - right) < Math.abs(anchors[best] - right) ? index : best,
+    0,
+  );
+
+/**
+ * Build a table from a run of lines. Returns undefined when the lines do not have at
+ * least one amount column.
+ */
+function buildTable(lines: Line[], pageNumber: number): StatementTable | undefined {
+  const valueCells = lines.flatMap(({ cells }) =>
+    cells.slice(1).filter(({ text }) => isAmount(text) || NOTE_PATTERN.test(text)),
+  );
+  const clusters = clusterRightEdges(valueCells).filter(
+    ({ cells }) => cells.length >= 2,
+  );
+
+  // The leftmost column holds the note references when it only has short integers
+  const hasNoteColumn =
+    clusters.length >= 2 && clusters[0].cells.every(({ text }) => NOTE_PATTERN.test(text));
+  const amountClusters = hasNoteColumn ? clusters.slice(1) : clusters;
+  if (amountClusters.length === 0) {
+    return undefined;
+  }
+
+  const anchors = clusters.map(({ right }) => right);
+  const firstValueLeft = Math.min(...clusters.flatMap(({ cells }) => cells.map(({ left }) => left)));
+
+  // Period headers (e.g. 2024 and 2023) name the amount columns when present
+  const headers = amountClusters.map((_, index) => `Amount ${index + 1}`);
+  const headerLine = lines.find(
+    ({ cells }) => cells.filter(({ text }) => YEAR_PATTERN.test(text)).length >= 2,
+  );
+  headerLine?.cells
+    .filter(({ text }) => YEAR_PATTERN.test(text))
+    .forEach(({ text, right }) => {
+      const column = nearestColumn(anchors, right) - (hasNoteColumn ? 1 : 0);
+      if (column >= 0) {
+        headers[column] = text;
+      }
+    });
+
+  const columns: TableColumn[] = [
+    { role: 'label', header: 'Line item' },
+    ...(hasNoteColumn ? [{ role: 'note' as const, header: 'Note' }] : []),
+    ...headers.map((header) => ({ role: 'amount' as const, header })),
+  ];
+
+  const rows: TableRow[] = [];
+  for (const line of lines) {
+    if (line === headerLine) {
+      continue;
+    }
+    const labelParts: string[] = [];
+    const cells = anchors.map(() => '');
+    for (const cell of line.cells) {
+      const isValue = isAmount(cell.text) || NOTE_PATTERN.test(cell.text);
+      if (!isValue || cell.right < firstValueLeft) {
+        labelParts.push(cell.text);
+        continue;
+      }
+      const column = nearestColumn(anchors, cell.right);
+      cells[column] = cells[column] ? `${cells[column]} ${cell.text}` : cell.text;
+    }
+    rows.push({ label: labelParts.join(' '), cells });
+  }
+
+  return { pageNumber, columns, rows };
+}
+
+/**
+ * Rebuild the statement tables on a page from its positioned text. A table is a run of
+ * consecutive lines, at least three of which have amounts after their label; label-only
+ * lines such as "Current assets" are kept inside the run.
+ */
+export function reconstructTables(
+  items: PositionedText[],
+  pageNumber: number,
+): StatementTable[] {
+  const lines = groupIntoLines(items);
+  const tables: StatementTable[] = [];
+
+  let run: Line[] = [];
+  let amountLines = 0;
+  let trailingLabels = 0;
+  const flush = () => {
+    const body = run.slice(0, run.length - trailingLabels);
+    if (amountLines >= MIN_AMOUNT_LINES) {
+      const table = buildTable(body, pageNumber);
+      if (table) {
+        tables.push(table);
+      }
+    }
+    run = [];
+    amountLines = 0;
+    trailingLabels = 0;
+  };
+
+  for (const line of lines) {
+    // The first cell is the label; a lone number is a page number or a heading
+    const hasAmount = line.cells.slice(1).some(({ text }) => isAmount(text));
+    const isHeader = line.cells.filter(({ text }) => YEAR_PATTERN.test(text)).length >= 2;
+
+    if (hasAmount) {
+      run.push(line);
+      amountLines += 1;
+      trailingLabels = 0;
+    } else if (isHeader && amountLines > 0) {
+      // A new period header starts a new table
+      flush();
+      run.push(line);
+    } else if (isHeader || (run.length > 0 && trailingLabels < MAX_LABEL_LINES)) {
+      run.push(line);
+      trailingLabels += 1;
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return tables;
+}
+
+/**
+ * Render a table as a pipe-delimited grid for the model.
+ */
+export function formatTableGrid(table: StatementTable): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|');
+  const header = `| ${table.columns.map(({ header }) => escape(header)).join(' | ')} |`;
+  const divider = `| ${table.columns.map(() => '---').join(' | ')} |`;
+  const rows = table.rows.map(
+    ({ label, cells }) => `| ${[label, ...cells].map(escape).join(' | ')} |`,
+  );
+  return [`[Table: page ${table.pageNumber}]`, header, divider, ...rows].join('\n');
+}
+
+/**
+ * Read the positioned text of every page with pdf.js and rebuild its tables.
+ *
+ * @param data - The PDF file content.
+ * @returns The tables found on each page, keyed by 1-based page number.
+ */
+export async function extractPageTables(
+  data: Uint8Array,
+): Promise<Map<number, StatementTable[]>> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({
+    data,
+    useSystemFonts: true,
+    isEvalSupported: false,
+  }).promise;
+
+  const tables = new Map<number, StatementTable[]>();
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = content.items.flatMap((item) =>
+        'str' in item
+          ? [{
+              text: item.str,
+              x: item.transform[4],
+              y: item.transform[5],
+              width: item.width,
+              height: item.height,
+            }]
+          : [],
+      );
+      const pageTables = reconstructTables(items, pageNumber);
+      if (pageTables.length > 0) {
+        tables.set(pageNumber, pageTables);
+      }
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+  return tables;
+}
@@ -4,6 +4,8 @@ import fs from 'fs/promises';
 import os from 'os';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { ocrImageOnlyPages, OcrPageResult, OcrUnavailableError } from './pdf-ocr';
+import { extractPageTables, formatTableGrid, StatementTable } from './pdf-tables';
 
 /**
  * Processes a PDF file by parsing it into Document objects.
@@ -21,13 +23,49 @@ export async function processPDF(file: File): Promise<Document[]> {
     const pdfId = uuidv4();
     const processedAt = new Date().toISOString();
 
-    const docs = await loader.load();
+    const loaded = await loader.load();
+    const tables = await extractTables(buffer, file.name);
+    const ocrPages = await readScannedPages(buffer, file.name);
+
+    // PDFLoader skips pages without a text layer, so scanned pages may have no document yet
+    const byPage = new Map<number, Document>(
+      loaded.map((doc) => [doc.metadata.loc?.pageNumber, doc]),
+    );
+    ocrPages.forEach((ocr, pageNumber) => {
+      const doc = byPage.get(pageNumber) ?? new Document({
+        pageContent: '',
+        metadata: { source: tempFilePath, pdf: loaded[0]?.metadata.pdf, loc: { pageNumber } },
+      });
+      doc.pageContent = ocr.text;
+      byPage.set(pageNumber, doc);
+    });
+    const docs = [...byPage.values()]
+      .filter((doc) => {
+        if (doc.pageContent.trim() !== '') return true;
+        console.warn(`Page ${doc.metadata.loc?.pageNumber} of ${file.name} has no text, skipping`);
+        return false;
+      })
+      .sort((a, b) => (a.metadata.loc?.pageNumber ?? 0) - (b.metadata.loc?.pageNumber ?? 0));
 
     // Add metadata to each document
     docs.forEach((doc) => {
+      const pageNumber = doc.metadata.loc?.pageNumber;
+      const ocr = ocrPages.get(pageNumber);
       doc.metadata.filename = file.name;
+      doc.metadata.fileType = 'pdf';
       doc.metadata.pdfId = pdfId;
       doc.metadata.processedAt = processedAt;
+      doc.metadata.textSource = ocr ? 'ocr' : 'text-layer';
+      if (ocr) {
+        doc.metadata.ocrConfidence = ocr.confidence;
+      }
+
+      // Append the rebuilt statement tables so the model sees the column alignment
+      const pageTables = ocr?.tables ?? tables.get(pageNumber) ?? [];
+      if (pageTables.length > 0) {
+        doc.pageContent += `\n\n${pageTables.map(formatTableGrid).join('\n\n')}`;
+        doc.metadata.tableCount = pageTables.length;
+      }
     });
 
     return docs;
@@ -41,6 +79,48 @@ export async function processPDF(file: File): Promise<Document[]> {
   }
 }
 
+/**
+ * Rebuilds the statement tables of each page. Table reconstruction is best effort: the
+ * flattened text is still usable, so a failure is logged rather than failing the upload.
+ * @param buffer - The PDF file content.
+ * @param filename - Name of the file, for the log.
+ * @returns The tables found on each page, keyed by page number.
+ */
+async function extractTables(
+  buffer: Buffer,
+  filename: string,
+): Promise<Map<number, StatementTable[]>> {
+  try {
+    return await extractPageTables(new Uint8Array(buffer));
+  } catch (error) {
+    console.error(`Error reconstructing tables from ${filename}:`, error);
+    return new Map();
+  }
+}
+
+/**
+ * Reads the pages that have no text layer with OCR. A failure to recognise them is logged
+ * and leaves those pages out, but missing OCR support fails the file, so scanned pages are
+ * never dropped without the upload saying so.
+ * @param buffer - The PDF file content.
+ * @param filename - Name of the file, for the log.
+ * @returns The OCR text, confidence and tables of each scanned page, keyed by page number.
+ */
+async function readScannedPages(
+  buffer: Buffer,
+  filename: string,
+): Promise<Map<number, OcrPageResult>> {
+  try {
+    return await ocrImageOnlyPages(new Uint8Array(buffer));
+  } catch (error) {
+    if (error instanceof OcrUnavailableError) {
+      throw error;
+    }
+    console.error(`Error running OCR on ${filename}:`, error);
+    return new Map();
+  }
+}
+
 /**
  * Converts a File object to a Buffer.
  * @param file - The uploaded file.
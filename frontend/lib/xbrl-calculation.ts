@@ -0,0 +1,146 @@
+/**
+ * XBRL Calculation Validation
+ *
+ * Checks the facts of a filing against the summation-item relationships of the
+ * calculation linkbase: in each context, a total must equal the weighted sum of its
+ * items, within the rounding their `decimals` allow. Each fact reported with `decimals`
+ * d stands for any value within half of 10^-d of it (Calculations 1.1), so a total is
+ * consistent when the ranges of the total and of the weighted sum of the items overlap.
+ *
+ * The facts are those of `XmlTransformer.toInstance` and the relationships those of
+ * the taxonomy catalog (`xbrl-taxonomy.ts`), so the checks run without the validation
+ * service, in the route and in tests alike.
+ */
+
+import { ARCROLES, TaxonomyRelationship } from './xbrl-taxonomy';
+import { XbrlFact, XbrlInstance } from './xml-transformer';
+
+export interface CalculationItem {
+  concept: string;
+  weight: number;
+  value: number;
+  decimals?: string;
+}
+
+/** A total that is not the weighted sum of its items in one context. */
+export interface CalculationInconsistency {
+  /** Extended link role of the calculation, e.g. the statement's role. */
+  role: string;
+  /** Qualified name of the total. */
+  total: string;
+  contextRef: string;
+  unitRef?: string;
+  reported: number;
+  computed: number;
+  difference: number;
+  /** Largest difference the rounding of the total and its items accounts for. */
+  tolerance: number;
+  /** The items reported in the context, which make up `computed`. */
+  items: CalculationItem[];
+}
+
+export interface CalculationResult {
+  /** Number of totals checked: one per calculation and context with a total and an item. */
+  checked: number;
+  inconsistencies: CalculationInconsistency[];
+}
+
+/** Half the rounding step of a fact: 0.5 for `decimals="0"`, 500 for `-3`, 0 for `INF`. */
+const roundingMargin = (decimals?: string): number =>
+  decimals === undefined || decimals === 'INF' ? 0 : 0.5 * 10 ** -Number(decimals);
+
+const isNumericFact = (fact: XbrlFact): fact is XbrlFact & { value: number } =>
+  !!fact.unitRef && typeof fact.value === 'number';
+
+/**
+ * Check the facts of an instance against calculation relationships. Relationships of
+ * other arcroles are ignored. A calculation is checked in every context and unit where
+ * its total and at least one item are reported; items not reported are left out of the
+ * sum, and nil facts are not checked.
+ * @param instance - The resolved facts of the filing.
+ * @param relationships - Calculation relationships, e.g. `catalog.relationships.calculation`.
+ * @returns The number of totals checked and those that are inconsistent.
+ */
+export function validateCalculations(
+  instance: XbrlInstance,
+  relationships: TaxonomyRelationship[]
+): CalculationResult {
+  const facts = new Map<string, XbrlFact & { value: number }>();
+  instance.facts.filter(isNumericFact).forEach((fact) => {
+    facts.set(`${fact.prefix}:${fact.name}@${fact.contextRef}`, fact);
+  });
+
+  // Calculations are separate in each extended link role
+  const calculations = new Map<string, TaxonomyRelationship[]>();
+  relationships
+    .filter(({ arcrole }) => arcrole === ARCROLES.summationItem)
+    .forEach((relationship) => {
+      const key = `${relationship.role}\n${relationship.from}`;
+      calculations.set(key, [...(calculations.get(key) ?? []), relationship]);
+    });
+
+  const contextRefs = [...new Set([...facts.values()].map(({ contextRef }) => contextRef))];
+  const inconsistencies: CalculationInconsistency[] = [];
+  let checked = 0;
+
+  calculations.forEach((arcs) => {
+    const { role, from: total } = arcs[0];
+    arcs.sort((a, b) => a.order - b.order);
+    contextRefs.forEach((contextRef) => {
+      const totalFact = facts.get(`${total}@${contextRef}`);
+      if (!totalFact) return;
+
+      const items: CalculationItem[] = arcs
+        .map(({ to, weight = 1 }) => ({ weight, fact: facts.get(`${to}@${contextRef}`) }))
+        .filter(
+          (item): item is { weight: number; fact: XbrlFact & { value: number } } =>
+            !!item.fact && item.fact.unitRef === totalFact.unitRef
+        )
+        .map(({ weight, fact }) => ({
+          concept: `${fact.prefix}:${fact.name}`,
+          weight,
+          value: fact.value,
+          decimals: fact.decimals,
+        }));
+      if (items.length === 0) return;
+
+      checked += 1;
+      const computed = items.reduce((sum, { weight, value }) => sum + weight * value, 0);
+      const tolerance =
+        roundingMargin(totalFact.decimals) +
+        items.reduce((sum, { weight, decimals }) => sum + Math.abs(weight) * roundingMargin(decimals), 0);
+      const difference = totalFact.value - computed;
+
+      if (Math.abs(difference) > tolerance) {
+        inconsistencies.push({
+          role,
+          total,
+          contextRef,
+          unitRef: totalFact.unitRef,
+          reported: totalFact.value,
+          computed,
+          difference,
+          tolerance,
+          items,
+        });
+      }
+    });
+  });
+
+  return { checked, inconsistencies };
+}
+
+/**
+ * Describe an inconsistency in a sentence, e.g. for a validation message:
+ * `sg-as:ProfitLoss in CurrentYearDuration is 900, but its items sum to 1,000 (...)`.
+ */
+export function describeInconsistency(inconsistency: CalculationInconsistency): string {
+  const format = (value: number) => value.toLocaleString('en-US');
+  const items = inconsistency.items
+    .map(({ concept, weight, value }) => `${weight < 0 ? '-' : '+'} ${concept} ${format(value)}`)
+    .join(' ');
+  return (
+    `${inconsistency.total} in ${inconsistency.contextRef} is ${format(inconsistency.reported)}, ` +
+    `but its items sum to ${format(inconsistency.computed)} (${items})`
+  );
+}
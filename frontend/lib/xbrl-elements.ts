@@ -0,0 +1,71 @@
+/**
+ * XBRL Elements
+ *
+ * Where the fields of the JSON model live in the ACRA taxonomy: the namespace of each
+ * section's elements and the few elements whose names differ from their schema field.
+ * Shared by the instance import (`xbrl-import.ts`) and generation (`xml-transformer.ts`).
+ */
+
+/** The ACRA taxonomy entry point instances refer to in their `schemaRef`. */
+export const ACRA_SCHEMA_REF =
+  'https://www.acra.gov.sg/xbrl-collection/taxonomy/2022/ACRA_Taxonomy_2022.xsd';
+
+/** Namespaces of the ACRA taxonomy by prefix. */
+export const ACRA_NAMESPACES: Record<string, string> = {
+  'sg-dei': 'http://www.acra.gov.sg/taxonomy/2022/sg-dei',
+  'sg-as': 'http://www.acra.gov.sg/taxonomy/2022/sg-as',
+  'sg-ssa': 'http://www.acra.gov.sg/taxonomy/2022/sg-ssa',
+};
+
+/** Namespaces of XBRL itself by prefix. */
+export const XBRL_NAMESPACES: Record<string, string> = {
+  xbrli: 'http://www.xbrl.org/2003/instance',
+  link: 'http://www.xbrl.org/2003/linkbase',
+  xlink: 'http://www.w3.org/1999/xlink',
+  xsi: 'http://www.w3.org/2001/XMLSchema-instance',
+  iso4217: 'http://www.xbrl.org/2003/iso4217',
+};
+
+/**
+ * Prefix of the elements of each section. Sections not listed are financial statements
+ * and notes, in `sg-as`.
+ */
+const SECTION_PREFIXES: Record<string, string> = {
+  filingInformation: 'sg-dei',
+  directorsStatement: 'sg-dei',
+  auditReport: 'sg-ssa',
+};
+
+export const prefixForSection = (section: string): string => SECTION_PREFIXES[section] ?? 'sg-as';
+
+/**
+ * Schema fields named differently from their taxonomy element, by element name. Where a
+ * field was renamed between the Partial and Full schemas, both names are listed.
+ */
+export const ELEMENT_ALIASES: Record<string, string[]> = {
+  WhetherFinancialStatementsArePreparedOnGoingConcernBasis: [
+    'WhetherTheFinancialStatementsArePreparedOnGoingConcernBasis',
+  ],
+  WhetherThereAreChangesToComparativeAmountsDueToRestatementsReclassificationOrOtherReasons: [
+    'WhetherThereAreChangesToComparativeAmountsDueToRestatementsReclassificationOrOtherReasons',
+    'WhetherThereAreAnyChangesToComparativeAmounts',
+  ],
+  NameAndVersionOfSoftwareUsedToGenerateInstanceDocument: [
+    'NameAndVersionOfSoftwareUsedToGenerateXBRLFile',
+  ],
+  HowWasXBRLInstanceDocumentPrepared: ['HowWasXBRLFilePrepared'],
+  AuditingStandardsUsedToConductAudit: ['AuditingStandardsUsedToConductTheAudit'],
+  WhetherInAuditorsOpinionAccountingAndOtherRecordsRequiredAreProperlyKeptInAccordanceWithCompaniesAct: [
+    'WhetherInAuditorsOpinionAccountingAndOtherRecordsRequiredAreProperlyKept',
+  ],
+};
+
+const ELEMENTS_BY_FIELD = new Map(
+  Object.entries(ELEMENT_ALIASES).flatMap(([element, fields]) =>
+    fields.map((field) => [field, element] as const)
+  )
+);
+
+/** Name of the taxonomy element a schema field is reported as. */
+export const elementNameForField = (field: string): string =>
+  ELEMENTS_BY_FIELD.get(field) ?? field;
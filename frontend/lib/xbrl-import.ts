@@ -0,0 +1,431 @@
+/**
+ * XBRL Instance Import
+ *
+ * Reads an XBRL instance document, such as last year's filing, back into the JSON shape
+ * of `FullXBRL` / `PartialXBRL`, so it can be edited and used as the baseline of the next
+ * filing. Facts are matched to schema fields by element name, with the namespace prefix
+ * dropped; those of the prior period are placed under `priorPeriod`.
+ *
+ * Facts may be flat under the root, as in filed instances, or nested in the section
+ * abstracts with the context given once on the abstract. An element name used by more
+ * than one section (e.g. `Revenue`) is placed in the section of its enclosing abstract.
+ */
+
+import { xml2js, Element } from 'xml-js';
+import { ZodTypeAny } from 'zod';
+import { FullXBRLSchema, PartialXBRLSchema } from '../../backend/src/retrieval_graph/schema';
+import { ELEMENT_ALIASES } from './xbrl-elements';
+import { getNextReportingPeriod, PeriodKey } from './xbrl-periods';
+
+export interface ImportedContext {
+  id: string;
+  period?: PeriodKey;
+  identifier?: string;
+  startDate?: string;
+  endDate?: string;
+  instant?: string;
+  hasDimensions: boolean;
+}
+
+/** A value of the JSON model: a field's value, or a section of fields. */
+export type ImportedValue = string | number | boolean | null | ImportedSection;
+
+/** A section of the JSON model, or the whole filing, by field name. */
+export interface ImportedSection {
+  [field: string]: ImportedValue;
+}
+
+export interface ImportedXbrl {
+  data: ImportedSection;
+  filingType: 'Full' | 'Partial';
+  contexts: ImportedContext[];
+  /** Measure of each unit by id, e.g. `iso4217:SGD`, or `a/b` for a ratio. */
+  units: Record<string, string>;
+  /** Number of facts placed in `data`. */
+  factCount: number;
+  /** Names of elements with a value that no schema field takes. */
+  unmappedElements: string[];
+  warnings: string[];
+  /** Where the imported data does not satisfy the schema, as `path: message`. */
+  issues: string[];
+}
+
+type FieldKind = 'number' | 'boolean' | 'string';
+
+interface SchemaField {
+  path: string[];
+  kind: FieldKind;
+  nullable: boolean;
+}
+
+/** Sections of the schema by the abstract element that holds their facts. */
+const SECTION_ABSTRACTS: Record<string, string[]> = {
+  DisclosureOfFilingInformationAbstract: ['filingInformation'],
+  DisclosureInStatementByDirectorsAbstract: ['directorsStatement'],
+  DisclosuresInIndependentAuditorsReportAbstract: ['auditReport'],
+  StatementOfFinancialPositionAbstract: ['statementOfFinancialPosition'],
+  StatementOfProfitOrLossAbstract: ['incomeStatement'],
+  StatementOfCashFlowsAbstract: ['statementOfCashFlows'],
+  TradeAndOtherReceivablesAbstract: ['notes', 'tradeAndOtherReceivables'],
+  TradeAndOtherPayablesAbstract: ['notes', 'tradeAndOtherPayables'],
+  DisclosureOfRevenueAbstract: ['notes', 'revenue'],
+};
+
+/** Elements of the instance itself rather than facts of the filing. */
+const INFRASTRUCTURE_ELEMENTS = new Set([
+  'schemaRef',
+  'linkbaseRef',
+  'roleRef',
+  'arcroleRef',
+  'context',
+  'unit',
+  'footnoteLink',
+]);
+
+/** Sections whose comparatives `priorPeriod` holds. */
+const PRIOR_PERIOD_SECTIONS = [
+  'statementOfFinancialPosition',
+  'incomeStatement',
+  'notes',
+  'statementOfCashFlows',
+];
+
+const localName = (name = '') => name.slice(name.indexOf(':') + 1);
+
+const childElements = (element: Element): Element[] =>
+  (element.elements ?? []).filter((child) => child.type === 'element');
+
+const childNamed = (element: Element, name: string): Element | undefined =>
+  childElements(element).find((child) => localName(child.name) === name);
+
+const textOf = (element?: Element): string =>
+  (element?.elements ?? [])
+    .filter((child) => child.type === 'text' || child.type === 'cdata')
+    .map((child) => String(child.text ?? child.cdata ?? ''))
+    .join('')
+    .trim();
+
+const attribute = (element: Element, name: string): string | undefined => {
+  const entry = Object.entries(element.attributes ?? {}).find(([key]) => localName(key) === name);
+  return entry?.[1] === undefined ? undefined : String(entry[1]);
+};
+
+/**
+ * The leaf fields of a schema, as paths of field names with the kind of value each
+ * takes. Lists and `priorPeriod` are left out.
+ */
+function collectFields(schema: ZodTypeAny, path: string[] = [], nullable = false): SchemaField[] {
+  const typeName = schema._def.typeName;
+  switch (typeName) {
+    case 'ZodOptional':
+    case 'ZodDefault':
+      return collectFields(schema._def.innerType, path, nullable);
+    case 'ZodNullable':
+      return collectFields(schema._def.innerType, path, true);
+    case 'ZodEffects':
+      return collectFields(schema._def.schema, path, nullable);
+    case 'ZodObject':
+      return Object.entries(schema._def.shape() as Record<string, ZodTypeAny>)
+        .filter(([key]) => !(path.length === 0 && key === 'priorPeriod'))
+        .flatMap(([key, value]) => collectFields(value, [...path, key]));
+    case 'ZodNumber':
+      return [{ path, kind: 'number', nullable }];
+    case 'ZodBoolean':
+      return [{ path, kind: 'boolean', nullable }];
+    case 'ZodString':
+    case 'ZodEnum':
+    case 'ZodLiteral':
+      return [{ path, kind: 'string', nullable }];
+    default:
+      return [];
+  }
+}
+
+const fieldsByName = (schema: ZodTypeAny): Map<string, SchemaField[]> => {
+  const byName = new Map<string, SchemaField[]>();
+  collectFields(schema).forEach((field) => {
+    const name = field.path[field.path.length - 1];
+    byName.set(name, [...(byName.get(name) ?? []), field]);
+  });
+  return byName;
+};
+
+const FIELDS: Record<ImportedXbrl['filingType'], Map<string, SchemaField[]>> = {
+  Full: fieldsByName(FullXBRLSchema),
+  Partial: fieldsByName(PartialXBRLSchema),
+};
+
+/**
+ * The schema field an element's value belongs in: the one inside the enclosing section
+ * if the name is used by several sections, otherwise the first with the name.
+ */
+const fieldFor = (
+  fields: Map<string, SchemaField[]>,
+  element: string,
+  section: string[] | undefined
+): SchemaField | undefined => {
+  const names = ELEMENT_ALIASES[element] ?? [element];
+  const candidates = fields.get(names.find((name) => fields.has(name)) ?? '') ?? [];
+  return (
+    candidates.find(
+      ({ path }) => section && section.every((key, index) => path[index] === key)
+    ) ?? candidates[0]
+  );
+};
+
+/**
+ * The value of a fact as the kind its field takes, or undefined if it cannot be read
+ * as one.
+ */
+const coerceValue = (text: string, kind: FieldKind): string | number | boolean | undefined => {
+  if (kind === 'number') {
+    const value = Number(text);
+    return text !== '' && Number.isFinite(value) ? value : undefined;
+  }
+  if (kind === 'boolean') {
+    if (text === 'true' || text === '1') return true;
+    if (text === 'false' || text === '0') return false;
+    return undefined;
+  }
+  return text;
+};
+
+const isSection = (value: ImportedValue | undefined): value is ImportedSection =>
+  typeof value === 'object' && value !== null;
+
+const setPath = (target: ImportedSection, path: string[], value: ImportedValue) => {
+  const parent = path.slice(0, -1).reduce((node, key) => {
+    const child = node[key];
+    return isSection(child) ? child : (node[key] = {});
+  }, target);
+  parent[path[path.length - 1]] = value;
+};
+
+const getPath = (source: ImportedSection, path: string[]): ImportedValue | undefined =>
+  path.reduce<ImportedValue | undefined>(
+    (node, key) => (isSection(node) ? node[key] : undefined),
+    source
+  );
+
+const readContext = (element: Element): ImportedContext => {
+  const entity = childNamed(element, 'entity');
+  const period = childNamed(element, 'period');
+  const text = (name: string) =>
+    (period && textOf(childNamed(period, name))) || undefined;
+  return {
+    id: attribute(element, 'id') ?? '',
+    identifier: (entity && textOf(childNamed(entity, 'identifier'))) || undefined,
+    startDate: text('startDate'),
+    endDate: text('endDate'),
+    instant: text('instant'),
+    hasDimensions: Boolean(
+      (entity && childNamed(entity, 'segment')) || childNamed(element, 'scenario')
+    ),
+  };
+};
+
+const readUnit = (element: Element): string => {
+  const measures = (parent?: Element) =>
+    (parent ? childElements(parent) : [])
+      .filter((child) => localName(child.name) === 'measure')
+      .map(textOf)
+      .join('*');
+  const divide = childNamed(element, 'divide');
+  return divide
+    ? `${measures(childNamed(divide, 'unitNumerator'))}/${measures(childNamed(divide, 'unitDenominator'))}`
+    : measures(element);
+};
+
+const contextEnd = (context: ImportedContext) => context.endDate ?? context.instant;
+
+/**
+ * Parse an XBRL instance document into the JSON shape of the extraction.
+ *
+ * Contexts ending on the current period end (the `CurrentPeriodEndDate` fact, or else the
+ * latest context end) are the current period; those ending on or before the current
+ * period start are the prior period. Facts of other contexts, or of contexts with
+ * dimensions, have no place in the JSON shape and are reported in `warnings`.
+ * @param xml - The instance document.
+ * @returns The imported data, with what could not be imported.
+ */
+export function parseXbrlInstance(xml: string): ImportedXbrl {
+  let document: Element;
+  try {
+    document = xml2js(xml, { compact: false }) as Element;
+  } catch (error) {
+    throw new Error(
+      `Invalid XBRL instance: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  const root = childElements(document)[0];
+  if (!root || localName(root.name) !== 'xbrl') {
+    throw new Error(`Not an XBRL instance: root element is ${root?.name ?? 'missing'}`);
+  }
+
+  const contexts = childElements(root)
+    .filter((child) => localName(child.name) === 'context')
+    .map(readContext);
+  const units = Object.fromEntries(
+    childElements(root)
+      .filter((child) => localName(child.name) === 'unit')
+      .map((unit) => [attribute(unit, 'id') ?? '', readUnit(unit)])
+  );
+
+  // Facts in document order, with the context and section they inherit from abstracts
+  const facts: { name: string; element: Element; contextRef?: string; section?: string[] }[] = [];
+  const walk = (element: Element, contextRef?: string, section?: string[]) => {
+    childElements(element).forEach((child) => {
+      const name = localName(child.name);
+      if (INFRASTRUCTURE_ELEMENTS.has(name)) return;
+      const childContext = attribute(child, 'contextRef') ?? contextRef;
+      if (childElements(child).length > 0) {
+        walk(child, childContext, SECTION_ABSTRACTS[name] ?? section);
+      } else {
+        facts.push({ name, element: child, contextRef: childContext, section });
+      }
+    });
+  };
+  walk(root);
+
+  const factText = (name: string) => {
+    const fact = facts.find((candidate) => candidate.name === name);
+    return fact ? textOf(fact.element) || undefined : undefined;
+  };
+  const filingType = factText('TypeOfXBRLFiling') === 'Full' ? 'Full' : 'Partial';
+  const fields = FIELDS[filingType];
+
+  const currentEnd =
+    factText('CurrentPeriodEndDate') ??
+    contexts.map(contextEnd).filter(Boolean).sort().pop();
+  const currentStart = factText('CurrentPeriodStartDate');
+  contexts.forEach((context) => {
+    const end = contextEnd(context);
+    if (end && end === currentEnd) {
+      context.period = 'current';
+    } else if (end && currentEnd && end < (currentStart ?? currentEnd)) {
+      context.period = 'prior';
+    }
+  });
+  const contextById = new Map(contexts.map((context) => [context.id, context]));
+
+  const data: ImportedSection = {};
+  const warnings: string[] = [];
+  const unmapped = new Set<string>();
+  let factCount = 0;
+
+  facts.forEach(({ name, element, contextRef, section }) => {
+    const nil = attribute(element, 'nil') === 'true';
+    const text = textOf(element);
+    if (!nil && text === '') return;
+
+    const field = fieldFor(fields, name, section);
+    if (!field) {
+      unmapped.add(name);
+      return;
+    }
+
+    const context = contextRef ? contextById.get(contextRef) : undefined;
+    if (!context) {
+      warnings.push(`${name}: context ${contextRef ?? '(none)'} is not defined`);
+      return;
+    }
+    if (context.hasDimensions) {
+      warnings.push(`${name}: context ${context.id} has dimensions, which are not imported`);
+      return;
+    }
+    if (!context.period) {
+      warnings.push(`${name}: context ${context.id} is neither the current nor the prior period`);
+      return;
+    }
+    const isPrior = context.period === 'prior';
+    if (isPrior && !PRIOR_PERIOD_SECTIONS.includes(field.path[0])) {
+      warnings.push(`${name}: prior-period values of ${field.path[0]} are not imported`);
+      return;
+    }
+
+    const unitRef = attribute(element, 'unitRef');
+    if (unitRef && !(unitRef in units)) {
+      warnings.push(`${name}: unit ${unitRef} is not defined`);
+    }
+
+    let value: ImportedValue;
+    if (nil) {
+      if (!field.nullable) return;
+      value = null;
+    } else {
+      const coerced = coerceValue(text, field.kind);
+      if (coerced === undefined) {
+        warnings.push(`${name}: "${text}" is not a valid ${field.kind}`);
+        return;
+      }
+      value = coerced;
+    }
+
+    const path = isPrior ? ['priorPeriod', ...field.path] : field.path;
+    const existing = getPath(data, path);
+    if (existing !== undefined) {
+      if (existing !== value) {
+        warnings.push(`${name}: conflicting values ${existing} and ${value}, kept ${existing}`);
+      }
+      return;
+    }
+    setPath(data, path, value);
+    factCount += 1;
+  });
+
+  const currencies = new Set(
+    Object.values(units)
+      .filter((measure) => /^iso4217:/.test(measure))
+      .map((measure) => measure.replace(/^iso4217:/, ''))
+  );
+  if (currencies.size > 1) {
+    warnings.push(`Amounts are reported in several currencies: ${[...currencies].join(', ')}`);
+  }
+
+  const validation = (filingType === 'Full' ? FullXBRLSchema : PartialXBRLSchema).safeParse(data);
+  const issues = validation.success
+    ? []
+    : validation.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+
+  return {
+    data,
+    filingType,
+    contexts,
+    units,
+    factCount,
+    unmappedElements: [...unmapped],
+    warnings,
+    issues,
+  };
+}
+
+/**
+ * Turn an imported filing into the starting point of the next one: its statements
+ * become the `priorPeriod` comparatives and the period dates move on a year. The
+ * current-period statements, the directors' statement and the audit report are left for
+ * the new filing, as is the date of authorisation.
+ * @param data - A filing in the JSON shape, e.g. `parseXbrlInstance(xml).data`.
+ * @returns The data of the next filing.
+ */
+export function toBaseline(data: ImportedSection): ImportedSection {
+  const filingInformation: ImportedSection = {
+    ...(isSection(data.filingInformation) ? data.filingInformation : {}),
+  };
+  delete filingInformation.DateOfAuthorisationForIssueOfFinancialStatements;
+  const priorPeriod: ImportedSection = Object.fromEntries(
+    PRIOR_PERIOD_SECTIONS.filter((section) => data[section] !== undefined).map((section) => [
+      section,
+      structuredClone(data[section]),
+    ])
+  );
+
+  const nextPeriod = Object.fromEntries(
+    Object.entries(getNextReportingPeriod(filingInformation)).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined
+    )
+  );
+  return {
+    filingInformation: { ...filingInformation, ...nextPeriod },
+    ...(Object.keys(priorPeriod).length > 0 && { priorPeriod }),
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * XBRL Open Information Model Export
+ *
+ * Writes a filing in the OIM formats, for tools that read XBRL as data rather than XML:
+ * - xBRL-JSON: one JSON document with every fact and its dimensions;
+ * - xBRL-CSV: a metadata JSON describing the tables, and one CSV table per section of
+ *   the filing, with a row per fact.
+ *
+ * The facts, contexts and units are those of the XML instance (`XmlTransformer.toInstance`).
+ * OIM has no contexts: each fact carries its entity, period and unit as dimensions, with
+ * periods written as date-times, so a period ending 2024-12-31 ends at 2025-01-01T00:00:00.
+ */
+
+import { TransformOptions, XbrlFact, XbrlInstance, XmlTransformError, XmlTransformer } from './xml-transformer';
+import { XBRL_NAMESPACES } from './xbrl-elements';
+import { nextDay, PeriodContext } from './xbrl-periods';
+
+export const XBRL_JSON_DOCUMENT_TYPE = 'https://xbrl.org/2021/xbrl-json';
+export const XBRL_CSV_DOCUMENT_TYPE = 'https://xbrl.org/2021/xbrl-csv';
+
+/** Prefix of the entity identifier scheme in the `entity` dimension, e.g. `acra:201912345A`. */
+const ENTITY_PREFIX = 'acra';
+
+export interface OimDimensions {
+  concept: string;
+  entity: string;
+  period: string;
+  unit?: string;
+}
+
+export interface XbrlJsonFact {
+  value: string | null;
+  decimals?: number;
+  dimensions: OimDimensions;
+}
+
+export interface XbrlJsonDocument {
+  documentInfo: {
+    documentType: string;
+    namespaces: Record<string, string>;
+    taxonomy: string[];
+  };
+  facts: Record<string, XbrlJsonFact>;
+}
+
+interface OimFact extends XbrlJsonFact {
+  /** Section of the filing the fact is in. */
+  section: string;
+}
+
+const dateTime = (date: string) => `${nextDay(date) ?? date}T00:00:00`;
+
+/** A context's period as an OIM period: an instant, or a start and end instant. */
+const oimPeriod = ({ id, instant, startDate, endDate }: PeriodContext): string => {
+  if (instant) return dateTime(instant);
+  if (!startDate || !endDate) {
+    throw new XmlTransformError(`Context ${id} has neither an instant nor a start and end date`);
+  }
+  return `${startDate}T00:00:00/${dateTime(endDate)}`;
+};
+
+/** Namespaces of the prefixes OIM documents use: the facts', the units' and the entity's. */
+const oimNamespaces = (instance: XbrlInstance): Record<string, string> => ({
+  xbrli: XBRL_NAMESPACES.xbrli,
+  iso4217: XBRL_NAMESPACES.iso4217,
+  ...instance.namespaces,
+  [ENTITY_PREFIX]: instance.entity.scheme,
+});
+
+/**
+ * The facts of a filing with their OIM dimensions. Facts measured in `xbrli:pure` have
+ * no unit dimension, as OIM requires; facts of infinite precision have no decimals.
+ */
+function oimFacts(data: unknown, options: TransformOptions): { instance: XbrlInstance; facts: OimFact[] } {
+  const instance = XmlTransformer.toInstance(data, options);
+  const contexts = new Map(instance.contexts.map((context) => [context.id, context]));
+  const measures = new Map(instance.units.map(({ id, measure }) => [id, measure]));
+  const entity = `${ENTITY_PREFIX}:${instance.entity.identifier}`;
+
+  const facts = instance.facts.map((fact: XbrlFact): OimFact => {
+    const unit = fact.unitRef ? measures.get(fact.unitRef) : undefined;
+    const context = contexts.get(fact.contextRef);
+    if (!context) {
+      throw new XmlTransformError(`Fact ${fact.prefix}:${fact.name} refers to unknown context ${fact.contextRef}`);
+    }
+    return {
+      section: fact.path[0],
+      value: fact.value === null ? null : String(fact.value),
+      ...(fact.decimals !== undefined && fact.decimals !== 'INF' && { decimals: Number(fact.decimals) }),
+      dimensions: {
+        concept: `${fact.prefix}:${fact.name}`,
+        entity,
+        period: oimPeriod(context),
+        ...(unit && unit !== 'xbrli:pure' && { unit }),
+      },
+    };
+  });
+  return { instance, facts };
+}
+
+/**
+ * Write a filing (the JSON model or tagged data) as an xBRL-JSON document.
+ * @throws XmlTransformError when the data cannot be written as a valid instance.
+ */
+export function toXbrlJson(data: unknown, options: TransformOptions = {}): XbrlJsonDocument {
+  const { instance, facts } = oimFacts(data, options);
+  return {
+    documentInfo: {
+      documentType: XBRL_JSON_DOCUMENT_TYPE,
+      namespaces: oimNamespaces(instance),
+      taxonomy: [instance.schemaRef],
+    },
+    facts: Object.fromEntries(
+      facts.map(({ value, decimals, dimensions }, index): [string, XbrlJsonFact] => [
+        `f${index + 1}`,
+        { value, ...(decimals !== undefined && { decimals }), dimensions },
+      ])
+    ),
+  };
+}
+
+/** A CSV field, quoted when it has a separator, quote or line break. */
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ['concept', 'period', 'unit', 'decimals', 'value'] as const;
+
+/** A fact's value in xBRL-CSV, where an empty cell is no fact at all. */
+const csvValue = (value: string | null) => {
+  if (value === null) return '#nil';
+  return value === '' ? '#empty' : value;
+};
+
+/**
+ * Write a filing (the JSON model or tagged data) as xBRL-CSV: the metadata, as
+ * `<baseName>.json`, and a `<baseName>-<section>.csv` table per section, all sharing one
+ * table template. The tables are referred to by relative URL, so the files belong in the
+ * same directory.
+ * @returns The files by name.
+ * @throws XmlTransformError when the data cannot be written as a valid instance.
+ */
+export function toXbrlCsv(
+  data: unknown,
+  baseName = 'filing',
+  options: TransformOptions = {}
+): Record<string, string> {
+  const { instance, facts } = oimFacts(data, options);
+
+  const sections = new Map<string, OimFact[]>();
+  facts.forEach((fact) => sections.set(fact.section, [...(sections.get(fact.section) ?? []), fact]));
+
+  const tables = Object.fromEntries(
+    [...sections].map(([section, sectionFacts]) => {
+      const rows = sectionFacts.map(({ value, decimals, dimensions }) =>
+        [dimensions.concept, dimensions.period, dimensions.unit, decimals, csvValue(value)]
+          .map(csvField)
+          .join(',')
+      );
+      return [`${baseName}-${section}.csv`, [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'];
+    })
+  );
+
+  const metadata = {
+    documentInfo: {
+      documentType: XBRL_CSV_DOCUMENT_TYPE,
+      namespaces: oimNamespaces(instance),
+      taxonomy: [instance.schemaRef],
+    },
+    tableTemplates: {
+      facts: {
+        dimensions: { entity: `${ENTITY_PREFIX}:${instance.entity.identifier}` },
+        columns: {
+          concept: {},
+          period: {},
+          unit: {},
+          decimals: {},
+          value: {
+            dimensions: { concept: '$concept', period: '$period', unit: '$unit' },
+            decimals: '$decimals',
+          },
+        },
+      },
+    },
+    tables: Object.fromEntries(
+      [...sections.keys()].map((section) => [
+        section,
+        { template: 'facts', url: `${baseName}-${section}.csv` },
+      ])
+    ),
+  };
+
+  return { [`${baseName}.json`]: JSON.stringify(metadata, null, 2), ...tables };
+}
@@ -0,0 +1,129 @@
+/**
+ * XBRL Reporting Periods
+ *
+ * Derives the current and prior (comparative) reporting periods of an extraction and the
+ * XBRL contexts their facts are reported in. Comparative amounts are extracted under
+ * `priorPeriod` with the same field names as the current-period statements.
+ */
+
+export type PeriodKey = 'current' | 'prior';
+
+export interface ReportingPeriod {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface PeriodContext {
+  id: string;
+  period: PeriodKey;
+  startDate?: string;
+  endDate?: string;
+  instant?: string;
+}
+
+/**
+ * Sections reported at a point in time (the period end). Every other section is
+ * reported over the period.
+ */
+export const INSTANT_SECTIONS = ['statementOfFinancialPosition'];
+
+const CONTEXT_PREFIX: Record<PeriodKey, string> = {
+  current: 'CurrentYear',
+  prior: 'PriorYear',
+};
+
+/**
+ * An ISO 8601 date moved by whole years and days, e.g. the end of the prior period from
+ * the start of the current one.
+ */
+const shiftDate = (date: string, { years = 0, days = 0 }): string | undefined => {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) return undefined;
+  const day = parsed.getUTCDate();
+  parsed.setUTCFullYear(parsed.getUTCFullYear() + years);
+  // 29 February moved to a year without one is the 28th, not 1 March
+  if (parsed.getUTCDate() !== day) parsed.setUTCDate(0);
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return parsed.toISOString().slice(0, 10);
+};
+
+const previousDay = (date: string) => shiftDate(date, { days: -1 });
+
+export const nextDay = (date: string) => shiftDate(date, { days: 1 });
+
+/**
+ * Read the current and prior periods from the filing information. The prior period ends
+ * the day before the current one starts.
+ */
+export const getReportingPeriods = (
+  filingInformation: Record<string, any> = {}
+): Record<PeriodKey, ReportingPeriod> => {
+  const currentStart = filingInformation.CurrentPeriodStartDate;
+  return {
+    current: {
+      startDate: currentStart,
+      endDate: filingInformation.CurrentPeriodEndDate,
+    },
+    prior: {
+      startDate: filingInformation.PriorPeriodStartDate,
+      endDate: currentStart ? previousDay(currentStart) : undefined,
+    },
+  };
+};
+
+/**
+ * The period dates of the filing that follows the given one: it starts the day after the
+ * current period ends and runs for a year, with the current period as its comparative.
+ */
+export const getNextReportingPeriod = (
+  filingInformation: Record<string, any> = {}
+): Record<'CurrentPeriodStartDate' | 'CurrentPeriodEndDate' | 'PriorPeriodStartDate', string | undefined> => {
+  const { CurrentPeriodStartDate, CurrentPeriodEndDate } = filingInformation;
+  return {
+    CurrentPeriodStartDate: CurrentPeriodEndDate ? nextDay(CurrentPeriodEndDate) : undefined,
+    CurrentPeriodEndDate: CurrentPeriodEndDate ? shiftDate(CurrentPeriodEndDate, { years: 1 }) : undefined,
+    PriorPeriodStartDate: CurrentPeriodStartDate,
+  };
+};
+
+/**
+ * Build a duration and an instant context for each period that has dates. The prior
+ * period contexts are only included when the extraction has comparatives.
+ */
+export const buildPeriodContexts = (data: Record<string, any>): PeriodContext[] => {
+  const periods = getReportingPeriods(data?.filingInformation);
+  const included: PeriodKey[] = hasComparatives(data) ? ['current', 'prior'] : ['current'];
+
+  return included.flatMap((period) => {
+    const { startDate, endDate } = periods[period];
+    const contexts: PeriodContext[] = [];
+    if (startDate && endDate) {
+      contexts.push({ id: `${CONTEXT_PREFIX[period]}Duration`, period, startDate, endDate });
+    }
+    if (endDate) {
+      contexts.push({ id: `${CONTEXT_PREFIX[period]}Instant`, period, instant: endDate });
+    }
+    return contexts;
+  });
+};
+
+/**
+ * Id of the context a fact of the given section and period is reported in.
+ */
+export const contextIdFor = (section: string, period: PeriodKey): string =>
+  `${CONTEXT_PREFIX[period]}${INSTANT_SECTIONS.includes(section) ? 'Instant' : 'Duration'}`;
+
+export const hasComparatives = (data: Record<string, any>): boolean =>
+  !!data?.priorPeriod &&
+  typeof data.priorPeriod === 'object' &&
+  Object.keys(data.priorPeriod).length > 0;
+
+/**
+ * Split an extraction into its current-period sections and the prior-period comparatives.
+ */
+export const splitByPeriod = (
+  data: Record<string, any>
+): { current: Record<string, any>; prior: Record<string, any> } => {
+  const { priorPeriod, ...current } = data || {};
+  return { current, prior: priorPeriod && typeof priorPeriod === 'object' ? priorPeriod : {} };
+};
@@ -0,0 +1,397 @@
+/**
+ * XBRL Taxonomy Catalog
+ *
+ * Loads the ACRA taxonomy package from disk into a catalog of its elements: the data
+ * type, period type, balance and labels of each element, and the presentation,
+ * calculation and definition relationships between them. The Zod schemas, form labels
+ * and tag lookups can then be generated from the taxonomy in use instead of being
+ * hand-coded for one version of it.
+ *
+ * The package is read as extracted on disk: every `.xsd` schema and every `.xml`
+ * linkbase below its directory, linkbases embedded in schemas included, and the
+ * version from `META-INF/taxonomyPackage.xml` when there is one. Locators are resolved
+ * by the element `id` they point to, so the files can be read in any order.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { xml2js, Element } from 'xml-js';
+import { z } from 'zod';
+import { ACRA_NAMESPACES, elementNameForField } from './xbrl-elements';
+
+export const LABEL_ROLES = {
+  standard: 'http://www.xbrl.org/2003/role/label',
+  terse: 'http://www.xbrl.org/2003/role/terseLabel',
+  verbose: 'http://www.xbrl.org/2003/role/verboseLabel',
+  total: 'http://www.xbrl.org/2003/role/totalLabel',
+  documentation: 'http://www.xbrl.org/2003/role/documentation',
+} as const;
+
+export const ARCROLES = {
+  parentChild: 'http://www.xbrl.org/2003/arcrole/parent-child',
+  summationItem: 'http://www.xbrl.org/2003/arcrole/summation-item',
+} as const;
+
+export type PeriodType = 'instant' | 'duration';
+export type Balance = 'debit' | 'credit';
+export type LinkbaseType = 'presentation' | 'calculation' | 'definition';
+
+export interface TaxonomyElement {
+  /** `id` of the element in its schema, e.g. `sg-as_Revenue`. */
+  id: string;
+  prefix: string;
+  name: string;
+  namespace: string;
+  /** Type as written in the schema, e.g. `xbrli:monetaryItemType`. */
+  dataType: string;
+  substitutionGroup: string;
+  periodType?: PeriodType;
+  balance?: Balance;
+  abstract: boolean;
+  nillable: boolean;
+  /** Label text by label role, in the language the taxonomy was loaded in. */
+  labels: Record<string, string>;
+}
+
+export interface TaxonomyRelationship {
+  /** Extended link role the relationship is in, e.g. a statement's role. */
+  role: string;
+  arcrole: string;
+  /** Qualified names of the parent (or total) and child (or item) elements. */
+  from: string;
+  to: string;
+  order: number;
+  /** Calculation weight: 1 for items added to the total, -1 for items subtracted. */
+  weight?: number;
+  preferredLabel?: string;
+}
+
+export interface TaxonomyPackageInfo {
+  name?: string;
+  version?: string;
+  entryPoints: string[];
+}
+
+export interface TaxonomyFile {
+  /** Path of the file in the package. */
+  path: string;
+  content: string;
+}
+
+export interface TaxonomyLoadOptions {
+  /** Language of the labels to keep; `en` also keeps `en-SG` and the like. @default 'en' */
+  lang?: string;
+}
+
+const EXTENDED_LINKS: Record<string, LinkbaseType | 'label'> = {
+  labelLink: 'label',
+  presentationLink: 'presentation',
+  calculationLink: 'calculation',
+  definitionLink: 'definition',
+};
+
+const NUMERIC_TYPE = /(monetary|decimal|float|double|integer|shares|pure|percent|perShare)ItemType$/i;
+
+const localName = (name = '') => name.slice(name.indexOf(':') + 1);
+
+const children = (element: Element, name?: string): Element[] =>
+  (element.elements ?? []).filter(
+    (child) => child.type === 'element' && (!name || localName(child.name) === name)
+  );
+
+/** Every element below this one, at any depth, with the given local name. */
+const descendants = (element: Element, name: string): Element[] =>
+  children(element).flatMap((child) => [
+    ...(localName(child.name) === name ? [child] : []),
+    ...descendants(child, name),
+  ]);
+
+const attribute = (element: Element, name: string): string | undefined => {
+  const value = element.attributes?.[name];
+  return value === undefined ? undefined : String(value);
+};
+
+const textOf = (element: Element): string =>
+  (element.elements ?? [])
+    .map((child) => (child.type === 'element' ? textOf(child) : String(child.text ?? child.cdata ?? '')))
+    .join('')
+    .trim();
+
+/** The `id` a locator points to: `sg-as-2022.xsd#sg-as_Revenue` is `sg-as_Revenue`. */
+const hrefId = (href = '') => href.slice(href.indexOf('#') + 1);
+
+function parseXml(file: TaxonomyFile): Element | undefined {
+  try {
+    const document = xml2js(file.content, { compact: false }) as Element;
+    return children(document)[0];
+  } catch (error) {
+    throw new Error(
+      `Invalid taxonomy file ${file.path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/** Prefix of a schema's elements: the one it declares for its target namespace. */
+function schemaPrefix(schema: Element, namespace: string, firstId?: string): string {
+  const declared = Object.entries(schema.attributes ?? {}).find(
+    ([name, value]) => name.startsWith('xmlns:') && value === namespace
+  );
+  if (declared) return localName(declared[0]);
+  const acra = Object.entries(ACRA_NAMESPACES).find(([, uri]) => uri === namespace);
+  if (acra) return acra[0];
+  return firstId?.split('_')[0] ?? 'ns';
+}
+
+function schemaElements(schema: Element): TaxonomyElement[] {
+  const namespace = attribute(schema, 'targetNamespace') ?? '';
+  const declarations = children(schema, 'element').filter((element) => attribute(element, 'name'));
+  const prefix = schemaPrefix(schema, namespace, attribute(declarations[0] ?? {}, 'id'));
+
+  return declarations.map((element) => {
+    const name = attribute(element, 'name')!;
+    return {
+      id: attribute(element, 'id') ?? `${prefix}_${name}`,
+      prefix,
+      name,
+      namespace,
+      dataType: attribute(element, 'type') ?? '',
+      substitutionGroup: attribute(element, 'substitutionGroup') ?? '',
+      periodType: attribute(element, 'xbrli:periodType') as PeriodType | undefined,
+      balance: attribute(element, 'xbrli:balance') as Balance | undefined,
+      abstract: attribute(element, 'abstract') === 'true',
+      nillable: attribute(element, 'nillable') === 'true',
+      labels: {},
+    };
+  });
+}
+
+function packageInfo(root: Element): TaxonomyPackageInfo {
+  const text = (name: string) => {
+    const element = children(root, name)[0];
+    return element ? textOf(element) : undefined;
+  };
+  return {
+    name: text('name'),
+    version: text('version'),
+    entryPoints: descendants(root, 'entryPointDocument')
+      .map((entryPoint) => attribute(entryPoint, 'href'))
+      .filter((href): href is string => !!href),
+  };
+}
+
+/**
+ * The catalog of a taxonomy's elements and relationships, with the lookups the schema,
+ * forms and tagging need.
+ */
+export class ElementCatalog {
+  private readonly byQualifiedName = new Map<string, TaxonomyElement>();
+  private readonly byName = new Map<string, TaxonomyElement>();
+
+  constructor(
+    readonly elements: TaxonomyElement[],
+    readonly relationships: Record<LinkbaseType, TaxonomyRelationship[]>,
+    readonly packageInfo: TaxonomyPackageInfo = { entryPoints: [] }
+  ) {
+    elements.forEach((element) => {
+      this.byQualifiedName.set(`${element.prefix}:${element.name}`, element);
+      if (!this.byName.has(element.name)) this.byName.set(element.name, element);
+    });
+  }
+
+  /** Version of the taxonomy package, e.g. `2022.2`. */
+  get version(): string | undefined {
+    return this.packageInfo.version;
+  }
+
+  /**
+   * An element by qualified name (`sg-as:Revenue`), by name, or by the schema field it
+   * is reported as (`WhetherTheFinancialStatementsArePreparedOnGoingConcernBasis`).
+   */
+  get(name: string): TaxonomyElement | undefined {
+    return (
+      this.byQualifiedName.get(name) ??
+      this.byName.get(name) ??
+      this.byName.get(elementNameForField(name))
+    );
+  }
+
+  /** An element's label in the given role, or its standard label. */
+  label(name: string, role: string = LABEL_ROLES.standard): string | undefined {
+    const labels = this.get(name)?.labels;
+    return labels?.[role] ?? labels?.[LABEL_ROLES.standard];
+  }
+
+  /**
+   * Elements whose labels match the text, ignoring case, spacing and punctuation: the
+   * lookup for tagging a line item by its caption.
+   */
+  findByLabel(text: string): TaxonomyElement[] {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    const wanted = normalize(text);
+    return this.elements.filter((element) =>
+      Object.values(element.labels).some((label) => normalize(label) === wanted)
+    );
+  }
+
+  /** The relationships from an element, in order, optionally in one extended link role. */
+  childrenOf(name: string, linkbase: LinkbaseType, role?: string): TaxonomyRelationship[] {
+    const element = this.get(name);
+    if (!element) return [];
+    const from = `${element.prefix}:${element.name}`;
+    return this.relationships[linkbase]
+      .filter((relationship) => relationship.from === from && (!role || relationship.role === role))
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * A Zod schema for the value of an element: numbers for numeric types, booleans,
+   * ISO 8601 dates and strings otherwise, nullable when the element is nillable and
+   * described by its documentation or standard label.
+   */
+  zodType(name: string): z.ZodTypeAny {
+    const element = this.get(name);
+    if (!element) throw new Error(`Unknown taxonomy element: ${name}`);
+
+    const type = localName(element.dataType);
+    let schema: z.ZodTypeAny;
+    if (NUMERIC_TYPE.test(type)) {
+      schema = /shares|integer/i.test(type) ? z.number().int() : z.number();
+    } else if (type === 'booleanItemType') {
+      schema = z.boolean();
+    } else if (type === 'dateItemType') {
+      schema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+    } else {
+      schema = z.string();
+    }
+    if (element.nillable) schema = schema.nullable();
+    const description = this.label(name, LABEL_ROLES.documentation);
+    return description ? schema.describe(description) : schema;
+  }
+
+  /** A Zod object of the given elements, keyed by the names they are given as, all optional. */
+  zodSchema(names: string[]): z.ZodObject<Record<string, z.ZodTypeAny>> {
+    return z.object(Object.fromEntries(names.map((name) => [name, this.zodType(name).optional()])));
+  }
+}
+
+/**
+ * Build the catalog of a taxonomy from the content of its files.
+ * @throws Error when a file is not well-formed XML.
+ */
+export function parseTaxonomy(files: TaxonomyFile[], options: TaxonomyLoadOptions = {}): ElementCatalog {
+  const { lang = 'en' } = options;
+  const documents = files
+    .map((file) => ({ file, root: parseXml(file) }))
+    .filter((document): document is { file: TaxonomyFile; root: Element } => !!document.root);
+
+  const elements = documents
+    .filter(({ root }) => localName(root.name) === 'schema')
+    .flatMap(({ root }) => schemaElements(root));
+  const byId = new Map(elements.map((element) => [element.id, element]));
+
+  const relationships: Record<LinkbaseType, TaxonomyRelationship[]> = {
+    presentation: [],
+    calculation: [],
+    definition: [],
+  };
+  const prohibited: TaxonomyRelationship[] = [];
+  const wantedLang = (value = '') => value === lang || value.startsWith(`${lang}-`);
+
+  documents.forEach(({ root }) => {
+    Object.entries(EXTENDED_LINKS).forEach(([linkName, linkbase]) => {
+      const links = localName(root.name) === linkName ? [root] : descendants(root, linkName);
+      links.forEach((link) => {
+        const role = attribute(link, 'xlink:role') ?? '';
+        const locators = new Map<string, TaxonomyElement[]>();
+        const labels = new Map<string, { role: string; text: string }[]>();
+
+        children(link).forEach((child) => {
+          const label = attribute(child, 'xlink:label');
+          if (!label) return;
+          if (localName(child.name) === 'loc') {
+            const element = byId.get(hrefId(attribute(child, 'xlink:href')));
+            if (element) locators.set(label, [...(locators.get(label) ?? []), element]);
+          } else if (localName(child.name) === 'label' && wantedLang(attribute(child, 'xml:lang'))) {
+            labels.set(label, [
+              ...(labels.get(label) ?? []),
+              { role: attribute(child, 'xlink:role') ?? LABEL_ROLES.standard, text: textOf(child) },
+            ]);
+          }
+        });
+
+        children(link)
+          .filter((child) => attribute(child, 'xlink:type') === 'arc')
+          .forEach((arc) => {
+            const fromElements = locators.get(attribute(arc, 'xlink:from') ?? '') ?? [];
+            const to = attribute(arc, 'xlink:to') ?? '';
+
+            if (linkbase === 'label') {
+              fromElements.forEach((element) =>
+                (labels.get(to) ?? []).forEach(({ role: labelRole, text }) => {
+                  element.labels[labelRole] = text;
+                })
+              );
+              return;
+            }
+
+            const weight = attribute(arc, 'weight');
+            fromElements.forEach((from) =>
+              (locators.get(to) ?? []).forEach((toElement) => {
+                const relationship: TaxonomyRelationship = {
+                  role,
+                  arcrole: attribute(arc, 'xlink:arcrole') ?? '',
+                  from: `${from.prefix}:${from.name}`,
+                  to: `${toElement.prefix}:${toElement.name}`,
+                  order: Number(attribute(arc, 'order') ?? 1),
+                  ...(weight !== undefined && { weight: Number(weight) }),
+                  ...(attribute(arc, 'preferredLabel') && { preferredLabel: attribute(arc, 'preferredLabel') }),
+                };
+                (attribute(arc, 'use') === 'prohibited' ? prohibited : relationships[linkbase]).push(relationship);
+              })
+            );
+          });
+      });
+    });
+  });
+
+  // Prohibiting arcs remove the relationship they repeat, wherever it was defined
+  const isProhibited = (relationship: TaxonomyRelationship) =>
+    prohibited.some(
+      (arc) =>
+        arc.role === relationship.role &&
+        arc.arcrole === relationship.arcrole &&
+        arc.from === relationship.from &&
+        arc.to === relationship.to
+    );
+  (Object.keys(relationships) as LinkbaseType[]).forEach((linkbase) => {
+    relationships[linkbase] = relationships[linkbase].filter((relationship) => !isProhibited(relationship));
+  });
+
+  const packageDocument = documents.find(({ root }) => localName(root.name) === 'taxonomyPackage');
+  return new ElementCatalog(elements, relationships, packageDocument && packageInfo(packageDocument.root));
+}
+
+async function taxonomyFiles(directory: string, root = directory): Promise<TaxonomyFile[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) return taxonomyFiles(fullPath, root);
+      if (!/\.(xsd|xml)$/i.test(entry.name)) return [];
+      return [{ path: path.relative(root, fullPath), content: await fs.readFile(fullPath, 'utf8') }];
+    })
+  );
+  return files.flat();
+}
+
+/**
+ * Load an extracted taxonomy package from disk into an element catalog.
+ * @param directory - Directory the package was extracted to.
+ * @throws Error when the directory cannot be read or a file is not well-formed XML.
+ */
+export async function loadTaxonomy(
+  directory: string,
+  options: TaxonomyLoadOptions = {}
+): Promise<ElementCatalog> {
+  return parseTaxonomy(await taxonomyFiles(directory), options);
+}
@@ -0,0 +1,78 @@
+import { Document } from '@langchain/core/documents';
+import ExcelJS from 'exceljs';
+import { addFileMetadata } from './html';
+import { formatTableGrid } from './pdf-tables';
+
+/** Rows of a worksheet on one page; longer sheets are split into several pages. */
+const ROWS_PER_PAGE = 50;
+
+/**
+ * Read a workbook into pages, one per worksheet or per `ROWS_PER_PAGE` rows of a long
+ * one. Each page is a grid with the sheet's row numbers and column letters, so values
+ * can be cited by cell, and records its sheet and rows in `loc`. Empty rows and columns
+ * are left out; formulas are read as their last calculated value.
+ * @param data - The XLSX file content.
+ * @returns An array of Document objects, one per page.
+ */
+export async function loadWorkbook(data: ArrayBuffer): Promise<Document[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  const docs: Document[] = [];
+  workbook.eachSheet((sheet) => {
+    const rows: { rowNumber: number; cells: string[] }[] = [];
+    sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      const cells = Array.from({ length: sheet.columnCount }, (_, index) =>
+        row.getCell(index + 1).text.replace(/\s+/g, ' ').trim(),
+      );
+      if (cells.some((cell) => cell !== '')) {
+        rows.push({ rowNumber, cells });
+      }
+    });
+
+    const usedColumns = Array.from({ length: sheet.columnCount }, (_, index) => index).filter(
+      (index) => rows.some(({ cells }) => cells[index] !== ''),
+    );
+    for (let start = 0; start < rows.length; start += ROWS_PER_PAGE) {
+      const pageRows = rows.slice(start, start + ROWS_PER_PAGE);
+      const pageNumber = docs.length + 1;
+      const from = pageRows[0].rowNumber;
+      const to = pageRows[pageRows.length - 1].rowNumber;
+      const grid = formatTableGrid({
+        pageNumber,
+        columns: [
+          { role: 'label', header: 'Row' },
+          ...usedColumns.map((index) => ({
+            role: 'amount' as const,
+            header: sheet.getColumn(index + 1).letter,
+          })),
+        ],
+        rows: pageRows.map(({ rowNumber, cells }) => ({
+          label: String(rowNumber),
+          cells: usedColumns.map((index) => cells[index]),
+        })),
+      });
+
+      docs.push(
+        new Document({
+          pageContent: `Sheet: ${sheet.name} (rows ${from}-${to})\n\n${grid}`,
+          metadata: {
+            loc: { pageNumber, sheet: sheet.name, rows: { from, to } },
+            tableCount: 1,
+          },
+        }),
+      );
+    }
+  });
+
+  return docs;
+}
+
+/**
+ * Processes an Excel workbook, such as a trial balance or statements kept in Excel.
+ * @param file - The XLSX file to process.
+ * @returns An array of Document objects, one per page of a worksheet.
+ */
+export async function processXLSX(file: File): Promise<Document[]> {
+  return addFileMetadata(await loadWorkbook(await file.arrayBuffer()), file.name, 'xlsx');
+}
@@ -0,0 +1,508 @@
+/**
+ * XBRL Instance Generation
+ *
+ * Writes the facts of a filing as an XBRL instance document: a `schemaRef` to the ACRA
+ * taxonomy, the entity's current and prior period contexts (see `xbrl-periods.ts`), the
+ * units the facts are measured in and one element per fact, named in its taxonomy
+ * namespace (e.g. `sg-as:Revenue`).
+ *
+ * Two shapes of data are recognised:
+ * - the JSON model of the extraction (`FullXBRL` / `PartialXBRL`), whose field names are
+ *   the element names, with comparatives under `priorPeriod`;
+ * - tagged data from the tagging service, where every value carries the taxonomy element
+ *   it was tagged with in `tags` (or a `concept` such as `sg-as:Assets`).
+ * Anything else is converted to plain XML.
+ */
+
+import { js2xml, Element } from 'xml-js';
+import {
+  ACRA_NAMESPACES,
+  ACRA_SCHEMA_REF,
+  XBRL_NAMESPACES,
+  elementNameForField,
+  prefixForSection,
+} from './xbrl-elements';
+import {
+  buildPeriodContexts,
+  contextIdFor,
+  PeriodContext,
+  PeriodKey,
+  splitByPeriod,
+} from './xbrl-periods';
+
+export interface TransformOptions {
+  /** Write the document on one line. */
+  compact?: boolean;
+  /** Indentation of each level. @default 2 */
+  spaces?: number;
+  /** Write empty elements as `<a></a>` rather than `<a/>`. */
+  fullTagEmptyElement?: boolean;
+  /** Write an XBRL instance when the data is a filing, and plain XML otherwise. @default true */
+  detectXbrl?: boolean;
+  /** Put each attribute on its own line. */
+  indentAttributes?: boolean;
+  /** Start with the XML declaration. @default true */
+  includeDeclaration?: boolean;
+  /** Namespaces by prefix, added to or replacing the ACRA taxonomy namespaces. */
+  customNamespaces?: Record<string, string>;
+  /** Taxonomy entry point of the `schemaRef`. @default ACRA_SCHEMA_REF */
+  schemaRef?: string;
+  /** Scheme of the entity identifier (the UEN). @default 'http://www.acra.gov.sg' */
+  entityScheme?: string;
+  /**
+   * How the amounts were normalized to units (the `normalization` of the extraction).
+   * Monetary facts then take its `decimals` and are measured in its `currency`, rather
+   * than those of the rounding level and presentation currency the filing declares.
+   */
+  normalization?: AmountNormalization;
+}
+
+/** The parts of a `NormalizationRecord` that describe the normalized amounts. */
+export interface AmountNormalization {
+  /** XBRL `decimals` of the presented figures, e.g. -3 for thousands. */
+  decimals: number;
+  /** Currency of the normalized amounts. */
+  currency: string;
+}
+
+const isAmountNormalization = (value: unknown): value is AmountNormalization =>
+  typeof value === 'object' &&
+  value !== null &&
+  Number.isInteger((value as AmountNormalization).decimals) &&
+  typeof (value as AmountNormalization).currency === 'string' &&
+  /^[A-Z]{3}$/.test((value as AmountNormalization).currency);
+
+/**
+ * Read a `normalization` request parameter: the extraction's `normalization` as JSON.
+ * @returns The normalization, nothing when the parameter is absent, or why it is invalid.
+ */
+export function parseAmountNormalization(param: string | null): { value?: AmountNormalization; error?: string } {
+  if (!param) return {};
+  let value: unknown;
+  try {
+    value = JSON.parse(param);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+  return isAmountNormalization(value)
+    ? { value }
+    : { error: 'Expected an object with integer decimals and an ISO 4217 currency' };
+}
+
+/**
+ * The data cannot be written as an XBRL instance. `details` lists every problem found.
+ */
+export class XmlTransformError extends Error {
+  constructor(message: string, public readonly details: string[] = []) {
+    super(details.length > 0 ? `${message}: ${details.join('; ')}` : message);
+    this.name = 'XmlTransformError';
+  }
+}
+
+type FactKind = 'monetary' | 'shares' | 'pure' | 'nonNumeric';
+
+interface Fact {
+  prefix: string;
+  name: string;
+  value: string | number | boolean | null;
+  contextRef: string;
+  kind: FactKind;
+  /** Where the value is in the data, without `priorPeriod`. */
+  path: string[];
+}
+
+export interface XbrlFact {
+  prefix: string;
+  name: string;
+  value: string | number | boolean | null;
+  contextRef: string;
+  unitRef?: string;
+  decimals?: string;
+  path: string[];
+}
+
+export interface XbrlUnit {
+  id: string;
+  measure: string;
+}
+
+/**
+ * The content of an instance document, whatever format it is written in: the facts with
+ * their contexts and units resolved, and only the contexts and units they use.
+ */
+export interface XbrlInstance {
+  schemaRef: string;
+  /** Namespaces of the facts' prefixes, by prefix. */
+  namespaces: Record<string, string>;
+  entity: { scheme: string; identifier: string };
+  contexts: PeriodContext[];
+  units: XbrlUnit[];
+  facts: XbrlFact[];
+}
+
+/** Context id of a fact from the tagging service, which tags current-period values only. */
+const TAGGED_CONTEXTS = {
+  instant: contextIdFor('statementOfFinancialPosition', 'current'),
+  duration: contextIdFor('filingInformation', 'current'),
+};
+
+/** Decimals of monetary amounts by `LevelOfRoundingUsedInFinancialStatements`. */
+const DECIMALS_BY_ROUNDING: Record<string, number> = {
+  Units: 0,
+  Thousands: -3,
+  Millions: -6,
+};
+
+/** Numbers of the JSON model that are counts rather than amounts. */
+const PURE_FIELDS = new Set(['YearOfAppointmentOfSigningAuditor', 'NumberOfKeyAuditMattersReported']);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isFactValue = (value: unknown): value is Fact['value'] =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+/** Taxonomy element names are PascalCase; other keys of the model group or describe fields. */
+const isElementName = (key: string) => /^[A-Z]/.test(key);
+
+const kindOfField = (name: string, value: unknown): FactKind => {
+  if (typeof value !== 'number') return 'nonNumeric';
+  if (/^NumberOf\w*Shares/.test(name)) return 'shares';
+  return PURE_FIELDS.has(name) ? 'pure' : 'monetary';
+};
+
+const kindOfDataType = (dataType = ''): FactKind => {
+  const type = dataType.slice(dataType.indexOf(':') + 1);
+  if (type === 'monetaryItemType') return 'monetary';
+  if (type === 'sharesItemType') return 'shares';
+  if (/^(pure|percent|decimal|integer|nonNegativeInteger|perShare)ItemType$/.test(type)) return 'pure';
+  return 'nonNumeric';
+};
+
+/**
+ * The facts of the JSON model: every PascalCase field of a section, with the section's
+ * nesting dropped, in the context of its section and period.
+ */
+function modelFacts(data: Record<string, unknown>): Fact[] {
+  const { current, prior } = splitByPeriod(data);
+  const facts: Fact[] = [];
+
+  const collect = (value: unknown, path: string[], period: PeriodKey) => {
+    if (isObject(value)) {
+      Object.entries(value).forEach(([key, child]) => collect(child, [...path, key], period));
+      return;
+    }
+    const key = path[path.length - 1];
+    if (!isElementName(key) || !isFactValue(value)) return;
+    const name = elementNameForField(key);
+    facts.push({
+      prefix: prefixForSection(path[0]),
+      name,
+      value,
+      contextRef: contextIdFor(path[0], period),
+      kind: kindOfField(name, value),
+      path,
+    });
+  };
+
+  ([['current', current], ['prior', prior]] as const).forEach(([period, sections]) =>
+    Object.entries(sections).forEach(([section, fields]) => {
+      if (isObject(fields)) collect(fields, [section], period);
+    })
+  );
+  return facts;
+}
+
+/** A tag the tagging service gave a value. */
+interface ServiceTag {
+  prefix: string;
+  element_name: string;
+  data_type?: string | null;
+  period_type?: string | null;
+}
+
+const isServiceTag = (candidate: unknown): candidate is ServiceTag =>
+  isObject(candidate) && typeof candidate.element_name === 'string' && !!candidate.element_name;
+
+/** The element a tagged value was tagged with, if it is one. */
+const taggedElement = (
+  value: Record<string, unknown>
+): { prefix: string; name: string; dataType?: string; periodType?: string } | undefined => {
+  const tag = Array.isArray(value.tags) ? value.tags.find(isServiceTag) : undefined;
+  if (tag) {
+    return {
+      prefix: tag.prefix,
+      name: tag.element_name,
+      dataType: tag.data_type ?? undefined,
+      periodType: tag.period_type ?? undefined,
+    };
+  }
+  if (typeof value.concept === 'string' && value.concept.includes(':')) {
+    const [prefix, name] = value.concept.split(':');
+    return { prefix, name };
+  }
+  return undefined;
+};
+
+/** The facts of tagged data, found at any depth. */
+function taggedFacts(data: unknown, path: string[] = []): Fact[] {
+  if (Array.isArray(data)) return data.flatMap((item, index) => taggedFacts(item, [...path, String(index)]));
+  if (!isObject(data)) return [];
+
+  const tag = 'value' in data ? taggedElement(data) : undefined;
+  if (!tag) return Object.entries(data).flatMap(([key, value]) => taggedFacts(value, [...path, key]));
+
+  const kind = tag.dataType ? kindOfDataType(tag.dataType) : kindOfField(tag.name, data.value);
+  let value: Fact['value'] = isFactValue(data.value) ? data.value : null;
+  if (value !== null && kind !== 'nonNumeric' && typeof value !== 'number') {
+    value = Number(String(value).replace(/,/g, ''));
+  }
+  if (typeof value === 'string' && /booleanItemType$/.test(tag.dataType ?? '')) {
+    value = value.toLowerCase() === 'true';
+  }
+  return [
+    {
+      prefix: tag.prefix,
+      name: tag.name,
+      value,
+      contextRef: tag.periodType === 'instant' ? TAGGED_CONTEXTS.instant : TAGGED_CONTEXTS.duration,
+      kind,
+      path,
+    },
+  ];
+}
+
+const hasTaggedValues = (data: unknown): boolean =>
+  Array.isArray(data)
+    ? data.some(hasTaggedValues)
+    : isObject(data) &&
+      (('value' in data && taggedElement(data) !== undefined) || Object.values(data).some(hasTaggedValues));
+
+/** Escape what xml-js leaves as is in attribute values; it escapes quotes itself. */
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+/**
+ * An element for `js2xml`, with the attributes that have a value and either child
+ * elements or text.
+ */
+export const xmlElement = (
+  name: string,
+  attributes: Record<string, string | undefined> = {},
+  content?: Element[] | string
+): Element => ({
+  type: 'element',
+  name,
+  attributes: Object.fromEntries(
+    Object.entries(attributes)
+      .filter((entry): entry is [string, string] => entry[1] !== undefined)
+      .map(([key, value]) => [key, escapeAttribute(value)])
+  ),
+  elements: typeof content === 'string' ? [{ type: 'text', text: content }] : content,
+});
+
+export const contextElement = (context: PeriodContext, entity: XbrlInstance['entity']): Element =>
+  xmlElement('xbrli:context', { id: context.id }, [
+    xmlElement('xbrli:entity', {}, [
+      xmlElement('xbrli:identifier', { scheme: entity.scheme }, entity.identifier),
+    ]),
+    xmlElement(
+      'xbrli:period',
+      {},
+      context.instant
+        ? [xmlElement('xbrli:instant', {}, context.instant)]
+        : [
+            xmlElement('xbrli:startDate', {}, context.startDate),
+            xmlElement('xbrli:endDate', {}, context.endDate),
+          ]
+    ),
+  ]);
+
+export const unitElement = (unit: XbrlUnit): Element =>
+  xmlElement('xbrli:unit', { id: unit.id }, [xmlElement('xbrli:measure', {}, unit.measure)]);
+
+/** `xmlns:` attributes declaring XBRL's namespaces and those of the instance. */
+export const namespaceAttributes = (instance: XbrlInstance): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries({ ...XBRL_NAMESPACES, ...instance.namespaces }).map(([prefix, uri]) => [
+      `xmlns:${prefix}`,
+      uri,
+    ])
+  );
+
+/**
+ * Resolve the contexts and units of a list of facts. Facts repeated in the same context
+ * are kept once; repeated with different values they are an error, as are facts without
+ * a context or namespace.
+ */
+function resolveInstance(facts: Fact[], contexts: PeriodContext[], options: TransformOptions): XbrlInstance {
+  const namespaces = { ...ACRA_NAMESPACES, ...options.customNamespaces };
+  const factValue = (name: string) =>
+    facts.find((fact) => fact.name === name && fact.value !== null)?.value;
+  const problems: string[] = [];
+
+  const identifier = factValue('UniqueEntityNumber');
+  if (identifier === undefined) {
+    problems.push('UniqueEntityNumber is required as the entity identifier');
+  }
+  // Normalized amounts keep the precision of the figures they were scaled from
+  const { normalization } = options;
+  const currency = normalization?.currency ?? String(factValue('DescriptionOfPresentationCurrency') ?? 'SGD');
+  const rounding = String(factValue('LevelOfRoundingUsedInFinancialStatements') ?? 'Units');
+  const monetaryDecimals = normalization?.decimals ?? DECIMALS_BY_ROUNDING[rounding];
+  if (monetaryDecimals === undefined) {
+    problems.push(`Unknown LevelOfRoundingUsedInFinancialStatements "${rounding}"`);
+  }
+
+  type NumericKind = Exclude<FactKind, 'nonNumeric'>;
+  const units: Record<NumericKind, XbrlUnit> = {
+    monetary: { id: currency, measure: `iso4217:${currency}` },
+    shares: { id: 'Shares', measure: 'xbrli:shares' },
+    pure: { id: 'Pure', measure: 'xbrli:pure' },
+  };
+  const decimals: Record<NumericKind, string> = {
+    monetary: String(monetaryDecimals ?? 0),
+    shares: '0',
+    pure: 'INF',
+  };
+
+  const contextIds = new Set(contexts.map(({ id }) => id));
+  const missingContexts = new Set<string>();
+  const resolved = new Map<string, XbrlFact>();
+  const usedPrefixes = new Set<string>();
+  const usedUnits = new Set<NumericKind>();
+
+  facts.forEach((fact) => {
+    const qualifiedName = `${fact.prefix}:${fact.name}`;
+    if (!namespaces[fact.prefix]) {
+      problems.push(`${qualifiedName}: no namespace for prefix "${fact.prefix}"`);
+      return;
+    }
+    if (!contextIds.has(fact.contextRef)) {
+      if (!missingContexts.has(fact.contextRef)) {
+        problems.push(`Context ${fact.contextRef} needs the period dates of the filing`);
+        missingContexts.add(fact.contextRef);
+      }
+      return;
+    }
+    if (typeof fact.value === 'number' && !Number.isFinite(fact.value)) {
+      problems.push(`${qualifiedName}: not a number`);
+      return;
+    }
+
+    const key = `${qualifiedName}@${fact.contextRef}`;
+    const previous = resolved.get(key);
+    if (previous) {
+      if (previous.value !== fact.value) {
+        problems.push(`${qualifiedName}: ${previous.value} and ${fact.value} reported in ${fact.contextRef}`);
+      }
+      return;
+    }
+
+    const numeric = fact.kind !== 'nonNumeric' ? (fact.kind as NumericKind) : undefined;
+    if (numeric) usedUnits.add(numeric);
+    usedPrefixes.add(fact.prefix);
+    resolved.set(key, {
+      prefix: fact.prefix,
+      name: fact.name,
+      value: fact.value,
+      contextRef: fact.contextRef,
+      unitRef: numeric && units[numeric].id,
+      // Nil facts have no precision
+      decimals: numeric && fact.value !== null ? decimals[numeric] : undefined,
+      path: fact.path,
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new XmlTransformError('Cannot write the XBRL instance', problems);
+  }
+
+  const usedContexts = new Set([...resolved.values()].map(({ contextRef }) => contextRef));
+  return {
+    schemaRef: options.schemaRef ?? ACRA_SCHEMA_REF,
+    namespaces: Object.fromEntries(
+      Object.entries(namespaces).filter(
+        ([prefix]) => usedPrefixes.has(prefix) || !(prefix in ACRA_NAMESPACES)
+      )
+    ),
+    entity: { scheme: options.entityScheme ?? 'http://www.acra.gov.sg', identifier: String(identifier) },
+    contexts: contexts.filter(({ id }) => usedContexts.has(id)),
+    units: [...usedUnits].map((kind) => units[kind]),
+    facts: [...resolved.values()],
+  };
+}
+
+const isModel = (data: unknown): data is Record<string, unknown> =>
+  isObject(data) && isObject(data.filingInformation) && !hasTaggedValues(data);
+
+/** Whether data is a filing `XmlTransformer` can write as XBRL: the JSON model or tagged data. */
+export const isXbrlData = (data: unknown): boolean => isModel(data) || hasTaggedValues(data);
+
+export class XmlTransformer {
+  /**
+   * Resolve the facts, contexts and units of a filing, for writing in any format.
+   * @throws XmlTransformError when the data is not a filing, or not a valid one.
+   */
+  static toInstance(data: unknown, options: TransformOptions = {}): XbrlInstance {
+    if (isModel(data)) {
+      return resolveInstance(modelFacts(data), buildPeriodContexts(data), options);
+    }
+    if (hasTaggedValues(data)) {
+      const facts = taggedFacts(data);
+      const dates = Object.fromEntries(
+        ['CurrentPeriodStartDate', 'CurrentPeriodEndDate'].map((name) => [
+          name,
+          facts.find((fact) => fact.name === name)?.value ?? undefined,
+        ])
+      );
+      return resolveInstance(facts, buildPeriodContexts({ filingInformation: dates }), options);
+    }
+    throw new XmlTransformError('Data is neither the JSON model of a filing nor tagged data');
+  }
+
+  /**
+   * Convert data to XML: an XBRL instance for the JSON model or tagged data, plain XML
+   * otherwise, or always plain XML with `detectXbrl: false`.
+   * @throws XmlTransformError when a filing cannot be written as a valid instance.
+   */
+  static toXml(data: unknown, options: TransformOptions = {}): string {
+    const {
+      compact = false,
+      spaces = 2,
+      fullTagEmptyElement = false,
+      detectXbrl = true,
+      indentAttributes = false,
+      includeDeclaration = true,
+    } = options;
+
+    if (!detectXbrl || !isXbrlData(data)) {
+      return js2xml(
+        {
+          ...(includeDeclaration && { _declaration: { _attributes: { version: '1.0', encoding: 'UTF-8' } } }),
+          root: data,
+        },
+        { compact: true, spaces: compact ? 0 : spaces, fullTagEmptyElement, indentAttributes }
+      );
+    }
+
+    const instance = XmlTransformer.toInstance(data, options);
+    const root = xmlElement('xbrli:xbrl', namespaceAttributes(instance), [
+      xmlElement('link:schemaRef', { 'xlink:type': 'simple', 'xlink:href': instance.schemaRef }),
+      ...instance.contexts.map((context) => contextElement(context, instance.entity)),
+      ...instance.units.map(unitElement),
+      ...instance.facts.map(({ prefix, name, value, contextRef, unitRef, decimals }) =>
+        value === null
+          ? xmlElement(`${prefix}:${name}`, { contextRef, unitRef, 'xsi:nil': 'true' })
+          : xmlElement(`${prefix}:${name}`, { contextRef, unitRef, decimals }, String(value))
+      ),
+    ]);
+
+    return js2xml(
+      {
+        ...(includeDeclaration && { declaration: { attributes: { version: '1.0', encoding: 'UTF-8' } } }),
+        elements: [root],
+      },
+      { spaces: compact ? 0 : spaces, fullTagEmptyElement, indentAttributes }
+    );
+  }
+}
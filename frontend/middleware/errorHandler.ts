@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { Logger, LogLevel } from '@/lib/logger';
+
+const logger = Logger.getInstance({
+  minLevel: LogLevel.DEBUG,
+  includeContext: true,
+  colorizeOutput: true
+});
+
+/**
+ * An error a route handler throws to answer with a given status. The response body is
+ * `{ message, error }`, like the responses the routes build themselves.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 500,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** The request itself is invalid (400). */
+export class BadRequestError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(message, 400, details);
+    this.name = 'BadRequestError';
+  }
+}
+
+/** A service the route depends on could not be reached (503). */
+export class ServiceUnavailableError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(message, 503, details);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+type RouteHandler<Args extends unknown[]> = (...args: Args) => Promise<Response>;
+
+/**
+ * Wrap a route handler so a thrown `ApiError` becomes a response with its status, and
+ * anything else a 500, instead of an unhandled rejection.
+ * @param serviceName - Context the errors are logged under.
+ * @param handler - The route handler.
+ * @returns The handler with its errors answered.
+ */
+export function withErrorHandler<Args extends unknown[]>(
+  serviceName: string,
+  handler: RouteHandler<Args>
+): RouteHandler<Args> {
+  return async (...args: Args) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        logger.warn(`${error.name} (${error.status}): ${error.message}`, serviceName);
+        return NextResponse.json(
+          { message: error.message, error: error.details ?? error.message },
+          { status: error.status }
+        );
+      }
+      logger.error(`Internal server error: ${String(error)}`, serviceName);
+      return NextResponse.json(
+        { message: 'Internal server error', error: String(error) },
+        { status: 500 }
+      );
+    }
+  };
+}
+
+/**
+ * Parse JSON without throwing.
+ * @param text - The JSON text.
+ * @returns The parsed value, or the parse error's message.
+ */
+export function safeJsonParse<T = unknown>(
+  text: string
+): { ok: true; value: T } | { ok: false; error: string } {
+  try {
+    return { ok: true, value: JSON.parse(text) as T };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -20,6 +20,10 @@ const nextConfig = {
     webpackBuildWorker: true,
     parallelServerBuildTraces: true,
     parallelServerCompiles: true,
+    // pdf.js and tesseract.js load their workers and data files from node_modules at
+    // runtime, and @napi-rs/canvas is a native addon, so they must not be bundled into
+    // the server build
+    serverComponentsExternalPackages: ['pdfjs-dist', '@napi-rs/canvas', 'tesseract.js', '@tesseract.js-data/eng'],
   },
 }
 
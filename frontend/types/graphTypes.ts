@@ -56,12 +56,60 @@ export type PDFDocument = Document & {
   };
 };
 
+/**
+ * Where a single extracted value came from, keyed by field path (e.g. `incomeStatement.Revenue`)
+ * in the provenance map produced by the reduceExtractions node.
+ */
+export interface FieldProvenance {
+  chunkId: string;
+  pageNumber?: number;
+  snippet: string;
+  verified: boolean;
+  batch: number;
+}
+
+export type ProvenanceMap = Record<string, FieldProvenance>;
+
+export type XBRLFilingType = 'Full' | 'Partial';
+
+/**
+ * A rate converting one unit of a foreign currency into the reporting currency.
+ */
+export interface ExchangeRate {
+  rate: number;
+  date: string;
+  source?: string;
+}
+
+/**
+ * How the statements were presented and how the normalizeAmounts node scaled and
+ * converted the amounts.
+ */
+export interface NormalizationRecord {
+  presentationCurrency: string;
+  roundingLevel: 'Units' | 'Thousands' | 'Millions';
+  scale: number;
+  decimals: number;
+  currency: string;
+  exchangeRate?: ExchangeRate & { from: string; to: string };
+  warnings: string[];
+}
+
 export interface BaseConfiguration {
   /**
-   * The vector store provider to use for retrieval.
+   * The vector store provider to use for retrieval. 'local' keeps chunks in the
+   * LangGraph server process, for development without Supabase.
    * @default 'supabase'
    */
-  retrieverProvider?: 'supabase';
+  retrieverProvider?: 'supabase' | 'local';
+
+  /**
+   * The embeddings model, as 'provider/model': 'openai/<model>', 'transformers/<model>'
+   * for a local CPU model, or 'fake/hash', which needs no network. Documents must be
+   * re-ingested after it changes.
+   * @default 'openai/text-embedding-3-small'
+   */
+  embeddingModel?: string;
 
   /**
    * Additional keyword arguments to pass to the search function of the retriever for filtering.
@@ -71,10 +119,34 @@ export interface BaseConfiguration {
   filterKwargs?: Record<string, any>;
 
   /**
-   * The number of documents to retrieve.
+   * How documents are retrieved for extraction: every page, narrowed by heading, or
+   * targeted vector + BM25 queries per schema field group.
+   * @default 'all-chunks'
+   */
+  retrievalMode?: 'all-chunks' | 'hybrid';
+
+  /**
+   * The number of documents to retrieve. In hybrid mode, the pages kept per query.
    * @default 5
    */
   k?: number;
+
+  /**
+   * Approximate token budget for each batch of documents sent to the model.
+   * @default 12000
+   */
+  batchSize?: number;
+
+  /**
+   * The documents of the current session. Retrieval only reads chunks of these documents.
+   * @default []
+   */
+  documentIds?: string[];
+
+  /**
+   * The user who uploaded the session's documents.
+   */
+  userId?: string;
 }
 
 export interface AgentConfiguration extends BaseConfiguration {
@@ -84,6 +156,30 @@ export interface AgentConfiguration extends BaseConfiguration {
    * Should be in the form: provider/model-name.
    */
   queryModel?: string;
+
+  /**
+   * Whether the run targets a Full or Partial XBRL filing.
+   * @default 'Partial'
+   */
+  xbrlFilingType?: XBRLFilingType;
+
+  /**
+   * Times the model may re-read line items that fail the accounting identity checks.
+   * @default 1
+   */
+  maxReconciliationRounds?: number;
+
+  /**
+   * ISO 4217 code of the currency extracted amounts are converted to.
+   * @default 'SGD'
+   */
+  reportingCurrency?: string;
+
+  /**
+   * Exchange rates into the reporting currency, keyed by ISO 4217 code.
+   * @default {}
+   */
+  exchangeRates?: Record<string, ExchangeRate>;
 }
 
 export interface IndexConfiguration extends BaseConfiguration {
@@ -97,4 +193,10 @@ export interface IndexConfiguration extends BaseConfiguration {
    */
   useSampleDocs?: boolean;
   queryModel?: string
+
+  /**
+   * Replace the stored chunks of the ingested documents instead of keeping them.
+   * @default false
+   */
+  forceReingest?: boolean;
 }
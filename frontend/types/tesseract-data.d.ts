@@ -0,0 +1,7 @@
+/**
+ * Language data packages for tesseract.js ship without type declarations.
+ */
+declare module '@tesseract.js-data/eng' {
+  const data: { code: string; gzip: boolean; langPath: string };
+  export default data;
+}